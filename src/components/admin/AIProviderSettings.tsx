@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { PlugZapIcon, RotateCcwIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useLLMSettings } from "@/hooks/use-llm-settings";
+import { LLM_PROVIDERS, MOCK_FIXTURES, getLLMProvider, type LLMProviderId } from "@/lib/llm-providers";
+
+/**
+ * Settings of the AI brand analysis: provider, model and connection
+ */
+export function AIProviderSettings() {
+  const settings = useLLMSettings();
+  const { providerId, models, openAICompatible, mockFixture, rememberApiKey } = settings;
+  const provider = getLLMProvider(providerId);
+  const model = models[provider.id] || provider.models[0];
+  const [check, setCheck] = useState<{ status: "running" | "ok" | "error"; message: string } | null>(null);
+
+  const handleCheck = async () => {
+    setCheck({ status: "running", message: "Отправка запроса..." });
+    try {
+      await provider.complete(
+        { systemContent: "Ответь одним словом.", userContent: "Проверка связи", model, maxTokens: 5 },
+        { providerId, models, openAICompatible, mockFixture }
+      );
+      setCheck({ status: "ok", message: `Провайдер ответил, модель ${model}` });
+    } catch (e) {
+      setCheck({ status: "error", message: e instanceof Error ? e.message : "Неизвестная ошибка" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Провайдер и модель, через которые выполняется ИИ-анализ бренда. Настройки хранятся в этом браузере, ключ API — только по вашему выбору.
+      </p>
+
+      <RadioGroup
+        value={provider.id}
+        onValueChange={(value) => {
+          settings.setProvider(value as LLMProviderId);
+          setCheck(null);
+        }}
+        className="grid sm:grid-cols-3 gap-4"
+      >
+        {LLM_PROVIDERS.map((item) => (
+          <Label
+            key={item.id}
+            htmlFor={`llm-provider-${item.id}`}
+            className="flex items-start gap-3 rounded-md border p-4 cursor-pointer has-[[data-state=checked]]:border-[#d32f2f]"
+          >
+            <RadioGroupItem id={`llm-provider-${item.id}`} value={item.id} className="mt-0.5" />
+            <span className="space-y-1">
+              <span className="block font-semibold">{item.label}</span>
+              <span className="block text-xs font-normal text-muted-foreground">{item.description}</span>
+            </span>
+          </Label>
+        ))}
+      </RadioGroup>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="llm-model">Модель</Label>
+          {provider.allowsCustomModel ? (
+            <>
+              <Input
+                id="llm-model"
+                list="llm-model-suggestions"
+                value={model}
+                onChange={(e) => settings.setModel(provider.id, e.target.value)}
+              />
+              <datalist id="llm-model-suggestions">
+                {provider.models.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </>
+          ) : (
+            <Select value={model} onValueChange={(value) => settings.setModel(provider.id, value)}>
+              <SelectTrigger id="llm-model">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {provider.models.map((name) => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {provider.id === "mock" && (
+          <div className="space-y-2">
+            <Label htmlFor="llm-mock-fixture">Тестовый ответ</Label>
+            <Select value={mockFixture} onValueChange={settings.setMockFixture}>
+              <SelectTrigger id="llm-mock-fixture">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MOCK_FIXTURES.map((fixture) => (
+                  <SelectItem key={fixture.id} value={fixture.id}>{fixture.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {provider.id === "openai-compatible" && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="llm-base-url">Адрес API</Label>
+              <Input
+                id="llm-base-url"
+                placeholder="https://api.openai.com/v1"
+                value={openAICompatible.baseUrl}
+                onChange={(e) => settings.setOpenAICompatible({ baseUrl: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">Запросы отправляются на {"{адрес}"}/chat/completions</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="llm-api-key">Ключ API</Label>
+              <Input
+                id="llm-api-key"
+                type="password"
+                autoComplete="off"
+                value={openAICompatible.apiKey}
+                onChange={(e) => settings.setOpenAICompatible({ apiKey: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Секретный ключ: по умолчанию хранится только до закрытия страницы. Не нужен для локальных серверов без авторизации
+              </p>
+              <div className="flex items-center gap-3 pt-1">
+                <Switch
+                  id="llm-remember-api-key"
+                  checked={rememberApiKey}
+                  onCheckedChange={settings.setRememberApiKey}
+                />
+                <Label htmlFor="llm-remember-api-key" className="cursor-pointer font-normal">
+                  Запомнить ключ в этом браузере (в открытом виде в localStorage)
+                </Label>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button onClick={handleCheck} disabled={check?.status === "running"} style={{ backgroundColor: "#d32f2f" }}>
+          <PlugZapIcon className="h-4 w-4 mr-2" />
+          Проверить подключение
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => {
+            settings.resetSettings();
+            setCheck(null);
+          }}
+        >
+          <RotateCcwIcon className="h-4 w-4 mr-2" />
+          Настройки по умолчанию
+        </Button>
+        {check && (
+          <span className={`text-sm ${check.status === "error" ? "text-destructive" : "text-muted-foreground"}`}>
+            {check.message}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
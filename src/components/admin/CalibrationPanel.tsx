@@ -0,0 +1,386 @@
+import { useMemo, useState } from "react";
+import { PencilIcon, SaveIcon, Trash2Icon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { CalculationHistoryModel } from "@/components/data/orm/orm_calculation_history";
+import type { CampaignActualsModel } from "@/components/data/orm/orm_campaign_actuals";
+import {
+  calibrateCoefficients,
+  CAMPAIGN_GOAL_LABELS,
+  DEFAULT_KPI_BENCHMARKS,
+  DEFAULT_TA_CAPACITY_RF,
+  type CalibrationSample,
+  type CampaignGoal,
+  type DuplicationMethod,
+  type KpiCoefficients,
+  type MediaChannelId,
+  type PlanningMode,
+} from "@/lib/frequency-engine";
+import { useCampaignActuals } from "@/hooks/use-campaign-actuals";
+import { BUILT_IN_COEFFICIENT_SET, useKpiCoefficients } from "@/hooks/use-kpi-coefficients";
+
+type ActualsField = "measured_reach" | "tom_lift" | "search_lift" | "conversion_lift" | "ltv_change";
+
+const ACTUALS_FIELDS: Array<{ key: ActualsField; label: string }> = [
+  { key: "measured_reach", label: "Охват, %" },
+  { key: "tom_lift", label: "Прирост TOM, п.п." },
+  { key: "search_lift", label: "Рост поисковых запросов, %" },
+  { key: "conversion_lift", label: "Прирост конверсий, %" },
+  { key: "ltv_change", label: "Изменение LTV, %" },
+];
+
+const COEFFICIENT_LABELS: Record<keyof KpiCoefficients, string> = {
+  tomScale: "Масштаб TOM",
+  tomFrequencySlope: "Наклон частоты TOM",
+  ltvScale: "Масштаб LTV",
+  ltvFrequencySlope: "Наклон частоты LTV",
+  searchScale: "Масштаб поиска",
+  conversionScale: "Масштаб конверсий",
+  tomBudgetReference: "Опорный бюджет TOM",
+  ltvSaturationPenalty: "Штраф LTV за насыщенность",
+  ltvBudgetReference: "Опорный бюджет LTV",
+};
+
+const EMPTY_ACTUALS: CampaignActualsModel = {
+  id: "",
+  data_creator: "",
+  data_updater: "",
+  create_time: "",
+  update_time: "",
+  calculation_id: "",
+  study_name: null,
+  measured_reach: null,
+  tom_lift: null,
+  search_lift: null,
+  conversion_lift: null,
+  ltv_change: null,
+};
+
+function isCampaignGoal(goal: string | null | undefined): goal is CampaignGoal {
+  return !!goal && goal in CAMPAIGN_GOAL_LABELS;
+}
+
+function formatRecord(record: CalculationHistoryModel): string {
+  const date = new Date(record.calculation_time).toLocaleDateString("ru-RU");
+  const goal = isCampaignGoal(record.campaign_goal) ? CAMPAIGN_GOAL_LABELS[record.campaign_goal] : "без цели";
+  return `${date} · ${record.brand_name || "без бренда"} · ${goal} · ${Math.round(record.budget ?? 0).toLocaleString("ru-RU")} RUB`;
+}
+
+/**
+ * Rebuild the forecast inputs of a history record, with the coefficient set it was forecast with.
+ * Records saved before benchmarks, capacity, prices and baselines were stored assume the defaults;
+ * records saved before coefficients were versioned used the built-in set.
+ */
+function toCalibrationSample(
+  record: CalculationHistoryModel,
+  actuals: CampaignActualsModel,
+  coefficientSets: Map<number, KpiCoefficients>
+): CalibrationSample | null {
+  if (!isCampaignGoal(record.campaign_goal) || !record.budget) return null;
+  const { planning, media_mix: mediaMix, kpi_baselines: baselines } = record;
+  return {
+    id: actuals.id,
+    input: {
+      params: {
+        brandAwareness: record.brand_awareness,
+        marketSaturation: record.market_saturation,
+        campaignGoal: record.campaign_goal_param,
+        targetAudience: record.target_audience,
+        productComplexity: record.product_complexity,
+        messageComplexity: record.message_complexity,
+      },
+      budget: record.budget,
+      goal: record.campaign_goal,
+      taCapacityRF: record.ta_capacity_rf ?? DEFAULT_TA_CAPACITY_RF,
+      kpiBenchmarks: record.kpi_benchmarks ?? DEFAULT_KPI_BENCHMARKS,
+      planning: planning
+        ? {
+          mode: planning.mode as PlanningMode,
+          cpm: planning.cpm,
+          costPerTrp: planning.cost_per_trp,
+          affinity: planning.affinity,
+          universe: planning.universe ?? null,
+        }
+        : undefined,
+      // A stored mix means the mix was enabled
+      mediaMix: mediaMix
+        ? {
+          enabled: true,
+          method: (record.duplication_method ?? "sainsbury") as DuplicationMethod,
+          channels: mediaMix.map((channel) => ({
+            channel: channel.channel as MediaChannelId,
+            share: channel.share,
+            cpm: channel.cpm,
+            maxReach: channel.max_reach,
+          })),
+        }
+        : undefined,
+      baselines: baselines
+        ? {
+          searchVolume: baselines.search_volume,
+          conversionRate: baselines.conversion_rate,
+          sessions: baselines.sessions,
+        }
+        : undefined,
+    },
+    frequency: record.calculated_frequency,
+    coefficients: coefficientSets.get(record.coefficient_version ?? BUILT_IN_COEFFICIENT_SET.version),
+    actuals: {
+      reach: actuals.measured_reach ?? null,
+      tomLift: actuals.tom_lift ?? null,
+      searchLift: actuals.search_lift ?? null,
+      conversionLift: actuals.conversion_lift ?? null,
+      ltvChange: actuals.ltv_change ?? null,
+    },
+  };
+}
+
+const formatMape = (value: number | null) => (value === null ? "—" : `${value.toFixed(1)}%`);
+
+/**
+ * Admin screen for post-campaign actuals and the least-squares fit of the KPI coefficients
+ */
+export function CalibrationPanel() {
+  const { history, actuals, isLoading, error, saveActuals, deleteActuals, isSaving } = useCampaignActuals();
+  const { current, versions, saveVersion, isSaving: isSavingVersion } = useKpiCoefficients();
+  const [draft, setDraft] = useState<CampaignActualsModel>(EMPTY_ACTUALS);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const plannable = history.filter((record) => isCampaignGoal(record.campaign_goal) && !!record.budget);
+  const historyById = useMemo(() => new Map(history.map((record) => [record.id, record])), [history]);
+
+  const coefficientSets = useMemo(
+    () => new Map([...versions, BUILT_IN_COEFFICIENT_SET].map((set) => [set.version, set.coefficients])),
+    [versions]
+  );
+
+  const samples = useMemo(
+    () => actuals.flatMap((entry) => {
+      const record = historyById.get(entry.calculation_id);
+      const sample = record && toCalibrationSample(record, entry, coefficientSets);
+      return sample ? [sample] : [];
+    }),
+    [actuals, historyById, coefficientSets]
+  );
+  const calibration = useMemo(
+    () => calibrateCoefficients(samples, current.coefficients),
+    [samples, current.coefficients]
+  );
+
+  const updateField = (key: ActualsField, value: string) => {
+    setDraft({ ...draft, [key]: value === "" ? null : Number(value) });
+  };
+
+  const handleSave = async () => {
+    setMessage(null);
+    try {
+      await saveActuals(draft);
+      setDraft(EMPTY_ACTUALS);
+    } catch (e) {
+      setMessage(`Не удалось сохранить результаты: ${e instanceof Error ? e.message : "Неизвестная ошибка"}`);
+    }
+  };
+
+  const handleApply = async () => {
+    setMessage(null);
+    try {
+      await saveVersion({
+        coefficients: calibration.coefficients,
+        label: `Калибровка по ${samples.length} кампаниям`,
+      });
+      setMessage(`Сохранена версия коэффициентов ${current.version + 1}`);
+    } catch (e) {
+      setMessage(`Не удалось сохранить версию: ${e instanceof Error ? e.message : "Неизвестная ошибка"}`);
+    }
+  };
+
+  if (error) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        История расчётов недоступна: войдите в систему, чтобы вносить результаты кампаний.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Actuals form */}
+      <div className="space-y-4">
+        <h3 className="font-semibold">{draft.id ? "Изменить результаты кампании" : "Результаты кампании"}</h3>
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="actuals-calculation">Расчёт из истории</Label>
+            <Select
+              value={draft.calculation_id}
+              onValueChange={(calculation_id) => setDraft({ ...draft, calculation_id })}
+              disabled={isLoading}
+            >
+              <SelectTrigger id="actuals-calculation">
+                <SelectValue placeholder={isLoading ? "Загрузка..." : "Выберите расчёт"} />
+              </SelectTrigger>
+              <SelectContent>
+                {plannable.map((record) => (
+                  <SelectItem key={record.id} value={record.id}>{formatRecord(record)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="actuals-study">Исследование</Label>
+            <Input
+              id="actuals-study"
+              placeholder="Например: brand lift, wave 2"
+              value={draft.study_name ?? ""}
+              onChange={(e) => setDraft({ ...draft, study_name: e.target.value || null })}
+            />
+          </div>
+        </div>
+        <div className="grid sm:grid-cols-2 lg:grid-cols-5 gap-4">
+          {ACTUALS_FIELDS.map(({ key, label }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`actuals-${key}`}>{label}</Label>
+              <Input
+                id={`actuals-${key}`}
+                type="number"
+                step={0.1}
+                value={draft[key] ?? ""}
+                onChange={(e) => updateField(key, e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-3">
+          <Button
+            onClick={handleSave}
+            disabled={!draft.calculation_id || isSaving}
+            style={{ backgroundColor: "#d32f2f" }}
+          >
+            <SaveIcon className="h-4 w-4 mr-2" />
+            {isSaving ? "Сохранение..." : "Сохранить"}
+          </Button>
+          {draft.id && (
+            <Button variant="outline" onClick={() => setDraft(EMPTY_ACTUALS)}>
+              Отмена
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Recorded actuals */}
+      {actuals.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Расчёт</TableHead>
+              <TableHead>Исследование</TableHead>
+              <TableHead className="text-right">Частота</TableHead>
+              {ACTUALS_FIELDS.map(({ key, label }) => (
+                <TableHead key={key} className="text-right">{label}</TableHead>
+              ))}
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {actuals.map((entry) => {
+              const record = historyById.get(entry.calculation_id);
+              return (
+                <TableRow key={entry.id}>
+                  <TableCell>{record ? formatRecord(record) : "Расчёт удалён"}</TableCell>
+                  <TableCell>{entry.study_name}</TableCell>
+                  <TableCell className="text-right font-mono">{record?.calculated_frequency.toFixed(1)}</TableCell>
+                  {ACTUALS_FIELDS.map(({ key }) => (
+                    <TableCell key={key} className="text-right font-mono">{entry[key] ?? "—"}</TableCell>
+                  ))}
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="icon" title="Изменить" onClick={() => setDraft(entry)}>
+                      <PencilIcon className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" title="Удалить" onClick={() => deleteActuals(entry.id)}>
+                      <Trash2Icon className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      {/* Calibration */}
+      <div className="space-y-4">
+        <h3 className="font-semibold">Калибровка коэффициентов (метод наименьших квадратов)</h3>
+        <p className="text-sm text-muted-foreground">
+          Наблюдений: TOM — {calibration.samples.tom}, поиск — {calibration.samples.search},
+          конверсии — {calibration.samples.conversion}, LTV — {calibration.samples.ltv}.
+          Прогнозы восстанавливаются по сохранённым бенчмаркам, ценам и медиамиксу (для старых расчётов — по значениям
+          по умолчанию), «MAPE сейчас» — с той версией коэффициентов, по которой был сделан каждый прогноз.
+          Для поиска и конверсий при подборе берётся измеренный охват, если он указан.
+        </p>
+        <div className="grid lg:grid-cols-2 gap-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Цель</TableHead>
+                <TableHead className="text-right">Кампаний</TableHead>
+                <TableHead className="text-right">MAPE сейчас</TableHead>
+                <TableHead className="text-right">MAPE после</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {calibration.errors.map((row) => (
+                <TableRow key={row.goal}>
+                  <TableCell>{CAMPAIGN_GOAL_LABELS[row.goal]}</TableCell>
+                  <TableCell className="text-right font-mono">{row.count}</TableCell>
+                  <TableCell className="text-right font-mono">{formatMape(row.mapeBefore)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatMape(row.mapeAfter)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Коэффициент</TableHead>
+                <TableHead className="text-right">Версия {current.version}</TableHead>
+                <TableHead className="text-right">Подобранный</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(Object.keys(COEFFICIENT_LABELS) as Array<keyof KpiCoefficients>).map((key) => (
+                <TableRow key={key}>
+                  <TableCell>{COEFFICIENT_LABELS[key]}</TableCell>
+                  <TableCell className="text-right font-mono">{current.coefficients[key].toFixed(3)}</TableCell>
+                  <TableCell className="text-right font-mono">{calibration.coefficients[key].toFixed(3)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        <Button
+          onClick={handleApply}
+          disabled={samples.length === 0 || isSavingVersion}
+          variant="outline"
+        >
+          Сохранить подобранные коэффициенты как версию {current.version + 1}
+        </Button>
+        {message && <p className="text-sm text-muted-foreground">{message}</p>}
+      </div>
+    </div>
+  );
+}
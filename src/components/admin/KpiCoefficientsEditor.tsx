@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { SaveIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { KpiCoefficients } from "@/lib/frequency-engine";
+import { BUILT_IN_COEFFICIENT_SET, useKpiCoefficients } from "@/hooks/use-kpi-coefficients";
+
+// `positive` fields divide the budget, so 0 is not a valid value
+const COEFFICIENT_FIELDS: Array<{ key: keyof KpiCoefficients; label: string; description: string; step: number; positive?: boolean }> = [
+  { key: "tomScale", label: "Масштаб TOM", description: "Итоговый множитель прогноза Top of Mind", step: 0.1 },
+  { key: "tomFrequencySlope", label: "Наклон частоты TOM", description: "Прирост мультипликатора за каждый контакт сверх первого", step: 0.01 },
+  { key: "ltvScale", label: "Масштаб LTV", description: "Итоговый множитель прогноза роста LTV", step: 0.1 },
+  { key: "ltvFrequencySlope", label: "Наклон частоты LTV", description: "Прирост мультипликатора за каждый контакт сверх первого", step: 0.01 },
+  { key: "searchScale", label: "Масштаб поиска", description: "Итоговый множитель прогноза роста брендовых запросов", step: 0.1 },
+  { key: "conversionScale", label: "Масштаб конверсий", description: "Итоговый множитель прогноза прироста конверсий", step: 0.1 },
+  { key: "tomBudgetReference", label: "Опорный бюджет TOM, RUB", description: "Бюджет, при котором корректировка TOM на бюджет равна 1", step: 100000, positive: true },
+  { key: "ltvSaturationPenalty", label: "Штраф LTV за насыщенность", description: "Снижение LTV за каждый пункт насыщенности рынка", step: 0.01 },
+  { key: "ltvBudgetReference", label: "Опорный бюджет LTV, RUB", description: "Бюджет, при котором множитель качества бюджета LTV равен 1", step: 100000, positive: true },
+];
+
+/**
+ * Admin editor for the KPI formula coefficients; every save creates a new version
+ */
+export function KpiCoefficientsEditor() {
+  const { current, versions, isLoading, error, saveVersion, isSaving } = useKpiCoefficients();
+  const [draft, setDraft] = useState<KpiCoefficients>(current.coefficients);
+  const [label, setLabel] = useState("");
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Start from the version in force once it has loaded
+  useEffect(() => {
+    setDraft(current.coefficients);
+  }, [current]);
+
+  const isChanged = COEFFICIENT_FIELDS.some(({ key }) => draft[key] !== current.coefficients[key]);
+  const invalidFields = COEFFICIENT_FIELDS.filter(({ key, positive }) => positive && !(draft[key] > 0));
+
+  const handleSave = async () => {
+    setSaveError(null);
+    try {
+      await saveVersion({ coefficients: draft, label: label.trim() || null });
+      setLabel("");
+    } catch (e) {
+      setSaveError(`Не удалось сохранить версию: ${e instanceof Error ? e.message : "Неизвестная ошибка"}`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Действует версия <span className="font-mono font-semibold">{current.version}</span>
+        {current.label && ` — ${current.label}`}. Каждый расчёт в истории хранит номер версии коэффициентов.
+        {error && " Хранилище недоступно, используется встроенный набор."}
+      </p>
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {COEFFICIENT_FIELDS.map(({ key, label: fieldLabel, description, step }) => (
+          <div key={key} className="space-y-2">
+            <Label htmlFor={`coefficient-${key}`}>{fieldLabel}</Label>
+            <Input
+              id={`coefficient-${key}`}
+              type="number"
+              step={step}
+              min={0}
+              value={draft[key]}
+              onChange={(e) => setDraft({ ...draft, [key]: Math.max(0, Number(e.target.value)) })}
+            />
+            <p className="text-xs text-muted-foreground">{description}</p>
+          </div>
+        ))}
+      </div>
+      {invalidFields.length > 0 && (
+        <p className="text-sm text-destructive">
+          Должны быть больше 0: {invalidFields.map(({ label: fieldLabel }) => fieldLabel).join(", ")}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-2 flex-1 min-w-64">
+          <Label htmlFor="coefficient-label">Комментарий к версии</Label>
+          <Input
+            id="coefficient-label"
+            placeholder="Например: калибровка по brand lift за III квартал"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+        </div>
+        <Button
+          onClick={handleSave}
+          disabled={!isChanged || invalidFields.length > 0 || isSaving || isLoading}
+          style={{ backgroundColor: "#d32f2f" }}
+        >
+          <SaveIcon className="h-4 w-4 mr-2" />
+          {isSaving ? "Сохранение..." : `Сохранить как версию ${current.version + 1}`}
+        </Button>
+      </div>
+      {saveError && <p className="text-sm text-destructive">{saveError}</p>}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Версия</TableHead>
+            <TableHead>Комментарий</TableHead>
+            {COEFFICIENT_FIELDS.map(({ key, label: fieldLabel }) => (
+              <TableHead key={key} className="text-right">{fieldLabel}</TableHead>
+            ))}
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {[...versions, BUILT_IN_COEFFICIENT_SET].map((set) => (
+            <TableRow key={set.version}>
+              <TableCell className="font-mono">{set.version}</TableCell>
+              <TableCell>{set.label}</TableCell>
+              {COEFFICIENT_FIELDS.map(({ key }) => (
+                <TableCell key={key} className="text-right font-mono">{set.coefficients[key]}</TableCell>
+              ))}
+              <TableCell className="text-right">
+                <Button variant="ghost" size="sm" onClick={() => setDraft(set.coefficients)}>
+                  Взять за основу
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
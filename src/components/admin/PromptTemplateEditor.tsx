@@ -0,0 +1,257 @@
+import { useEffect, useState } from "react";
+import { AlertCircleIcon, SaveIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CAMPAIGN_GOAL_LABELS, DEFAULT_CPM, type CampaignGoal } from "@/lib/frequency-engine";
+import {
+  BUILT_IN_PROMPT_TEMPLATE,
+  PROMPT_LANGUAGES,
+  PROMPT_VARIABLES,
+  findUnknownVariables,
+  renderPrompts,
+  type PromptLanguage,
+  type PromptVariables,
+} from "@/lib/prompt-templates";
+import { usePromptTemplates } from "@/hooks/use-prompt-templates";
+
+const SAMPLE_VARIABLES: PromptVariables = {
+  brand: "Пример бренда",
+  budget: 5000000,
+  goal: "awareness",
+  cpm: DEFAULT_CPM,
+  language: "ru",
+  competitors: false,
+};
+
+/**
+ * Admin editor for the brand analysis prompts with a live preview;
+ * every save creates a new version
+ */
+export function PromptTemplateEditor() {
+  const { current, versions, isLoading, error, saveVersion, isSaving } = usePromptTemplates();
+  const [systemTemplate, setSystemTemplate] = useState(current.systemTemplate);
+  const [userTemplate, setUserTemplate] = useState(current.userTemplate);
+  const [label, setLabel] = useState("");
+  const [sample, setSample] = useState<PromptVariables>(SAMPLE_VARIABLES);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Start from the version in force once it has loaded
+  useEffect(() => {
+    setSystemTemplate(current.systemTemplate);
+    setUserTemplate(current.userTemplate);
+  }, [current]);
+
+  const isChanged = systemTemplate !== current.systemTemplate || userTemplate !== current.userTemplate;
+  const unknownVariables = findUnknownVariables(`${systemTemplate}\n${userTemplate}`);
+  const preview = renderPrompts({ ...current, systemTemplate, userTemplate }, sample);
+
+  const handleSave = async () => {
+    setSaveError(null);
+    try {
+      await saveVersion({ systemTemplate, userTemplate, label: label.trim() || null });
+      setLabel("");
+    } catch (e) {
+      setSaveError(`Не удалось сохранить версию: ${e instanceof Error ? e.message : "Неизвестная ошибка"}`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Действует версия <span className="font-mono font-semibold">{current.version}</span>
+        {current.label && ` — ${current.label}`}. Каждый расчёт в истории хранит номер версии промптов, по которым получены параметры ИИ.
+        {error && " Хранилище недоступно, используются встроенные промпты."}
+      </p>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="prompt-system">Системный промпт</Label>
+            <Textarea
+              id="prompt-system"
+              className="font-mono text-xs min-h-96"
+              value={systemTemplate}
+              onChange={(e) => setSystemTemplate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="prompt-user">Запрос пользователя</Label>
+            <Textarea
+              id="prompt-user"
+              className="font-mono text-xs min-h-32"
+              value={userTemplate}
+              onChange={(e) => setUserTemplate(e.target.value)}
+            />
+          </div>
+          <ul className="space-y-1 text-xs text-muted-foreground">
+            {PROMPT_VARIABLES.map(({ name, description }) => (
+              <li key={name}>
+                <span className="font-mono text-foreground">{`{{${name}}}`}</span> — {description}
+              </li>
+            ))}
+          </ul>
+          {unknownVariables.length > 0 && (
+            <p className="text-sm text-destructive flex items-start gap-2">
+              <AlertCircleIcon className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              Неизвестные переменные: {unknownVariables.map((name) => `{{${name}}}`).join(", ")}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid sm:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="preview-brand">Бренд</Label>
+              <Input
+                id="preview-brand"
+                value={sample.brand}
+                onChange={(e) => setSample({ ...sample, brand: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preview-budget">Бюджет, RUB</Label>
+              <Input
+                id="preview-budget"
+                type="number"
+                min={0}
+                value={sample.budget}
+                onChange={(e) => setSample({ ...sample, budget: Math.max(0, Number(e.target.value)) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preview-goal">Цель</Label>
+              <Select
+                value={sample.goal || "awareness"}
+                onValueChange={(value) => setSample({ ...sample, goal: value as CampaignGoal })}
+              >
+                <SelectTrigger id="preview-goal">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CAMPAIGN_GOAL_LABELS) as CampaignGoal[]).map((goal) => (
+                    <SelectItem key={goal} value={goal}>{CAMPAIGN_GOAL_LABELS[goal]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preview-cpm">CPM, RUB</Label>
+              <Input
+                id="preview-cpm"
+                type="number"
+                min={0}
+                value={sample.cpm}
+                onChange={(e) => setSample({ ...sample, cpm: Math.max(0, Number(e.target.value)) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preview-language">Язык</Label>
+              <Select
+                value={sample.language}
+                onValueChange={(value) => setSample({ ...sample, language: value as PromptLanguage })}
+              >
+                <SelectTrigger id="preview-language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PROMPT_LANGUAGES) as PromptLanguage[]).map((language) => (
+                    <SelectItem key={language} value={language}>{PROMPT_LANGUAGES[language].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end gap-3 pb-2">
+              <Switch
+                id="preview-competitors"
+                checked={sample.competitors}
+                onCheckedChange={(competitors) => setSample({ ...sample, competitors })}
+              />
+              <Label htmlFor="preview-competitors" className="cursor-pointer">Оценка конкурентов</Label>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Предпросмотр</Label>
+            <pre className="rounded-md border bg-muted/40 p-3 text-xs whitespace-pre-wrap max-h-[32rem] overflow-y-auto">
+              {preview.systemContent}
+              {"\n\n────────\n\n"}
+              {preview.userContent}
+            </pre>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-2 flex-1 min-w-64">
+          <Label htmlFor="prompt-label">Комментарий к версии</Label>
+          <Input
+            id="prompt-label"
+            placeholder="Например: CPM 450 RUB и критерий 70% целей"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+        </div>
+        <Button
+          onClick={handleSave}
+          disabled={!isChanged || isSaving || isLoading || !systemTemplate.trim() || !userTemplate.trim()}
+          style={{ backgroundColor: "#d32f2f" }}
+        >
+          <SaveIcon className="h-4 w-4 mr-2" />
+          {isSaving ? "Сохранение..." : `Сохранить как версию ${current.version + 1}`}
+        </Button>
+      </div>
+      {saveError && <p className="text-sm text-destructive">{saveError}</p>}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Версия</TableHead>
+            <TableHead>Комментарий</TableHead>
+            <TableHead>Создана</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {[...versions, BUILT_IN_PROMPT_TEMPLATE].map((template) => (
+            <TableRow key={template.version}>
+              <TableCell className="font-mono">{template.version}</TableCell>
+              <TableCell>{template.label}</TableCell>
+              <TableCell>
+                {template.createTime ? new Date(Number(template.createTime) * 1000).toLocaleDateString("ru-RU") : "—"}
+              </TableCell>
+              <TableCell className="text-right">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setSystemTemplate(template.systemTemplate);
+                    setUserTemplate(template.userTemplate);
+                  }}
+                >
+                  Взять за основу
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
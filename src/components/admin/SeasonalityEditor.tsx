@@ -0,0 +1,225 @@
+import { useEffect, useState } from "react";
+import { AlertCircleIcon, RotateCcwIcon, SaveIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import {
+  DEFAULT_SEASONALITY_TABLES,
+  MONTH_LABELS,
+  SEASONALITY_CATEGORY_LABELS,
+  SEASONALITY_CHANNEL_LABELS,
+  isValidSeasonalityIndex,
+  type MonthlyIndex,
+  type SeasonalityTables,
+} from "@/lib/frequency-engine";
+import { BUILT_IN_SEASONALITY_SET, useSeasonalityTables } from "@/hooks/use-seasonality-tables";
+
+/** Cell text as typed, so a cell can be cleared and retyped */
+type DraftRows<K extends string> = Record<K, string[]>;
+
+interface SeasonalityDraft {
+  channels: DraftRows<keyof SeasonalityTables["channels"]>;
+  categories: DraftRows<keyof SeasonalityTables["categories"]>;
+}
+
+function toDraftRows<K extends string>(rows: Record<K, MonthlyIndex>): DraftRows<K> {
+  return Object.fromEntries(
+    Object.entries<MonthlyIndex>(rows).map(([key, index]) => [key, index.map(String)])
+  ) as DraftRows<K>;
+}
+
+function toDraft(tables: SeasonalityTables): SeasonalityDraft {
+  return { channels: toDraftRows(tables.channels), categories: toDraftRows(tables.categories) };
+}
+
+function parseRows<K extends string>(rows: DraftRows<K>): Record<K, MonthlyIndex> {
+  // An empty cell parses to 0 and is rejected along with other non-positive indices
+  return Object.fromEntries(
+    Object.entries<string[]>(rows).map(([key, cells]) => [key, cells.map(Number)])
+  ) as Record<K, MonthlyIndex>;
+}
+
+interface IndexTableProps<K extends string> {
+  rows: DraftRows<K>;
+  labels: Record<K, string>;
+  onChange: (rows: DraftRows<K>) => void;
+}
+
+function IndexTable<K extends string>({ rows, labels, onChange }: IndexTableProps<K>) {
+  const updateCell = (key: K, month: number, value: string) => {
+    const cells = rows[key].map((current, i) => (i === month ? value : current));
+    onChange({ ...rows, [key]: cells });
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead />
+          {MONTH_LABELS.map((month) => (
+            <TableHead key={month} className="text-center">{month}</TableHead>
+          ))}
+          <TableHead className="text-right">Среднее</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {(Object.keys(labels) as K[]).map((key) => {
+          const values = rows[key].map(Number);
+          const isRowValid = values.every(isValidSeasonalityIndex);
+          return (
+            <TableRow key={key}>
+              <TableCell className="font-medium whitespace-nowrap">{labels[key]}</TableCell>
+              {rows[key].map((cell, month) => {
+                const isInvalid = !isValidSeasonalityIndex(values[month]);
+                return (
+                  <TableCell key={month} className="p-1">
+                    <Input
+                      type="number"
+                      step={0.05}
+                      min={0.05}
+                      className={cn("h-8 w-16 px-1 text-center font-mono", isInvalid && "border-destructive")}
+                      aria-label={`${labels[key]}, ${MONTH_LABELS[month]}`}
+                      aria-invalid={isInvalid}
+                      value={cell}
+                      onChange={(e) => updateCell(key, month, e.target.value)}
+                    />
+                  </TableCell>
+                );
+              })}
+              <TableCell className="text-right font-mono">
+                {isRowValid ? (values.reduce((acc, value) => acc + value, 0) / values.length).toFixed(2) : "—"}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
+
+/**
+ * Admin editor for the monthly CPM (per channel) and KPI (per category)
+ * seasonality indices; every save creates a new shared version
+ */
+export function SeasonalityEditor() {
+  const { current, versions, isLoading, error, saveVersion, isSaving } = useSeasonalityTables();
+  const [draft, setDraft] = useState<SeasonalityDraft>(() => toDraft(current.tables));
+  const [label, setLabel] = useState("");
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Start from the version in force once it has loaded
+  useEffect(() => {
+    setDraft(toDraft(current.tables));
+  }, [current]);
+
+  const tables: SeasonalityTables = { channels: parseRows(draft.channels), categories: parseRows(draft.categories) };
+  const isValid = [...Object.values(tables.channels), ...Object.values(tables.categories)]
+    .every((index) => index.every(isValidSeasonalityIndex));
+  const isChanged = JSON.stringify(tables) !== JSON.stringify(current.tables);
+
+  const handleSave = async () => {
+    setSaveError(null);
+    try {
+      await saveVersion({ tables, label: label.trim() || null });
+      setLabel("");
+    } catch (e) {
+      setSaveError(`Не удалось сохранить версию: ${e instanceof Error ? e.message : "Неизвестная ошибка"}`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Индексы к среднегодовому уровню (1.00). Для кампании берётся среднее по дням периода.
+          Действует версия <span className="font-mono font-semibold">{current.version}</span>
+          {current.label && ` — ${current.label}`}.
+          {error && " Хранилище недоступно, используются встроенные индексы."}
+        </p>
+        <Button variant="outline" onClick={() => setDraft(toDraft(DEFAULT_SEASONALITY_TABLES))}>
+          <RotateCcwIcon className="h-4 w-4 mr-2" />
+          Сбросить к стандартным
+        </Button>
+      </div>
+      <div className="space-y-2">
+        <h3 className="font-semibold">CPM по каналам</h3>
+        <IndexTable
+          rows={draft.channels}
+          labels={SEASONALITY_CHANNEL_LABELS}
+          onChange={(channels) => setDraft({ ...draft, channels })}
+        />
+      </div>
+      <div className="space-y-2">
+        <h3 className="font-semibold">Базы КПИ по категориям</h3>
+        <IndexTable
+          rows={draft.categories}
+          labels={SEASONALITY_CATEGORY_LABELS}
+          onChange={(categories) => setDraft({ ...draft, categories })}
+        />
+      </div>
+      {!isValid && (
+        <p className="text-sm text-destructive flex items-start gap-2">
+          <AlertCircleIcon className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          Каждый индекс должен быть числом больше 0
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-2 flex-1 min-w-64">
+          <Label htmlFor="seasonality-label">Комментарий к версии</Label>
+          <Input
+            id="seasonality-label"
+            placeholder="Например: прогноз медиаинфляции на следующий год"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+        </div>
+        <Button
+          onClick={handleSave}
+          disabled={!isValid || !isChanged || isSaving || isLoading}
+          style={{ backgroundColor: "#d32f2f" }}
+        >
+          <SaveIcon className="h-4 w-4 mr-2" />
+          {isSaving ? "Сохранение..." : `Сохранить как версию ${current.version + 1}`}
+        </Button>
+      </div>
+      {saveError && <p className="text-sm text-destructive">{saveError}</p>}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Версия</TableHead>
+            <TableHead>Комментарий</TableHead>
+            <TableHead>Создана</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {[...versions, BUILT_IN_SEASONALITY_SET].map((set) => (
+            <TableRow key={set.version}>
+              <TableCell className="font-mono">{set.version}</TableCell>
+              <TableCell>{set.label}</TableCell>
+              <TableCell>
+                {set.createTime ? new Date(Number(set.createTime) * 1000).toLocaleDateString("ru-RU") : "—"}
+              </TableCell>
+              <TableCell className="text-right">
+                <Button variant="ghost" size="sm" onClick={() => setDraft(toDraft(set.tables))}>
+                  Взять за основу
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { AlertTriangleIcon, ExternalLinkIcon } from "lucide-react";
+import type { AICitation } from "@/lib/ai-response";
+
+interface AIInsightSourcesProps {
+  /** Free-text source the model wrote */
+  source: string;
+  /** Retrieved sources linked to the insight */
+  citations: AICitation[];
+}
+
+function citationLabel(citation: AICitation): string {
+  if (citation.title) return citation.title;
+  try {
+    return new URL(citation.url).hostname.replace(/^www\./, "");
+  } catch {
+    return citation.url;
+  }
+}
+
+/**
+ * Source line of an AI insight: clickable citations, or a warning when
+ * nothing the provider retrieved backs the estimate
+ */
+export function AIInsightSources({ source, citations }: AIInsightSourcesProps) {
+  return (
+    <div className="space-y-1 text-xs text-muted-foreground">
+      <div className="flex items-center gap-1">
+        <span className="font-medium">Источник:</span>
+        <span className="truncate">{source}</span>
+      </div>
+      {citations.length > 0 ? (
+        <ul className="space-y-0.5">
+          {citations.map((citation) => (
+            <li key={citation.index} className="flex items-center gap-1 min-w-0">
+              <span className="font-mono">[{citation.index}]</span>
+              <a
+                href={citation.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                title={citation.url}
+                className="truncate text-foreground hover:underline"
+              >
+                {citationLabel(citation)}
+              </a>
+              <ExternalLinkIcon className="w-3 h-3 flex-shrink-0" />
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="flex items-center gap-1 text-amber-700 dark:text-amber-400">
+          <AlertTriangleIcon className="w-3 h-3 flex-shrink-0" />
+          Нет подтверждающей ссылки: оценка не опирается на найденные источники
+        </p>
+      )}
+    </div>
+  );
+}
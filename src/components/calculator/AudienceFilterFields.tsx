@@ -0,0 +1,68 @@
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  AGE_BAND_LABELS,
+  GENDER_LABELS,
+  INCOME_BAND_LABELS,
+  type AgeBand,
+  type AudienceFilter,
+  type Gender,
+  type IncomeBand,
+} from "@/lib/frequency-engine";
+
+interface AudienceFilterFieldsProps {
+  filter: AudienceFilter;
+  onChange: (filter: AudienceFilter) => void;
+}
+
+/**
+ * Age, gender and income band toggles of an audience definition
+ */
+export function AudienceFilterFields({ filter, onChange }: AudienceFilterFieldsProps) {
+  return (
+    <div className="flex flex-wrap gap-x-6 gap-y-3">
+      <div className="space-y-1">
+        <Label className="text-sm font-semibold">Возраст</Label>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          value={filter.ageBands}
+          onValueChange={(value) => onChange({ ...filter, ageBands: value as AgeBand[] })}
+        >
+          {(Object.keys(AGE_BAND_LABELS) as AgeBand[]).map((band) => (
+            <ToggleGroupItem key={band} value={band}>{AGE_BAND_LABELS[band]}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-sm font-semibold">Пол</Label>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          value={filter.genders}
+          onValueChange={(value) => onChange({ ...filter, genders: value as Gender[] })}
+        >
+          {(Object.keys(GENDER_LABELS) as Gender[]).map((gender) => (
+            <ToggleGroupItem key={gender} value={gender}>{GENDER_LABELS[gender]}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-sm font-semibold">Доход на человека в месяц</Label>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          value={filter.incomeBands}
+          onValueChange={(value) => onChange({ ...filter, incomeBands: value as IncomeBand[] })}
+        >
+          {(Object.keys(INCOME_BAND_LABELS) as IncomeBand[]).map((band) => (
+            <ToggleGroupItem key={band} value={band}>{INCOME_BAND_LABELS[band]}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+    </div>
+  );
+}
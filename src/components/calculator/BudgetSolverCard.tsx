@@ -0,0 +1,120 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  MEDIA_CHANNEL_LABELS,
+  type BudgetSolverResult,
+  type ReachSolverResult,
+} from "@/lib/frequency-engine";
+import { AlertCircleIcon, TargetIcon } from "lucide-react";
+
+interface BudgetSolverCardProps {
+  /** Target effective reach, % */
+  targetReach: number;
+  onTargetReachChange: (value: number) => void;
+  budgetSolution: BudgetSolverResult;
+  reachSolution: ReachSolverResult;
+  /** Budget recommended by the AI, if any */
+  recommendedBudget: number | null;
+}
+
+const formatBudget = (value: number) => `${Math.round(value).toLocaleString('ru-RU')} ₽`;
+
+/**
+ * Inverse solver: minimum budget for a target N+ reach and best reach for the current budget
+ */
+export function BudgetSolverCard({
+  targetReach,
+  onTargetReachChange,
+  budgetSolution,
+  reachSolution,
+  recommendedBudget,
+}: BudgetSolverCardProps) {
+  const handleTargetChange = (value: string) => {
+    const parsed = parseFloat(value);
+    if (Number.isNaN(parsed)) return;
+    onTargetReachChange(Math.min(100, Math.max(0, parsed)));
+  };
+
+  const { threshold } = budgetSolution;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="border-b">
+        <CardTitle className="flex items-center gap-2">
+          <TargetIcon className="w-5 h-5" />
+          Оптимизатор бюджета
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="target-reach">Целевой охват ЦА с частотой {threshold}+, %</Label>
+            <Input
+              id="target-reach"
+              type="number"
+              min={0}
+              max={100}
+              step={1}
+              value={targetReach}
+              onChange={(e) => handleTargetChange(e.target.value)}
+            />
+          </div>
+
+          <div className="p-4 rounded-lg border bg-muted/50">
+            <div className="text-xs text-muted-foreground mb-1">Минимальный бюджет по модели</div>
+            {budgetSolution.feasible && budgetSolution.budget !== null ? (
+              <>
+                <div className="text-2xl font-bold text-foreground">
+                  {formatBudget(budgetSolution.budget)}
+                </div>
+                {recommendedBudget !== null && recommendedBudget > 0 && (
+                  <div className="text-xs text-muted-foreground mt-1">
+                    ИИ рекомендует {formatBudget(recommendedBudget)}
+                    {/* A zero target needs no budget, so there is nothing to compare against */}
+                    {budgetSolution.budget > 0 && (
+                      <>
+                        {" "}({recommendedBudget >= budgetSolution.budget ? "+" : ""}
+                        {((recommendedBudget / budgetSolution.budget - 1) * 100).toFixed(0)}%)
+                      </>
+                    )}
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="text-sm text-orange-600 dark:text-orange-400 flex items-start gap-2">
+                <AlertCircleIcon className="w-4 h-4 mt-0.5 shrink-0" />
+                Цель недостижима: потолок охвата {threshold}+ — {budgetSolution.maxReach.toFixed(1)}%
+              </div>
+            )}
+          </div>
+
+          <div className="p-4 rounded-lg border bg-muted/50">
+            <div className="text-xs text-muted-foreground mb-1">
+              Лучший охват {threshold}+ при текущем бюджете
+            </div>
+            <div className="text-2xl font-bold text-foreground">{reachSolution.reach.toFixed(1)}%</div>
+            <div className="text-xs text-muted-foreground mt-1">
+              Охват 1+: {reachSolution.reach1Plus.toFixed(1)}%
+            </div>
+          </div>
+        </div>
+
+        {reachSolution.allocation && (
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold">Оптимальное распределение медиамикса</Label>
+            <div className="flex flex-wrap gap-2">
+              {reachSolution.allocation
+                .filter((channel) => channel.share > 0)
+                .map((channel) => (
+                  <span key={channel.channel} className="text-xs px-2 py-1 rounded-md border bg-muted/30 font-mono">
+                    {MEDIA_CHANNEL_LABELS[channel.channel]}: {channel.share}%
+                  </span>
+                ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
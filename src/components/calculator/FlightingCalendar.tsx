@@ -0,0 +1,188 @@
+import { Bar, CartesianGrid, Cell, ComposedChart, Line, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  FLIGHT_PATTERN_LABELS,
+  type FlightPattern,
+  type FlightingResult,
+  type FlightingSettings,
+} from "@/lib/frequency-engine";
+import { AlertCircleIcon } from "lucide-react";
+
+interface FlightingCalendarProps {
+  settings: FlightingSettings;
+  result: FlightingResult;
+  onChange: (settings: FlightingSettings) => void;
+}
+
+type NumericField = "onWeeks" | "offWeeks" | "decayRate" | "wearOutRate";
+
+const chartConfig = {
+  contacts: {
+    label: "Контакты за неделю",
+    color: "#93c5fd",
+  },
+  effectiveFrequency: {
+    label: "Эффективная частота",
+    color: "#2563eb",
+  },
+  retention: {
+    label: "Запоминание, %",
+    color: "#16a34a",
+  },
+} satisfies ChartConfig;
+
+const formatWeek = (isoDate: string) => isoDate.slice(8, 10) + "." + isoDate.slice(5, 7);
+
+/**
+ * Campaign calendar: flight pattern, adstock decay and weekly effective frequency
+ */
+export function FlightingCalendar({ settings, result, onChange }: FlightingCalendarProps) {
+  const handleNumberChange = (key: NumericField) => (value: string) => {
+    const parsed = parseFloat(value);
+    if (Number.isNaN(parsed) || parsed < 0) return;
+    onChange({ ...settings, [key]: parsed });
+  };
+
+  const data = result.weeks.map((week) => ({
+    label: formatWeek(week.startDate),
+    contacts: Number(week.contacts.toFixed(2)),
+    effectiveFrequency: Number(week.effectiveFrequency.toFixed(2)),
+    retention: Number(week.retention.toFixed(1)),
+    belowThreshold: week.belowThreshold,
+  }));
+  const weeksBelow = result.weeks.filter((week) => week.belowThreshold);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="flighting-start">Начало кампании</Label>
+          <Input
+            id="flighting-start"
+            type="date"
+            value={settings.startDate}
+            onChange={(e) => onChange({ ...settings, startDate: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="flighting-end">Окончание кампании</Label>
+          <Input
+            id="flighting-end"
+            type="date"
+            value={settings.endDate}
+            onChange={(e) => onChange({ ...settings, endDate: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="flighting-pattern">График выходов</Label>
+          <Select
+            value={settings.pattern}
+            onValueChange={(value) => onChange({ ...settings, pattern: value as FlightPattern })}
+          >
+            <SelectTrigger id="flighting-pattern">
+              <SelectValue placeholder="Выберите график" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FLIGHT_PATTERN_LABELS) as FlightPattern[]).map((pattern) => (
+                <SelectItem key={pattern} value={pattern}>{FLIGHT_PATTERN_LABELS[pattern]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {settings.pattern !== "continuous" && (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="flighting-on">Недель в эфире</Label>
+              <Input
+                id="flighting-on"
+                type="number"
+                min={1}
+                value={settings.onWeeks}
+                onChange={(e) => handleNumberChange("onWeeks")(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="flighting-off">Пауза</Label>
+              <Input
+                id="flighting-off"
+                type="number"
+                min={0}
+                value={settings.offWeeks}
+                onChange={(e) => handleNumberChange("offWeeks")(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="flighting-decay">Забывание за неделю, %</Label>
+          <Input
+            id="flighting-decay"
+            type="number"
+            min={0}
+            max={100}
+            value={settings.decayRate}
+            onChange={(e) => handleNumberChange("decayRate")(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="flighting-wear-out">Износ креатива за неделю, %</Label>
+          <Input
+            id="flighting-wear-out"
+            type="number"
+            min={0}
+            max={100}
+            value={settings.wearOutRate}
+            onChange={(e) => handleNumberChange("wearOutRate")(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {data.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          Укажите корректные даты начала и окончания кампании
+        </p>
+      ) : (
+        <>
+          <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+            <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis yAxisId="frequency" tickLine={false} axisLine={false} />
+              <YAxis yAxisId="retention" orientation="right" tickLine={false} axisLine={false} unit="%" domain={[0, 100]} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ReferenceLine yAxisId="frequency" y={result.threshold} stroke="#d32f2f" strokeDasharray="4 4" />
+              <Bar yAxisId="frequency" dataKey="contacts" radius={[4, 4, 0, 0]}>
+                {data.map((entry) => (
+                  <Cell key={entry.label} fill={entry.belowThreshold ? "#fca5a5" : "var(--color-contacts)"} />
+                ))}
+              </Bar>
+              <Line yAxisId="frequency" dataKey="effectiveFrequency" stroke="var(--color-effectiveFrequency)" strokeWidth={2} dot={false} />
+              <Line yAxisId="retention" dataKey="retention" stroke="var(--color-retention)" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ChartContainer>
+
+          {weeksBelow.length > 0 ? (
+            <p className="text-xs text-orange-600 dark:text-orange-400 flex items-start gap-2">
+              <AlertCircleIcon className="w-4 h-4 mt-0.5 shrink-0" />
+              Ниже целевой частоты {result.threshold.toFixed(1)}: {weeksBelow.length} из {result.weeks.length} нед.
+              (с {weeksBelow.map((week) => formatWeek(week.startDate)).join(", ")})
+            </p>
+          ) : (
+            <p className="text-xs text-green-600 dark:text-green-400">
+              Все недели кампании держат целевую частоту {result.threshold.toFixed(1)}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
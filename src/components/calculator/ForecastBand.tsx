@@ -0,0 +1,48 @@
+import { Bar, BarChart, ReferenceLine, XAxis } from "recharts";
+import { ChartContainer, type ChartConfig } from "@/components/ui/chart";
+import type { MetricDistribution } from "@/lib/frequency-engine";
+
+interface ForecastBandProps {
+  distribution: MetricDistribution;
+  /** Bar colour, matching the KPI card */
+  color: string;
+  /** Digits after the decimal point */
+  digits?: number;
+  unit?: string;
+}
+
+/**
+ * P10/P50/P90 range of a KPI with a small histogram of the simulated values
+ */
+export function ForecastBand({ distribution, color, digits = 1, unit = "" }: ForecastBandProps) {
+  const chartConfig = {
+    count: {
+      label: "Сценариев",
+      color,
+    },
+  } satisfies ChartConfig;
+
+  const data = distribution.histogram.map((bin) => ({
+    middle: (bin.from + bin.to) / 2,
+    count: bin.count,
+  }));
+  const format = (value: number) => `${value.toFixed(digits)}${unit}`;
+
+  return (
+    <div className="mt-3 space-y-1">
+      <ChartContainer config={chartConfig} className="h-12 w-full aspect-auto">
+        <BarChart data={data} margin={{ top: 0, right: 0, bottom: 0, left: 0 }} barCategoryGap={1}>
+          <XAxis dataKey="middle" type="number" domain={["dataMin", "dataMax"]} hide />
+          <ReferenceLine x={distribution.p10} stroke={color} strokeDasharray="2 2" />
+          <ReferenceLine x={distribution.p90} stroke={color} strokeDasharray="2 2" />
+          <Bar dataKey="count" fill="var(--color-count)" fillOpacity={0.6} />
+        </BarChart>
+      </ChartContainer>
+      <div className="flex justify-between text-xs font-mono text-muted-foreground">
+        <span>P10 {format(distribution.p10)}</span>
+        <span className="font-semibold text-foreground">P50 {format(distribution.p50)}</span>
+        <span>P90 {format(distribution.p90)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { MEDIA_CHANNEL_LABELS, type FrequencyCapPlan } from "@/lib/frequency-engine";
+import { CheckIcon, CopyIcon, DownloadIcon } from "lucide-react";
+
+interface FrequencyCapTableProps {
+  /** Null while the media mix is off, as the caps are planned per channel */
+  plan: FrequencyCapPlan | null;
+}
+
+const HEADERS = [
+  "Канал",
+  "Кап в день",
+  "Кап в неделю",
+  "Кап на флайт",
+  "Показы",
+  "Потери, %",
+  "Потери, показы",
+  "Потери, RUB",
+];
+
+/**
+ * Plan as rows of plain values, shared by the clipboard and CSV export
+ */
+function toRows(plan: FrequencyCapPlan): string[][] {
+  return plan.rows.map((row) => [
+    MEDIA_CHANNEL_LABELS[row.channel],
+    String(row.capPerDay),
+    String(row.capPerWeek),
+    String(row.capPerFlight),
+    String(Math.round(row.impressions)),
+    row.wasteShare.toFixed(1),
+    String(Math.round(row.wastedImpressions)),
+    String(Math.round(row.wastedBudget)),
+  ]);
+}
+
+/**
+ * Recommended ad-server frequency caps per digital channel, copyable and exportable
+ */
+export function FrequencyCapTable({ plan }: FrequencyCapTableProps) {
+  const [copied, setCopied] = useState(false);
+  const [copyError, setCopyError] = useState<string | null>(null);
+
+  const handleCopy = async () => {
+    if (!plan) return;
+    const text = [HEADERS, ...toRows(plan)].map((cells) => cells.join("\t")).join("\n");
+    setCopyError(null);
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setCopyError("Не удалось скопировать таблицу: буфер обмена недоступен. Используйте экспорт в CSV.");
+    }
+  };
+
+  const handleExport = () => {
+    if (!plan) return;
+    const csv = [HEADERS, ...toRows(plan)]
+      .map((cells) => cells.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(";"))
+      .join("\n");
+    // BOM so Excel opens the Cyrillic headers correctly
+    const blob = new Blob(["\uFEFF" + csv], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "frequency-caps.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!plan) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        Медиамикс выключен: включите его на шаге 3, чтобы рассчитать капы по цифровым каналам
+      </p>
+    );
+  }
+
+  if (plan.rows.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        В медиамиксе нет бюджета на цифровые каналы
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <p className="text-xs text-muted-foreground">
+          Не более {plan.campaignCap} контактов на пользователя за кампанию:
+          {" "}{plan.flights} флайт(а), {plan.weeksOnAir} нед. в эфире
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleCopy}>
+            {copied ? <CheckIcon className="w-4 h-4 mr-2" /> : <CopyIcon className="w-4 h-4 mr-2" />}
+            {copied ? "Скопировано" : "Копировать"}
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport}>
+            <DownloadIcon className="w-4 h-4 mr-2" />
+            CSV
+          </Button>
+        </div>
+      </div>
+      {copyError && <p className="text-sm text-destructive">{copyError}</p>}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {HEADERS.map((header, index) => (
+              <TableHead key={header} className={index > 0 ? "text-right" : undefined}>{header}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {plan.rows.map((row) => (
+            <TableRow key={row.channel}>
+              <TableCell className="font-medium">{MEDIA_CHANNEL_LABELS[row.channel]}</TableCell>
+              <TableCell className="text-right font-mono">{row.capPerDay}</TableCell>
+              <TableCell className="text-right font-mono">{row.capPerWeek}</TableCell>
+              <TableCell className="text-right font-mono">{row.capPerFlight}</TableCell>
+              <TableCell className="text-right font-mono">{Math.round(row.impressions).toLocaleString('ru-RU')}</TableCell>
+              <TableCell className="text-right font-mono">{row.wasteShare.toFixed(1)}%</TableCell>
+              <TableCell className="text-right font-mono">{Math.round(row.wastedImpressions).toLocaleString('ru-RU')}</TableCell>
+              <TableCell className="text-right font-mono">{Math.round(row.wastedBudget).toLocaleString('ru-RU')}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
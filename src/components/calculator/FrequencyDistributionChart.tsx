@@ -0,0 +1,43 @@
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { FrequencyDistribution } from "@/lib/frequency-engine";
+
+interface FrequencyDistributionChartProps {
+  distribution: FrequencyDistribution;
+  /** Effective frequency threshold N; buckets at N+ are highlighted */
+  threshold: number;
+}
+
+const chartConfig = {
+  share: {
+    label: "Доля ЦА, %",
+    color: "#2563eb",
+  },
+} satisfies ChartConfig;
+
+/**
+ * Histogram of the share of the target audience reached exactly 1, 2, 3 ... n times
+ */
+export function FrequencyDistributionChart({ distribution, threshold }: FrequencyDistributionChartProps) {
+  const data = distribution.buckets.map((bucket) => ({
+    label: bucket.isTail ? `${bucket.exposures}+` : String(bucket.exposures),
+    share: Number(bucket.share.toFixed(2)),
+    effective: bucket.exposures >= threshold,
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+      <BarChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} />
+        <YAxis tickLine={false} axisLine={false} unit="%" />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={(label) => `Контактов: ${label}`} />} />
+        <Bar dataKey="share" radius={[4, 4, 0, 0]}>
+          {data.map((entry) => (
+            <Cell key={entry.label} fill={entry.effective ? "#2563eb" : "#93c5fd"} />
+          ))}
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,45 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { KpiBaselines } from "@/lib/frequency-engine";
+
+interface KpiBaselinesFormProps {
+  baselines: KpiBaselines;
+  onChange: (baselines: KpiBaselines) => void;
+}
+
+const BASELINE_FIELDS: Array<{ key: keyof KpiBaselines; label: string; step: number }> = [
+  { key: "searchVolume", label: "Брендовые запросы в месяц", step: 1000 },
+  { key: "sessions", label: "Визиты на сайт в месяц", step: 1000 },
+  { key: "conversionRate", label: "Конверсия сайта, %", step: 0.1 },
+];
+
+/**
+ * Pre-campaign search and site figures for the search and conversion uplift models
+ */
+export function KpiBaselinesForm({ baselines, onChange }: KpiBaselinesFormProps) {
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="text-sm font-semibold">Базовые показатели воронки</Label>
+        <p className="text-xs text-muted-foreground mt-1">
+          Текущий уровень до кампании: от него считаются дополнительные запросы и конверсии
+        </p>
+      </div>
+      <div className="grid sm:grid-cols-3 gap-4">
+        {BASELINE_FIELDS.map(({ key, label, step }) => (
+          <div key={key} className="space-y-2">
+            <Label htmlFor={`baseline-${key}`}>{label}</Label>
+            <Input
+              id={`baseline-${key}`}
+              type="number"
+              min={0}
+              step={step}
+              value={baselines[key]}
+              onChange={(e) => onChange({ ...baselines, [key]: Math.max(0, Number(e.target.value)) })}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
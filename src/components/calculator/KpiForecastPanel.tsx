@@ -0,0 +1,90 @@
+import type { ReactNode } from "react";
+import { ZapIcon } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import type { CalculationResult, CampaignGoal } from "@/lib/frequency-engine";
+
+interface KpiForecastPanelProps {
+  calculation: CalculationResult;
+  goal: CampaignGoal | "";
+  /** Footnote under the goal KPI, e.g. the seasonal index */
+  note?: string;
+  /** Forecast band of the goal KPI */
+  children?: ReactNode;
+}
+
+const KPI_TILES: Array<{
+  goal: CampaignGoal;
+  label: string;
+  value: (calculation: CalculationResult) => number;
+  detail: (calculation: CalculationResult) => string;
+}> = [
+  {
+    goal: "awareness",
+    label: "Top of Mind (ТОМ)",
+    value: (c) => c.tom.value,
+    detail: () => "спонтанное знание бренда, п.п.",
+  },
+  {
+    goal: "consideration",
+    label: "Рост поисковых запросов",
+    value: (c) => c.searchUplift.value,
+    detail: (c) => `+${Math.round(c.searchUplift.additionalSearches).toLocaleString("ru-RU")} запросов в месяц`,
+  },
+  {
+    goal: "conversion",
+    label: "Прирост конверсий",
+    value: (c) => c.conversionUplift.value,
+    detail: (c) =>
+      `CR ${c.conversionUplift.conversionRate.toFixed(2)}%, +${Math.round(c.conversionUplift.additionalConversions).toLocaleString("ru-RU")} конверсий в месяц`,
+  },
+  {
+    goal: "retention",
+    label: "Рост LTV",
+    value: (c) => c.ltvGrowth.value,
+    detail: () => "пожизненная ценность клиента",
+  },
+];
+
+/**
+ * Forecasts of all four KPIs; the one the campaign goal is measured by is highlighted
+ */
+export function KpiForecastPanel({ calculation, goal, note, children }: KpiForecastPanelProps) {
+  return (
+    <div className="p-6 bg-green-50 dark:bg-green-950/20 rounded-lg border border-green-200 dark:border-green-800">
+      <div className="flex items-center gap-2 mb-3">
+        <ZapIcon className="w-5 h-5 text-green-600 dark:text-green-400" />
+        <Label className="text-sm font-semibold text-green-900 dark:text-green-100">
+          Прогноз КПИ
+        </Label>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {KPI_TILES.map((tile) => {
+          const isGoal = tile.goal === goal;
+          return (
+            <div
+              key={tile.goal}
+              className={cn(
+                "p-3 rounded-md border",
+                isGoal
+                  ? "bg-white dark:bg-green-950/40 border-green-500 ring-1 ring-green-500"
+                  : "border-green-200/60 dark:border-green-800/60 opacity-75"
+              )}
+            >
+              <div className="text-xs font-medium text-green-900 dark:text-green-100">
+                {tile.label}
+                {isGoal && <span className="ml-1 text-green-600 dark:text-green-400">· цель</span>}
+              </div>
+              <div className={cn("font-bold text-green-700 dark:text-green-300", isGoal ? "text-3xl" : "text-xl")}>
+                +{tile.value(calculation).toFixed(1)}%
+              </div>
+              <div className="text-xs text-green-600 dark:text-green-400">{tile.detail(calculation)}</div>
+            </div>
+          );
+        })}
+      </div>
+      {note && <p className="text-xs text-green-600 dark:text-green-400 mt-3">{note}</p>}
+      {children}
+    </div>
+  );
+}
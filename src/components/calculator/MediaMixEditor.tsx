@@ -0,0 +1,138 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  MEDIA_CHANNEL_LABELS,
+  type DuplicationMethod,
+  type MediaChannelAllocation,
+  type MediaMixResult,
+  type MediaMixSettings,
+} from "@/lib/frequency-engine";
+import { AlertCircleIcon } from "lucide-react";
+
+interface MediaMixEditorProps {
+  settings: MediaMixSettings;
+  /** Preview of the mix for the current budget */
+  result: MediaMixResult;
+  onChange: (settings: MediaMixSettings) => void;
+}
+
+type EditableField = "share" | "cpm" | "maxReach";
+
+/**
+ * Media mix step: budget split, CPM and reach ceiling per channel
+ */
+export function MediaMixEditor({ settings, result, onChange }: MediaMixEditorProps) {
+  const handleChannelChange = (index: number, field: EditableField) => (value: string) => {
+    const parsed = parseFloat(value);
+    if (Number.isNaN(parsed)) return;
+    const channels = settings.channels.map((channel, i): MediaChannelAllocation =>
+      i === index ? { ...channel, [field]: parsed } : channel
+    );
+    onChange({ ...settings, channels });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex items-center gap-3 flex-1">
+          <Switch
+            id="media-mix-enabled"
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+          />
+          <Label htmlFor="media-mix-enabled" className="cursor-pointer">
+            Рассчитывать охват по медиамиксу вместо единой модели закупки
+          </Label>
+        </div>
+        <div className="space-y-2 md:w-72">
+          <Label htmlFor="duplication-method">Пересечение аудиторий</Label>
+          <Select
+            value={settings.method}
+            onValueChange={(value) => onChange({ ...settings, method: value as DuplicationMethod })}
+          >
+            <SelectTrigger id="duplication-method">
+              <SelectValue placeholder="Выберите метод" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="sainsbury">Sainsbury (независимые каналы)</SelectItem>
+              <SelectItem value="random">Случайное дублирование</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Канал</TableHead>
+            <TableHead>Доля бюджета, %</TableHead>
+            <TableHead>CPM, RUB</TableHead>
+            <TableHead>Макс. охват, %</TableHead>
+            <TableHead className="text-right">Бюджет, RUB</TableHead>
+            <TableHead className="text-right">TRP</TableHead>
+            <TableHead className="text-right">Охват 1+</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {result.channels.map((channel, index) => (
+            <TableRow key={channel.channel}>
+              <TableCell className="font-medium">{MEDIA_CHANNEL_LABELS[channel.channel]}</TableCell>
+              {(["share", "cpm", "maxReach"] as const).map((field) => (
+                <TableCell key={field}>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={field === "cpm" ? undefined : 100}
+                    className="w-24"
+                    value={settings.channels[index][field]}
+                    onChange={(e) => handleChannelChange(index, field)(e.target.value)}
+                  />
+                </TableCell>
+              ))}
+              <TableCell className="text-right font-mono">
+                {Math.round(channel.budget).toLocaleString('ru-RU')}
+              </TableCell>
+              <TableCell className="text-right font-mono">{channel.trp.toFixed(0)}</TableCell>
+              <TableCell className="text-right font-mono">{channel.reach.toFixed(1)}%</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell>Итого</TableCell>
+            <TableCell className="font-mono">{result.totalShare.toFixed(0)}%</TableCell>
+            <TableCell className="font-mono">{result.cpm.toFixed(0)}</TableCell>
+            <TableCell />
+            <TableCell />
+            <TableCell className="text-right font-mono">{result.trp.toFixed(0)}</TableCell>
+            <TableCell className="text-right font-mono">{result.reach1Plus.toFixed(1)}%</TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+
+      {Math.abs(result.totalShare - 100) > 0.01 && (
+        <p className="text-xs text-orange-600 dark:text-orange-400 flex items-center gap-2">
+          <AlertCircleIcon className="w-4 h-4" />
+          Сумма долей {result.totalShare.toFixed(0)}% — бюджет распределён пропорционально долям
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  OSTROW_BASE_FREQUENCY,
+  OSTROW_FACTORS,
+  OSTROW_GROUP_LABELS,
+  OSTROW_SCORE_MAX,
+  OSTROW_SCORE_MIN,
+  type OstrowFactorGroup,
+  type OstrowResult,
+  type OstrowScores,
+} from "@/lib/frequency-engine";
+
+interface OstrowWorksheetProps {
+  scores: OstrowScores;
+  result: OstrowResult;
+  onScoreChange: (factorId: string, value: number) => void;
+}
+
+const GROUPS: OstrowFactorGroup[] = ["marketing", "copy", "media"];
+
+/**
+ * Ostrow effective frequency worksheet: ~20 factors scored -0.2..+0.2 on top of a base of 3
+ */
+export function OstrowWorksheet({ scores, result, onScoreChange }: OstrowWorksheetProps) {
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-muted rounded-lg flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Базовая частота {OSTROW_BASE_FREQUENCY.toFixed(1)} + сумма оценок факторов
+        </p>
+        <span className="text-lg font-bold font-mono">{result.frequency.toFixed(1)}</span>
+      </div>
+
+      {GROUPS.map((group) => (
+        <div key={group} className="space-y-4">
+          <div className="flex items-center justify-between border-b pb-2">
+            <Label className="font-semibold">{OSTROW_GROUP_LABELS[group]}</Label>
+            <span className="text-xs font-mono text-muted-foreground">
+              {result.byGroup[group] >= 0 ? "+" : ""}{result.byGroup[group].toFixed(1)}
+            </span>
+          </div>
+          {OSTROW_FACTORS.filter((factor) => factor.group === group).map((factor) => (
+            <div key={factor.id} className="space-y-1">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{factor.low}</span>
+                <span className="text-right">{factor.high}</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <Slider
+                  value={[scores[factor.id] ?? 0]}
+                  onValueChange={(value) => onScoreChange(factor.id, value[0])}
+                  min={OSTROW_SCORE_MIN}
+                  max={OSTROW_SCORE_MAX}
+                  step={0.1}
+                  className="flex-1"
+                />
+                <span className="text-sm font-mono w-12 text-right">
+                  {(scores[factor.id] ?? 0).toFixed(1)}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
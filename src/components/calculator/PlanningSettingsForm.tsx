@@ -0,0 +1,100 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { PlanningMode, PlanningSettings } from "@/lib/frequency-engine";
+
+interface PlanningSettingsFormProps {
+  planning: PlanningSettings;
+  /** Universe used when none is entered (target audience capacity) */
+  defaultUniverse: number;
+  onChange: (planning: PlanningSettings) => void;
+}
+
+/**
+ * Buying model inputs: flat CPM or GRP/TRP with cost per point and affinity
+ */
+export function PlanningSettingsForm({ planning, defaultUniverse, onChange }: PlanningSettingsFormProps) {
+  const handleNumberChange = (key: "cpm" | "costPerTrp" | "affinity") => (value: string) => {
+    const parsed = parseFloat(value);
+    if (Number.isNaN(parsed)) return;
+    onChange({ ...planning, [key]: parsed });
+  };
+
+  const handleUniverseChange = (value: string) => {
+    const parsed = parseFloat(value);
+    onChange({ ...planning, universe: Number.isNaN(parsed) ? null : parsed });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="planning-mode">Модель закупки</Label>
+        <Select
+          value={planning.mode}
+          onValueChange={(value) => onChange({ ...planning, mode: value as PlanningMode })}
+        >
+          <SelectTrigger id="planning-mode">
+            <SelectValue placeholder="Выберите модель закупки" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="cpm">Фиксированный CPM</SelectItem>
+            <SelectItem value="ratings">GRP/TRP (ТВ и OLV)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {planning.mode === "cpm" ? (
+        <div className="space-y-2">
+          <Label htmlFor="planning-cpm">CPM (RUB)</Label>
+          <Input
+            id="planning-cpm"
+            type="number"
+            min={0}
+            value={planning.cpm}
+            onChange={(e) => handleNumberChange("cpm")(e.target.value)}
+          />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="planning-cost-per-trp">Стоимость TRP (RUB)</Label>
+            <Input
+              id="planning-cost-per-trp"
+              type="number"
+              min={0}
+              value={planning.costPerTrp}
+              onChange={(e) => handleNumberChange("costPerTrp")(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="planning-affinity">Affinity index</Label>
+            <Input
+              id="planning-affinity"
+              type="number"
+              min={1}
+              value={planning.affinity}
+              onChange={(e) => handleNumberChange("affinity")(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="planning-universe">Размер ЦА (чел.)</Label>
+            <Input
+              id="planning-universe"
+              type="number"
+              min={0}
+              placeholder={String(defaultUniverse)}
+              value={planning.universe ?? ""}
+              onChange={(e) => handleUniverseChange(e.target.value)}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
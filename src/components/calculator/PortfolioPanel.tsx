@@ -0,0 +1,202 @@
+import { useMemo } from "react";
+import { FolderOpenIcon, SparklesIcon, Trash2Icon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  allocatePortfolio,
+  calculatePortfolio,
+  CAMPAIGN_GOAL_LABELS,
+  type PortfolioObjective,
+  type SliderParams,
+} from "@/lib/frequency-engine";
+import { AI_PARAMETER_SLIDERS, type AIParameterKey } from "@/lib/ai-response";
+import { usePortfolio, type PortfolioEntry } from "@/hooks/use-portfolio";
+
+interface PortfolioPanelProps {
+  paramLabels: Record<keyof SliderParams, string>;
+  /** Load a brand back into the wizard */
+  onOpenBrand: (brand: PortfolioEntry) => void;
+}
+
+const OBJECTIVE_LABELS: Record<PortfolioObjective, string> = {
+  reach: "Эффективный охват",
+  kpi: "Взвешенный КПИ",
+};
+
+/**
+ * Brands planned under one total budget: the split, per-brand results, portfolio totals and the suggested allocation
+ */
+export function PortfolioPanel({ paramLabels, onOpenBrand }: PortfolioPanelProps) {
+  const portfolio = usePortfolio();
+  const { brands, totalBudget, objective, shares } = portfolio;
+
+  const plan = useMemo(() => calculatePortfolio(brands, totalBudget, shares), [brands, totalBudget, shares]);
+
+  if (brands.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Портфель пуст. Рассчитайте бренд в мастере и добавьте его в портфель, затем повторите для остальных брендов.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid sm:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="portfolio-budget">Общий бюджет, RUB</Label>
+          <Input
+            id="portfolio-budget"
+            type="number"
+            min={0}
+            step={100000}
+            value={totalBudget}
+            onChange={(e) => portfolio.setTotalBudget(Number(e.target.value))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="portfolio-objective">Критерий распределения</Label>
+          <Select
+            value={objective}
+            onValueChange={(value) => portfolio.setObjective(value as PortfolioObjective)}
+          >
+            <SelectTrigger id="portfolio-objective">
+              <SelectValue placeholder="Выберите критерий" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(OBJECTIVE_LABELS) as PortfolioObjective[]).map((key) => (
+                <SelectItem key={key} value={key}>{OBJECTIVE_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          onClick={() => portfolio.setShares(allocatePortfolio(brands, totalBudget, objective))}
+          disabled={totalBudget <= 0}
+          style={{ backgroundColor: "#d32f2f" }}
+        >
+          <SparklesIcon className="h-4 w-4 mr-2" />
+          Предложить распределение
+        </Button>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Бренд</TableHead>
+            <TableHead>Цель</TableHead>
+            <TableHead className="text-right">Вес КПИ</TableHead>
+            <TableHead className="text-right">Доля, %</TableHead>
+            <TableHead className="text-right">Бюджет, RUB</TableHead>
+            <TableHead className="text-right">Частота</TableHead>
+            <TableHead className="text-right">Охват N+</TableHead>
+            <TableHead className="text-right">Охвачено, чел.</TableHead>
+            <TableHead className="text-right">КПИ цели</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {plan.brands.map(({ brand, share, budget, calculation }, i) => (
+            <TableRow key={brand.id}>
+              <TableCell className="font-medium">{brand.name}</TableCell>
+              <TableCell>{brand.input.goal ? CAMPAIGN_GOAL_LABELS[brand.input.goal] : "—"}</TableCell>
+              <TableCell className="text-right">
+                <Input
+                  aria-label={`Вес КПИ: ${brand.name}`}
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  className="w-20 ml-auto text-right"
+                  value={brand.weight}
+                  onChange={(e) => portfolio.updateBrand(brand.id, { weight: Math.max(0, Number(e.target.value)) })}
+                />
+              </TableCell>
+              <TableCell className="text-right">
+                <Input
+                  aria-label={`Доля бюджета: ${brand.name}`}
+                  type="number"
+                  min={0}
+                  max={100}
+                  className="w-20 ml-auto text-right"
+                  value={shares[brand.id] ?? 0}
+                  onChange={(e) => portfolio.setShares({ ...shares, [brand.id]: Math.max(0, Number(e.target.value)) })}
+                />
+              </TableCell>
+              <TableCell className="text-right font-mono">
+                {Math.round(budget).toLocaleString('ru-RU')}
+                <div className="text-xs text-muted-foreground">{share.toFixed(1)}%</div>
+              </TableCell>
+              <TableCell className="text-right font-mono">{calculation.frequency.frequency.toFixed(1)}</TableCell>
+              <TableCell className="text-right font-mono">
+                {calculation.coverage.value.toFixed(1)}%
+                <span className="text-xs text-muted-foreground ml-1">({calculation.coverage.threshold}+)</span>
+              </TableCell>
+              <TableCell className="text-right font-mono">{Math.round(calculation.coverage.reach).toLocaleString('ru-RU')}</TableCell>
+              <TableCell className="text-right font-mono">{calculation.goalKPI.toFixed(1)}%</TableCell>
+              <TableCell className="text-right whitespace-nowrap">
+                <Button variant="ghost" size="icon" title="Открыть в мастере" onClick={() => onOpenBrand(brands[i])}>
+                  <FolderOpenIcon className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" title="Удалить из портфеля" onClick={() => portfolio.removeBrand(brand.id)}>
+                  <Trash2Icon className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell colSpan={4}>Портфель</TableCell>
+            <TableCell className="text-right font-mono">{Math.round(plan.budget).toLocaleString('ru-RU')}</TableCell>
+            <TableCell />
+            <TableCell className="text-right font-mono">{plan.effectiveReach.toFixed(1)}%</TableCell>
+            <TableCell className="text-right font-mono">{Math.round(plan.effectivelyReached).toLocaleString('ru-RU')}</TableCell>
+            <TableCell className="text-right font-mono">{plan.weightedKPI.toFixed(1)}%</TableCell>
+            <TableCell />
+          </TableRow>
+        </TableFooter>
+      </Table>
+      <p className="text-xs text-muted-foreground">
+        Доли нормируются так, чтобы распределялся весь бюджет. Охват портфеля взвешен по размеру ЦА брендов, аудитории брендов считаются непересекающимися.
+        КПИ портфеля — среднее КПИ целей брендов с весами.
+      </p>
+
+      {brands.some((brand) => Object.keys(brand.insights).length > 0) && (
+        <div className="space-y-3">
+          <Label className="text-sm font-semibold">Инсайты ИИ по брендам</Label>
+          {brands.filter((brand) => Object.keys(brand.insights).length > 0).map((brand) => (
+            <div key={brand.id} className="rounded-lg border p-3 space-y-1">
+              <div className="text-sm font-medium">{brand.name}</div>
+              {Object.entries(brand.insights).map(([key, insight]) => (
+                <p key={key} className="text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">
+                    {key in AI_PARAMETER_SLIDERS ? paramLabels[AI_PARAMETER_SLIDERS[key as AIParameterKey]] : key} ({insight.value > 0 ? "+" : ""}{insight.value}):
+                  </span>{" "}
+                  {insight.insight}
+                  {insight.source && <span className="italic"> — {insight.source}</span>}
+                </p>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { REGIONS, type RegionalSettings } from "@/lib/frequency-engine";
+import { AudienceFilterFields } from "./AudienceFilterFields";
+
+interface RegionSelectorProps {
+  settings: RegionalSettings;
+  /** Target audience of the current selection */
+  capacity: number;
+  onChange: (settings: RegionalSettings) => void;
+}
+
+/**
+ * Geography (federal districts, cities over 1M) and demographic filters of the target audience
+ */
+export function RegionSelector({ settings, capacity, onChange }: RegionSelectorProps) {
+  const toggleRegion = (id: string, checked: boolean) => {
+    const regionIds = checked
+      ? [...settings.regionIds, id]
+      : settings.regionIds.filter((regionId) => regionId !== id);
+    onChange({ ...settings, regionIds });
+  };
+
+  const renderRegions = (kind: "district" | "city") => (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      {REGIONS.filter((region) => region.kind === kind).map((region) => {
+        const inDistrict = !!region.districtId && settings.regionIds.includes(region.districtId);
+        return (
+          <div key={region.id} className="flex items-center gap-2">
+            <Checkbox
+              id={`region-${region.id}`}
+              checked={settings.regionIds.includes(region.id)}
+              onCheckedChange={(checked) => toggleRegion(region.id, checked === true)}
+            />
+            <Label htmlFor={`region-${region.id}`} className="cursor-pointer text-sm font-normal">
+              {region.name}
+              {inDistrict && <span className="text-xs text-muted-foreground ml-1">(входит в ФО)</span>}
+            </Label>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <Switch
+          id="regional-enabled"
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+        />
+        <Label htmlFor="regional-enabled" className="cursor-pointer">
+          Региональная кампания: рассчитать ёмкость ЦА по выбранной географии
+        </Label>
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className="grid md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold">Федеральные округа</Label>
+              {renderRegions("district")}
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold">Города-миллионники</Label>
+              {renderRegions("city")}
+            </div>
+          </div>
+
+          <AudienceFilterFields
+            filter={settings.filter}
+            onChange={(filter) => onChange({ ...settings, filter })}
+          />
+
+          <p className="text-sm">
+            Ёмкость ЦА в выбранной географии:{" "}
+            <span className="font-mono font-semibold">{Math.round(capacity).toLocaleString('ru-RU')}</span> чел.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
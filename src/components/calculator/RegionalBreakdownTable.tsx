@@ -0,0 +1,63 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { RegionalCoverageResult } from "@/lib/frequency-engine";
+
+interface RegionalBreakdownTableProps {
+  result: RegionalCoverageResult;
+  /** Effective frequency threshold N for the reach column */
+  threshold: number;
+}
+
+/**
+ * Audience, budget and reach per selected region
+ */
+export function RegionalBreakdownTable({ result, threshold }: RegionalBreakdownTableProps) {
+  const budget = result.rows.reduce((acc, row) => acc + row.budget, 0);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Регион</TableHead>
+          <TableHead className="text-right">ЦА, чел.</TableHead>
+          <TableHead className="text-right">Бюджет, RUB</TableHead>
+          <TableHead className="text-right">CPM</TableHead>
+          <TableHead className="text-right">TRP</TableHead>
+          <TableHead className="text-right">Охват 1+</TableHead>
+          <TableHead className="text-right">Охват {threshold}+</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {result.rows.map((row) => (
+          <TableRow key={row.region.id}>
+            <TableCell className="font-medium">{row.region.name}</TableCell>
+            <TableCell className="text-right font-mono">{Math.round(row.audience).toLocaleString('ru-RU')}</TableCell>
+            <TableCell className="text-right font-mono">{Math.round(row.budget).toLocaleString('ru-RU')}</TableCell>
+            <TableCell className="text-right font-mono">{row.coverage.cpm.toFixed(0)}</TableCell>
+            <TableCell className="text-right font-mono">{row.coverage.trp.toFixed(0)}</TableCell>
+            <TableCell className="text-right font-mono">{row.coverage.reach1Plus.toFixed(1)}%</TableCell>
+            <TableCell className="text-right font-mono">{row.coverage.value.toFixed(1)}%</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter>
+        <TableRow>
+          <TableCell>Итого</TableCell>
+          <TableCell className="text-right font-mono">{Math.round(result.audience).toLocaleString('ru-RU')}</TableCell>
+          <TableCell className="text-right font-mono">{Math.round(budget).toLocaleString('ru-RU')}</TableCell>
+          <TableCell />
+          <TableCell />
+          <TableCell className="text-right font-mono">{result.reach1Plus.toFixed(1)}%</TableCell>
+          <TableCell className="text-right font-mono">{result.effectiveReach.toFixed(1)}%</TableCell>
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+}
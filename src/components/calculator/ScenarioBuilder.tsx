@@ -0,0 +1,261 @@
+import { useState, type SetStateAction } from "react";
+import { CopyIcon, SaveIcon, Trash2Icon, XIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  CAMPAIGN_GOAL_LABELS,
+  clampParam,
+  createScenario,
+  MAX_SCENARIOS,
+  PARAM_MAX,
+  PARAM_MIN,
+  type CalculationInput,
+  type CampaignGoal,
+  type Scenario,
+  type ScenarioResult,
+  type SliderParams,
+} from "@/lib/frequency-engine";
+import { useCalculationScenarios } from "@/hooks/use-calculation-scenarios";
+
+interface ScenarioBuilderProps {
+  scenarios: Scenario[];
+  results: ScenarioResult[];
+  /** Current calculation the scenarios are cloned from */
+  input: CalculationInput;
+  paramLabels: Record<keyof SliderParams, string>;
+  /** Saved calculation_history record of the current calculation, if any */
+  calculationId: string | null;
+  brandName: string | null;
+  onChange: (scenarios: SetStateAction<Scenario[]>) => void;
+}
+
+/**
+ * Named what-if copies of the current calculation with their own budget, goal and sliders,
+ * saved next to the calculation history
+ */
+export function ScenarioBuilder({
+  scenarios,
+  results,
+  input,
+  paramLabels,
+  calculationId,
+  brandName,
+  onChange,
+}: ScenarioBuilderProps) {
+  const store = useCalculationScenarios();
+  const [message, setMessage] = useState<string | null>(null);
+  // Text of number fields being edited, so a field can be cleared and retyped
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const available = store.scenarios.filter((saved) => !scenarios.some((s) => s.id === saved.scenario.id));
+  const isFull = scenarios.length >= MAX_SCENARIOS;
+
+  const updateScenario = (id: string, patch: Partial<Scenario>) => {
+    onChange((prev) => prev.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  };
+
+  const draftValue = (field: string, value: number) => drafts[field] ?? String(value);
+
+  // Keep the typed text and apply it once it reads as a number
+  const editNumber = (field: string, text: string, apply: (value: number) => void) => {
+    setDrafts((prev) => ({ ...prev, [field]: text }));
+    const value = Number(text);
+    if (text.trim() !== "" && Number.isFinite(value)) apply(value);
+  };
+
+  // On blur the field shows the value in force again
+  const endEdit = (field: string) => {
+    setDrafts(({ [field]: _edited, ...rest }) => rest);
+  };
+
+  const updateParam = (scenario: Scenario, key: keyof SliderParams, value: number) => {
+    onChange((prev) => prev.map((s) => (
+      s.id === scenario.id ? { ...s, params: { ...s.params, [key]: clampParam(value) } } : s
+    )));
+  };
+
+  const cloneCurrent = () => {
+    onChange([...scenarios, createScenario(crypto.randomUUID(), `Сценарий ${scenarios.length + 1}`, input)]);
+  };
+
+  const loadScenario = (id: string) => {
+    const saved = store.scenarios.find((s) => s.scenario.id === id);
+    if (saved) onChange([...scenarios, saved.scenario]);
+  };
+
+  const handleSave = async (scenario: Scenario) => {
+    const result = results.find((r) => r.scenario.id === scenario.id);
+    if (!result) return;
+    setMessage(null);
+    try {
+      const saved = await store.saveScenario({ result, calculationId, brandName });
+      // Take over the data-store id so the next save updates the same record
+      // Applied to the latest list so edits made while saving are kept
+      if (saved) {
+        onChange((prev) => prev.map((s) => (s.id === scenario.id ? { ...s, id: saved.scenario.id } : s)));
+      }
+    } catch (e) {
+      setMessage(`Не удалось сохранить сценарий: ${e instanceof Error ? e.message : "Неизвестная ошибка"}`);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setMessage(null);
+    try {
+      await store.deleteScenario(id);
+    } catch (e) {
+      setMessage(`Не удалось удалить сценарий: ${e instanceof Error ? e.message : "Неизвестная ошибка"}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {scenarios.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Скопируйте текущий расчёт в сценарий, чтобы изменить бюджет, цель или параметры и сравнить результаты.
+          Одновременно можно сравнить до {MAX_SCENARIOS} сценариев.
+        </p>
+      )}
+
+      {scenarios.map((scenario) => (
+        <div key={scenario.id} className="rounded-lg border p-4 space-y-4">
+          <div className="grid sm:grid-cols-[2fr_1fr_1fr_auto] gap-3 items-end">
+            <div className="space-y-2">
+              <Label htmlFor={`scenario-name-${scenario.id}`}>Название</Label>
+              <Input
+                id={`scenario-name-${scenario.id}`}
+                value={scenario.name}
+                onChange={(e) => updateScenario(scenario.id, { name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`scenario-budget-${scenario.id}`}>Бюджет, RUB</Label>
+              <Input
+                id={`scenario-budget-${scenario.id}`}
+                type="number"
+                min={0}
+                step={100000}
+                value={draftValue(`${scenario.id}-budget`, scenario.budget)}
+                onChange={(e) => editNumber(`${scenario.id}-budget`, e.target.value, (budget) => {
+                  if (budget >= 0) updateScenario(scenario.id, { budget });
+                })}
+                onBlur={() => endEdit(`${scenario.id}-budget`)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`scenario-goal-${scenario.id}`}>Цель</Label>
+              <Select
+                value={scenario.goal}
+                onValueChange={(goal) => updateScenario(scenario.id, { goal: goal as CampaignGoal })}
+              >
+                <SelectTrigger id={`scenario-goal-${scenario.id}`}>
+                  <SelectValue placeholder="Выберите цель" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CAMPAIGN_GOAL_LABELS) as CampaignGoal[]).map((goal) => (
+                    <SelectItem key={goal} value={goal}>{CAMPAIGN_GOAL_LABELS[goal]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="icon"
+                title="Сохранить сценарий"
+                disabled={store.isSaving}
+                onClick={() => handleSave(scenario)}
+              >
+                <SaveIcon className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                title="Убрать из сравнения"
+                onClick={() => onChange((prev) => prev.filter((s) => s.id !== scenario.id))}
+              >
+                <XIcon className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {(Object.keys(paramLabels) as Array<keyof SliderParams>).map((key) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`scenario-${scenario.id}-${key}`} className="text-xs font-normal">
+                  {paramLabels[key]}
+                </Label>
+                <Input
+                  id={`scenario-${scenario.id}-${key}`}
+                  type="number"
+                  min={PARAM_MIN}
+                  max={PARAM_MAX}
+                  step={0.5}
+                  value={draftValue(`${scenario.id}-${key}`, scenario.params[key])}
+                  onChange={(e) => editNumber(`${scenario.id}-${key}`, e.target.value, (value) => updateParam(scenario, key, value))}
+                  onBlur={() => endEdit(`${scenario.id}-${key}`)}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-3">
+        <Button variant="outline" onClick={cloneCurrent} disabled={isFull}>
+          <CopyIcon className="h-4 w-4 mr-2" />
+          Скопировать текущий расчёт
+        </Button>
+        {available.length > 0 && !isFull && (
+          <Select value="" onValueChange={loadScenario}>
+            <SelectTrigger className="w-72">
+              <SelectValue placeholder="Загрузить сохранённый сценарий" />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map((saved) => (
+                <SelectItem key={saved.scenario.id} value={saved.scenario.id}>
+                  {saved.brandName ? `${saved.brandName} · ` : ""}{saved.scenario.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {available.length > 0 && (
+        <div className="space-y-2">
+          <Label className="text-sm font-semibold">Сохранённые сценарии</Label>
+          <div className="divide-y rounded-lg border">
+            {available.map((saved) => (
+              <div key={saved.scenario.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                <span>
+                  {saved.brandName ? `${saved.brandName} · ` : ""}{saved.scenario.name}
+                  <span className="text-muted-foreground ml-2">
+                    {Math.round(saved.scenario.budget).toLocaleString('ru-RU')} RUB · частота {saved.frequency.toFixed(1)} ·
+                    охват {saved.coverage.toFixed(1)}%
+                  </span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Удалить сохранённый сценарий"
+                  onClick={() => handleDelete(saved.scenario.id)}
+                >
+                  <Trash2Icon className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      {message && <p className="text-sm text-destructive">{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CAMPAIGN_GOAL_LABELS, type CalculationResult, type ScenarioResult } from "@/lib/frequency-engine";
+
+interface ScenarioComparisonTableProps {
+  /** Current calculation, the reference column */
+  current: CalculationResult;
+  currentBudget: number;
+  results: ScenarioResult[];
+}
+
+interface ComparisonRow {
+  label: string;
+  value: (calculation: CalculationResult, budget: number) => number;
+  format: (value: number) => string;
+}
+
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+
+const COMPARISON_ROWS: ComparisonRow[] = [
+  { label: "Бюджет, RUB", value: (_, budget) => budget, format: (value) => Math.round(value).toLocaleString("ru-RU") },
+  { label: "Частота", value: (c) => c.frequency.frequency, format: (value) => value.toFixed(1) },
+  { label: "Охват 1+", value: (c) => c.coverage.reach1Plus, format: formatPercent },
+  { label: "Охват N+", value: (c) => c.coverage.value, format: formatPercent },
+  { label: "TRP", value: (c) => c.coverage.trp, format: (value) => value.toFixed(0) },
+  { label: "Top of Mind (ТОМ)", value: (c) => c.tom.value, format: formatPercent },
+  { label: "Рост поисковых запросов", value: (c) => c.searchUplift.value, format: formatPercent },
+  { label: "Прирост конверсий", value: (c) => c.conversionUplift.value, format: formatPercent },
+  { label: "Рост LTV", value: (c) => c.ltvGrowth.value, format: formatPercent },
+];
+
+/**
+ * Frequency, reach and all KPIs of each scenario next to the current calculation, with the change against it
+ */
+export function ScenarioComparisonTable({ current, currentBudget, results }: ScenarioComparisonTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Показатель</TableHead>
+          <TableHead className="text-right">Текущий расчёт</TableHead>
+          {results.map(({ scenario }) => (
+            <TableHead key={scenario.id} className="text-right">
+              {scenario.name}
+              {scenario.goal && (
+                <div className="text-xs font-normal text-muted-foreground">{CAMPAIGN_GOAL_LABELS[scenario.goal]}</div>
+              )}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {COMPARISON_ROWS.map((row) => {
+          const reference = row.value(current, currentBudget);
+          return (
+            <TableRow key={row.label}>
+              <TableCell className="font-medium">{row.label}</TableCell>
+              <TableCell className="text-right font-mono">{row.format(reference)}</TableCell>
+              {results.map(({ scenario, calculation }) => {
+                const value = row.value(calculation, scenario.budget);
+                const delta = value - reference;
+                return (
+                  <TableCell key={scenario.id} className="text-right font-mono">
+                    {row.format(value)}
+                    {Math.abs(delta) > 1e-9 && (
+                      <div className={`text-xs ${delta > 0 ? "text-green-600" : "text-red-600"}`}>
+                        {delta > 0 ? "+" : "−"}{row.format(Math.abs(delta))}
+                      </div>
+                    )}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
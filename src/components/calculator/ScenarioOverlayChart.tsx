@@ -0,0 +1,61 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { CalculationResult, ScenarioResult } from "@/lib/frequency-engine";
+
+interface ScenarioOverlayChartProps {
+  current: CalculationResult;
+  results: ScenarioResult[];
+}
+
+const SCENARIO_COLORS = ["#2563eb", "#16a34a", "#9333ea", "#ea580c", "#0891b2"];
+
+/**
+ * Reach at N+ contacts of the current calculation and every scenario on one chart
+ */
+export function ScenarioOverlayChart({ current, results }: ScenarioOverlayChartProps) {
+  const series = [
+    { key: "current", label: "Текущий расчёт", calculation: current, color: "#d32f2f" },
+    ...results.map(({ scenario, calculation }, i) => ({
+      key: `scenario${i}`,
+      label: scenario.name,
+      calculation,
+      color: SCENARIO_COLORS[i % SCENARIO_COLORS.length],
+    })),
+  ];
+
+  const chartConfig = Object.fromEntries(
+    series.map(({ key, label, color }) => [key, { label, color }])
+  ) satisfies ChartConfig;
+
+  // Reach N+ for N from 1 up; every distribution has the same number of buckets
+  const reachCurves = series.map(({ key, calculation }) => ({
+    key,
+    buckets: calculation.coverage.distribution.buckets.filter((bucket) => bucket.exposures > 0),
+  }));
+  const data = reachCurves[0].buckets.map((bucket, i) => ({
+    label: `${bucket.exposures}+`,
+    ...Object.fromEntries(reachCurves.map(({ key, buckets }) => [key, Number((buckets[i]?.cumulative ?? 0).toFixed(1))])),
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+      <LineChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} />
+        <YAxis tickLine={false} axisLine={false} unit="%" domain={[0, 100]} />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={(label) => `Охват ${label}`} />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        {series.map(({ key }) => (
+          <Line key={key} dataKey={key} stroke={`var(--color-${key})`} strokeWidth={2} dot={false} />
+        ))}
+      </LineChart>
+    </ChartContainer>
+  );
+}
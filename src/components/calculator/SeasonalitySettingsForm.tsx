@@ -0,0 +1,99 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  SEASONALITY_CATEGORY_LABELS,
+  type SeasonalityAdjustment,
+  type SeasonalityCategory,
+  type SeasonalitySettings,
+} from "@/lib/frequency-engine";
+
+interface SeasonalitySettingsFormProps {
+  settings: SeasonalitySettings;
+  /** Campaign period shared with the flighting calendar, YYYY-MM-DD */
+  startDate: string;
+  endDate: string;
+  adjustment: SeasonalityAdjustment;
+  onChange: (settings: SeasonalitySettings) => void;
+  onPeriodChange: (startDate: string, endDate: string) => void;
+}
+
+/**
+ * Campaign period and product category for the seasonal CPM and KPI indices
+ */
+export function SeasonalitySettingsForm({
+  settings,
+  startDate,
+  endDate,
+  adjustment,
+  onChange,
+  onPeriodChange,
+}: SeasonalitySettingsFormProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <Switch
+          id="seasonality-enabled"
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+        />
+        <Label htmlFor="seasonality-enabled" className="cursor-pointer">
+          Учитывать сезонность CPM и спроса в период кампании
+        </Label>
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className="grid sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="seasonality-start">Начало кампании</Label>
+              <Input
+                id="seasonality-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => onPeriodChange(e.target.value, endDate)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="seasonality-end">Окончание кампании</Label>
+              <Input
+                id="seasonality-end"
+                type="date"
+                value={endDate}
+                onChange={(e) => onPeriodChange(startDate, e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="seasonality-category">Категория</Label>
+              <Select
+                value={settings.category}
+                onValueChange={(value) => onChange({ ...settings, category: value as SeasonalityCategory })}
+              >
+                <SelectTrigger id="seasonality-category">
+                  <SelectValue placeholder="Выберите категорию" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SEASONALITY_CATEGORY_LABELS) as SeasonalityCategory[]).map((category) => (
+                    <SelectItem key={category} value={category}>{SEASONALITY_CATEGORY_LABELS[category]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Индекс CPM: <span className="font-mono font-semibold">×{adjustment.cpmIndex.toFixed(2)}</span>,
+            индекс базы КПИ: <span className="font-mono font-semibold">×{adjustment.kpiIndex.toFixed(2)}</span>.
+            Таблицы индексов редактируются в разделе администрирования.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { PlusIcon, SaveIcon, Trash2Icon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  clampParam,
+  createSegment,
+  getSegmentSize,
+  PARAM_MAX,
+  PARAM_MIN,
+  type AudienceSegment,
+  type SliderParams,
+} from "@/lib/frequency-engine";
+import { useSegmentLibrary } from "@/hooks/use-segment-library";
+import { AudienceFilterFields } from "./AudienceFilterFields";
+
+interface SegmentBuilderProps {
+  segments: AudienceSegment[];
+  /** Campaign-level slider values a segment inherits when it has no override */
+  params: SliderParams;
+  paramLabels: Record<keyof SliderParams, string>;
+  /** Selected regions the automatic size is computed over; all of Russia if empty */
+  regionIds: string[];
+  onChange: (segments: AudienceSegment[]) => void;
+}
+
+/**
+ * Audience segments with their own filters, size, budget share and slider overrides, plus the saved segment library
+ */
+export function SegmentBuilder({ segments, params, paramLabels, regionIds, onChange }: SegmentBuilderProps) {
+  const library = useSegmentLibrary();
+  const available = library.segments.filter((saved) => !segments.some((s) => s.id === saved.id));
+
+  const updateSegment = (id: string, patch: Partial<AudienceSegment>) => {
+    onChange(segments.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  };
+
+  const updateOverride = (segment: AudienceSegment, key: keyof SliderParams, value: string) => {
+    const paramOverrides = { ...segment.paramOverrides };
+    if (value === "") {
+      delete paramOverrides[key];
+    } else {
+      paramOverrides[key] = clampParam(Number(value));
+    }
+    updateSegment(segment.id, { paramOverrides });
+  };
+
+  const addSegment = () => {
+    onChange([...segments, createSegment(crypto.randomUUID(), `Сегмент ${segments.length + 1}`)]);
+  };
+
+  const loadSegment = (id: string) => {
+    const saved = library.segments.find((s) => s.id === id);
+    if (saved) onChange([...segments, saved]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {segments.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Без сегментов расчёт ведётся по всей ЦА. Добавьте сегменты, чтобы получить отдельную частоту и охват для каждого.
+        </p>
+      )}
+
+      {segments.map((segment) => {
+        const autoSize = getSegmentSize({ ...segment, size: null }, regionIds);
+        return (
+          <div key={segment.id} className="rounded-lg border p-4 space-y-4">
+            <div className="grid sm:grid-cols-[2fr_1fr_1fr_auto] gap-3 items-end">
+              <div className="space-y-2">
+                <Label htmlFor={`segment-name-${segment.id}`}>Название</Label>
+                <Input
+                  id={`segment-name-${segment.id}`}
+                  value={segment.name}
+                  onChange={(e) => updateSegment(segment.id, { name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`segment-size-${segment.id}`}>Размер, чел.</Label>
+                <Input
+                  id={`segment-size-${segment.id}`}
+                  type="number"
+                  min={0}
+                  placeholder={Math.round(autoSize).toLocaleString('ru-RU')}
+                  value={segment.size ?? ""}
+                  onChange={(e) => updateSegment(segment.id, { size: e.target.value === "" ? null : Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`segment-share-${segment.id}`}>Доля бюджета, %</Label>
+                <Input
+                  id={`segment-share-${segment.id}`}
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={segment.budgetShare}
+                  onChange={(e) => updateSegment(segment.id, { budgetShare: Number(e.target.value) })}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  title="Сохранить в библиотеку"
+                  onClick={() => library.saveSegment(segment)}
+                >
+                  <SaveIcon className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  title="Удалить сегмент"
+                  onClick={() => onChange(segments.filter((s) => s.id !== segment.id))}
+                >
+                  <Trash2Icon className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <AudienceFilterFields
+              filter={segment.filter}
+              onChange={(filter) => updateSegment(segment.id, { filter })}
+            />
+
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold">Параметры сегмента (пусто — как у кампании)</Label>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {(Object.keys(paramLabels) as Array<keyof SliderParams>).map((key) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`segment-${segment.id}-${key}`} className="text-xs font-normal">
+                      {paramLabels[key]}
+                    </Label>
+                    <Input
+                      id={`segment-${segment.id}-${key}`}
+                      type="number"
+                      min={PARAM_MIN}
+                      max={PARAM_MAX}
+                      step={0.5}
+                      placeholder={String(params[key])}
+                      value={segment.paramOverrides[key] ?? ""}
+                      onChange={(e) => updateOverride(segment, key, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-3">
+        <Button variant="outline" onClick={addSegment}>
+          <PlusIcon className="h-4 w-4 mr-2" />
+          Добавить сегмент
+        </Button>
+        {available.length > 0 && (
+          <Select value="" onValueChange={loadSegment}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Загрузить из библиотеки" />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map((saved) => (
+                <SelectItem key={saved.id} value={saved.id}>{saved.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    </div>
+  );
+}
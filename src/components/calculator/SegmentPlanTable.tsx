@@ -0,0 +1,63 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { SegmentPlan } from "@/lib/frequency-engine";
+
+interface SegmentPlanTableProps {
+  plan: SegmentPlan;
+  goalKPILabel: string;
+}
+
+/**
+ * Frequency, reach and goal KPI per audience segment, with the audience-weighted plan as the total
+ */
+export function SegmentPlanTable({ plan, goalKPILabel }: SegmentPlanTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Сегмент</TableHead>
+          <TableHead className="text-right">ЦА, чел.</TableHead>
+          <TableHead className="text-right">Бюджет, RUB</TableHead>
+          <TableHead className="text-right">Частота</TableHead>
+          <TableHead className="text-right">Охват 1+</TableHead>
+          <TableHead className="text-right">Охват N+</TableHead>
+          <TableHead className="text-right">{goalKPILabel}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {plan.segments.map(({ segment, size, budget, calculation }) => (
+          <TableRow key={segment.id}>
+            <TableCell className="font-medium">{segment.name}</TableCell>
+            <TableCell className="text-right font-mono">{Math.round(size).toLocaleString('ru-RU')}</TableCell>
+            <TableCell className="text-right font-mono">{Math.round(budget).toLocaleString('ru-RU')}</TableCell>
+            <TableCell className="text-right font-mono">{calculation.frequency.frequency.toFixed(1)}</TableCell>
+            <TableCell className="text-right font-mono">{calculation.coverage.reach1Plus.toFixed(1)}%</TableCell>
+            <TableCell className="text-right font-mono">
+              {calculation.coverage.value.toFixed(1)}%
+              <span className="text-xs text-muted-foreground ml-1">({calculation.coverage.threshold}+)</span>
+            </TableCell>
+            <TableCell className="text-right font-mono">{calculation.goalKPI.toFixed(1)}%</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter>
+        <TableRow>
+          <TableCell>Итого (взвешенно)</TableCell>
+          <TableCell className="text-right font-mono">{Math.round(plan.audience).toLocaleString('ru-RU')}</TableCell>
+          <TableCell className="text-right font-mono">{Math.round(plan.budget).toLocaleString('ru-RU')}</TableCell>
+          <TableCell className="text-right font-mono">{plan.frequency.toFixed(1)}</TableCell>
+          <TableCell className="text-right font-mono">{plan.reach1Plus.toFixed(1)}%</TableCell>
+          <TableCell className="text-right font-mono">{plan.effectiveReach.toFixed(1)}%</TableCell>
+          <TableCell className="text-right font-mono">{plan.goalKPI.toFixed(1)}%</TableCell>
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DEFAULT_SENSITIVITY_STEPS,
+  getSensitivitySwing,
+  sortByImpact,
+  type ForecastMetric,
+  type KpiBenchmarks,
+  type SensitivityFactor,
+  type SensitivityResult,
+  type SliderParams,
+} from "@/lib/frequency-engine";
+
+interface SensitivityTornadoChartProps {
+  sensitivity: SensitivityResult;
+  /** Labels of the six slider factors */
+  paramLabels: Record<keyof SliderParams, string>;
+  /** Label of the goal KPI (TOM, LTV growth ...) */
+  goalKPILabel: string;
+}
+
+const BENCHMARK_LABELS: Record<keyof KpiBenchmarks, string> = {
+  awareness_tom_base: "Бенчмарк TOM",
+  consideration_search_base: "Бенчмарк поисковых запросов",
+  conversion_uplift_base: "Бенчмарк конверсий",
+  retention_ltv_base: "Бенчмарк LTV",
+};
+
+const METRIC_UNITS: Record<ForecastMetric, string> = {
+  frequency: "",
+  coverage: " п.п.",
+  goalKPI: " п.п.",
+};
+
+const chartConfig = {
+  low: {
+    label: "Шаг вниз",
+    color: "#f97316",
+  },
+  high: {
+    label: "Шаг вверх",
+    color: "#2563eb",
+  },
+} satisfies ChartConfig;
+
+/**
+ * Tornado chart: change of frequency, coverage or the goal KPI when each input moves ±1 step
+ */
+export function SensitivityTornadoChart({ sensitivity, paramLabels, goalKPILabel }: SensitivityTornadoChartProps) {
+  const [metric, setMetric] = useState<ForecastMetric>("goalKPI");
+
+  const getLabel = (factor: SensitivityFactor) => {
+    switch (factor.kind) {
+      case "param": return paramLabels[factor.key as keyof SliderParams];
+      case "benchmark": return BENCHMARK_LABELS[factor.key as keyof KpiBenchmarks];
+      default: return "Бюджет";
+    }
+  };
+
+  const base = sensitivity.base[metric];
+  const data = sortByImpact(sensitivity.factors, metric)
+    .filter((factor) => getSensitivitySwing(factor, metric) > 1e-6)
+    .map((factor) => ({
+      label: getLabel(factor),
+      low: Number((factor.low[metric] - base).toFixed(2)),
+      high: Number((factor.high[metric] - base).toFixed(2)),
+    }));
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={metric} onValueChange={(value) => setMetric(value as ForecastMetric)}>
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="goalKPI">{goalKPILabel}</TabsTrigger>
+          <TabsTrigger value="coverage">Охват N+</TabsTrigger>
+          <TabsTrigger value="frequency">Частота</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {data.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          Ни один фактор не меняет этот показатель при текущих вводных
+        </p>
+      ) : (
+        <ChartContainer config={chartConfig} className="w-full aspect-auto" style={{ height: 48 + data.length * 36 }}>
+          <BarChart data={data} layout="vertical" stackOffset="sign" margin={{ top: 8, right: 16, bottom: 0, left: 8 }}>
+            <CartesianGrid horizontal={false} />
+            <XAxis type="number" tickLine={false} axisLine={false} unit={METRIC_UNITS[metric]} />
+            <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={180} />
+            <ReferenceLine x={0} stroke="#64748b" />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="low" stackId="swing" fill="var(--color-low)" radius={4} />
+            <Bar dataKey="high" stackId="swing" fill="var(--color-high)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Изменение относительно текущего значения ({base.toFixed(metric === "frequency" ? 1 : 2)}).
+        Шаг: ±{DEFAULT_SENSITIVITY_STEPS.param} балл для факторов, ±{DEFAULT_SENSITIVITY_STEPS.budget}% для
+        бюджета, ±{DEFAULT_SENSITIVITY_STEPS.benchmark}% для бенчмарков
+      </p>
+    </div>
+  );
+}
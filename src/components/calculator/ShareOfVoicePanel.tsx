@@ -0,0 +1,192 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { Competitor, ShareOfVoiceResult, ShareOfVoiceSettings, ShareOfVoiceUnit } from "@/lib/frequency-engine";
+import { PlusIcon, Trash2Icon, TrendingDownIcon, TrendingUpIcon } from "lucide-react";
+
+interface ShareOfVoicePanelProps {
+  settings: ShareOfVoiceSettings;
+  result: ShareOfVoiceResult;
+  brandName: string;
+  onChange: (settings: ShareOfVoiceSettings) => void;
+}
+
+/**
+ * Competitor spend or GRP, share of voice vs. share of market and the derived market saturation
+ */
+export function ShareOfVoicePanel({ settings, result, brandName, onChange }: ShareOfVoicePanelProps) {
+  const unitLabel = settings.unit === "spend" ? "Затраты, RUB" : "GRP";
+
+  const updateCompetitor = (id: string, patch: Partial<Competitor>) => {
+    onChange({
+      ...settings,
+      competitors: settings.competitors.map((c) => (c.id === id ? { ...c, ...patch } : c)),
+    });
+  };
+
+  const handleAdd = () => {
+    onChange({
+      ...settings,
+      competitors: [...settings.competitors, { id: crypto.randomUUID(), name: "", value: 0 }],
+    });
+  };
+
+  const handleRemove = (id: string) => {
+    onChange({ ...settings, competitors: settings.competitors.filter((c) => c.id !== id) });
+  };
+
+  const handleShareOfMarketChange = (value: string) => {
+    const parsed = parseFloat(value);
+    if (Number.isNaN(parsed)) return;
+    onChange({ ...settings, shareOfMarket: Math.min(100, Math.max(0, parsed)) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex items-center gap-3 flex-1">
+          <Switch
+            id="sov-enabled"
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+          />
+          <Label htmlFor="sov-enabled" className="cursor-pointer">
+            Определять насыщенность рынка по доле голоса
+          </Label>
+        </div>
+        <div className="space-y-2 md:w-48">
+          <Label htmlFor="sov-unit">Единица</Label>
+          <Select
+            value={settings.unit}
+            onValueChange={(value) => onChange({ ...settings, unit: value as ShareOfVoiceUnit })}
+          >
+            <SelectTrigger id="sov-unit">
+              <SelectValue placeholder="Выберите единицу" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="spend">Бюджет, RUB</SelectItem>
+              <SelectItem value="grp">GRP</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2 md:w-48">
+          <Label htmlFor="sov-som">Доля рынка бренда, %</Label>
+          <Input
+            id="sov-som"
+            type="number"
+            min={0}
+            max={100}
+            value={settings.shareOfMarket}
+            onChange={(e) => handleShareOfMarketChange(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Бренд</TableHead>
+            <TableHead>{unitLabel}</TableHead>
+            <TableHead className="text-right">SOV</TableHead>
+            <TableHead className="w-10" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          <TableRow>
+            <TableCell className="font-medium">{brandName || "Ваш бренд"}</TableCell>
+            <TableCell className="font-mono">{Math.round(result.ownValue).toLocaleString('ru-RU')}</TableCell>
+            <TableCell className="text-right font-mono">{result.shareOfVoice.toFixed(1)}%</TableCell>
+            <TableCell />
+          </TableRow>
+          {result.competitors.map((competitor) => (
+            <TableRow key={competitor.id}>
+              <TableCell>
+                <Input
+                  placeholder="Конкурент"
+                  value={competitor.name}
+                  onChange={(e) => updateCompetitor(competitor.id, { name: e.target.value })}
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-40"
+                  value={competitor.value}
+                  onChange={(e) => {
+                    const parsed = parseFloat(e.target.value);
+                    if (!Number.isNaN(parsed)) updateCompetitor(competitor.id, { value: parsed });
+                  }}
+                />
+              </TableCell>
+              <TableCell className="text-right font-mono">{competitor.share.toFixed(1)}%</TableCell>
+              <TableCell>
+                <Button variant="ghost" size="sm" onClick={() => handleRemove(competitor.id)}>
+                  <Trash2Icon className="w-4 h-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell>Рынок</TableCell>
+            <TableCell className="font-mono">{Math.round(result.marketTotal).toLocaleString('ru-RU')}</TableCell>
+            <TableCell className="text-right font-mono">100%</TableCell>
+            <TableCell />
+          </TableRow>
+        </TableFooter>
+      </Table>
+
+      <Button variant="outline" size="sm" onClick={handleAdd}>
+        <PlusIcon className="w-4 h-4 mr-2" />
+        Добавить конкурента
+      </Button>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="p-4 rounded-lg border bg-muted/50">
+          <div className="text-xs text-muted-foreground mb-1">SOV − SOM (excess SOV)</div>
+          <div className="text-2xl font-bold flex items-center gap-2">
+            {result.excessShareOfVoice >= 0
+              ? <TrendingUpIcon className="w-5 h-5 text-green-500" />
+              : <TrendingDownIcon className="w-5 h-5 text-orange-500" />}
+            {result.excessShareOfVoice >= 0 ? "+" : ""}{result.excessShareOfVoice.toFixed(1)} п.п.
+          </div>
+        </div>
+        <div className="p-4 rounded-lg border bg-muted/50">
+          <div className="text-xs text-muted-foreground mb-1">Ожидаемое изменение доли рынка за год</div>
+          <div className="text-2xl font-bold">
+            {result.expectedSomGrowth >= 0 ? "+" : ""}{result.expectedSomGrowth.toFixed(2)} п.п.
+          </div>
+          <div className="text-xs text-muted-foreground mt-1">+0,5 п.п. на каждые 10 п.п. excess SOV</div>
+        </div>
+        <div className="p-4 rounded-lg border bg-muted/50">
+          <div className="text-xs text-muted-foreground mb-1">Насыщенность рынка по SOV</div>
+          <div className="text-2xl font-bold">
+            {result.marketSaturation >= 0 ? "+" : ""}{result.marketSaturation.toFixed(1)}
+          </div>
+          <div className="text-xs text-muted-foreground mt-1">
+            {settings.enabled ? "применяется к расчёту частоты" : "не применяется: используется ползунок"}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
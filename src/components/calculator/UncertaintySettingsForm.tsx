@@ -0,0 +1,44 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { UncertaintySettings } from "@/lib/frequency-engine";
+
+interface UncertaintySettingsFormProps {
+  settings: UncertaintySettings;
+  onChange: (settings: UncertaintySettings) => void;
+}
+
+const FIELDS: Array<{ key: keyof UncertaintySettings; label: string; min: number; step: number }> = [
+  { key: "paramSigma", label: "σ факторов (баллы)", min: 0, step: 0.1 },
+  { key: "benchmarkSigma", label: "σ бенчмарков, %", min: 0, step: 5 },
+  { key: "cpmRange", label: "Разброс CPM, ±%", min: 0, step: 5 },
+  { key: "iterations", label: "Симуляций", min: 100, step: 500 },
+];
+
+/**
+ * Spread of each input for the Monte Carlo simulation
+ */
+export function UncertaintySettingsForm({ settings, onChange }: UncertaintySettingsFormProps) {
+  const handleChange = (key: keyof UncertaintySettings) => (value: string) => {
+    const parsed = parseFloat(value);
+    if (Number.isNaN(parsed) || parsed < 0) return;
+    onChange({ ...settings, [key]: parsed });
+  };
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      {FIELDS.map((field) => (
+        <div key={field.key} className="space-y-1">
+          <Label htmlFor={`uncertainty-${field.key}`} className="text-xs">{field.label}</Label>
+          <Input
+            id={`uncertainty-${field.key}`}
+            type="number"
+            min={field.min}
+            step={field.step}
+            value={settings[field.key]}
+            onChange={(e) => handleChange(field.key)(e.target.value)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
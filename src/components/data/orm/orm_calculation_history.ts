@@ -2,9 +2,16 @@
 // - Namespace: 01987547fc6c72ecb453bd2736bd4ea0.
 // - Entity Name: calculation_history.
 // - Entity ID: 102019ac98f66c17ed09c08582987cfae35.
-// - Entity Version: 102019acae7a686722a97950c130aec065f.
+// - Entity Version: 102019acae7a686722a97950c130aec065f (stale, see below).
 // - Task ID: 6929b4093eae0296d77f081a.
 // - Task Root ID: 69295b334865aaabce3c1a3e.
+//
+// NOT REGENERATED: the fields from frequency_model to kpi_baselines and the
+// Ostrow mode were added to this file and to ../schema/calculation_history.json
+// by hand. No new entity version is registered yet, so inserts with them
+// target the version above, which does not have them. Register the schema
+// change and replace this file and ../resource/calculation_history.json with
+// the generator output.
 
 import { DataType } from "./common";
 import type { Value, Page, Index, Filter, Sort, Data } from "./common";
@@ -23,10 +30,67 @@ export enum CalculationHistoryMode {
   Unspecified = 0,
   Manual = 1,
   AI = 2,
+  Ostrow = 3,
 }
 
 
 
+/**
+ * Interface for CalculationHistoryMediaMixChannel
+ * Budget allocation of a single media channel.
+ */
+export interface CalculationHistoryMediaMixChannel {
+  channel: string;
+  share: number;
+  cpm: number;
+  max_reach: number;
+  budget: number;
+}
+
+/**
+ * Interface for CalculationHistoryAIInsight
+ * AI estimate of a single parameter with its explanation.
+ */
+export interface CalculationHistoryAIInsight {
+  value: number;
+  insight: string;
+  source: string;
+  citations?: string[];
+}
+
+/**
+ * Interface for CalculationHistoryKpiBenchmarks
+ * KPI base rates the forecast was computed with.
+ */
+export interface CalculationHistoryKpiBenchmarks {
+  awareness_tom_base: number;
+  consideration_search_base: number;
+  conversion_uplift_base: number;
+  retention_ltv_base: number;
+}
+
+/**
+ * Interface for CalculationHistoryPlanning
+ * Buying model the forecast was computed with, at the prices actually used.
+ */
+export interface CalculationHistoryPlanning {
+  mode: string;
+  cpm: number;
+  cost_per_trp: number;
+  affinity: number;
+  universe?: number | null;
+}
+
+/**
+ * Interface for CalculationHistoryKpiBaselines
+ * Pre-campaign funnel figures of the search and conversion forecasts.
+ */
+export interface CalculationHistoryKpiBaselines {
+  search_volume: number;
+  conversion_rate: number;
+  sessions: number;
+}
+
 /**
  * Interface for CalculationHistoryModel
  * `id`, `data_creator`, `data_updater`, `create_time`, `update_time` should not be set when INSERTING data since backend will fill it automatically.
@@ -52,6 +116,22 @@ export interface CalculationHistoryModel {
   product_complexity: number;
   message_complexity: number;
   calculated_frequency: number;
+  frequency_model?: string | null;
+  frequency_min?: number | null;
+  frequency_max?: number | null;
+  ostrow_scores?: Record<string, number> | null;
+  media_mix?: CalculationHistoryMediaMixChannel[] | null;
+  duplication_method?: string | null;
+  coefficient_version?: number | null;
+  prompt_version?: number | null;
+  ai_insights?: Record<string, CalculationHistoryAIInsight> | null;
+  ta_capacity_rf?: number | null;
+  kpi_benchmarks?: CalculationHistoryKpiBenchmarks | null;
+  planning?: CalculationHistoryPlanning | null;
+  kpi_baselines?: CalculationHistoryKpiBaselines | null;
+  recommended_budget?: number | null;
+  budget_reasoning?: string | null;
+  ai_raw_response?: string | null;
 }
 
 /**
@@ -548,6 +628,22 @@ function CalculationHistoryModelToValues(data: CalculationHistoryModel): Value[]
     { key: 'product_complexity', type: DataType.number, defaultValue: 0 },
     { key: 'message_complexity', type: DataType.number, defaultValue: 0 },
     { key: 'calculated_frequency', type: DataType.number, defaultValue: 0 },
+    { key: 'frequency_model', type: DataType.string, defaultValue: null },
+    { key: 'frequency_min', type: DataType.number, defaultValue: null },
+    { key: 'frequency_max', type: DataType.number, defaultValue: null },
+    { key: 'ostrow_scores', type: DataType.object, defaultValue: null },
+    { key: 'media_mix', type: DataType.array, defaultValue: null },
+    { key: 'duplication_method', type: DataType.string, defaultValue: null },
+    { key: 'coefficient_version', type: DataType.number, defaultValue: null },
+    { key: 'prompt_version', type: DataType.number, defaultValue: null },
+    { key: 'ai_insights', type: DataType.object, defaultValue: null },
+    { key: 'ta_capacity_rf', type: DataType.number, defaultValue: null },
+    { key: 'kpi_benchmarks', type: DataType.object, defaultValue: null },
+    { key: 'planning', type: DataType.object, defaultValue: null },
+    { key: 'kpi_baselines', type: DataType.object, defaultValue: null },
+    { key: 'recommended_budget', type: DataType.number, defaultValue: null },
+    { key: 'budget_reasoning', type: DataType.string, defaultValue: null },
+    { key: 'ai_raw_response', type: DataType.string, defaultValue: null },
   ];
 
   return fieldMappings.map(({ key, type, defaultValue }) => {
@@ -617,6 +713,54 @@ function CalculationHistoryModelFromValues(values: Value[]): CalculationHistoryM
       case 'calculated_frequency':
         data.calculated_frequency = ParseValue(value, DataType.number) as number;
         break;
+      case 'frequency_model':
+        data.frequency_model = ParseValue(value, DataType.string) as string | null;
+        break;
+      case 'frequency_min':
+        data.frequency_min = ParseValue(value, DataType.number) as number | null;
+        break;
+      case 'frequency_max':
+        data.frequency_max = ParseValue(value, DataType.number) as number | null;
+        break;
+      case 'ostrow_scores':
+        data.ostrow_scores = ParseValue(value, DataType.object) as Record<string, number> | null;
+        break;
+      case 'media_mix':
+        data.media_mix = ParseValue(value, DataType.array) as CalculationHistoryMediaMixChannel[] | null;
+        break;
+      case 'duplication_method':
+        data.duplication_method = ParseValue(value, DataType.string) as string | null;
+        break;
+      case 'coefficient_version':
+        data.coefficient_version = ParseValue(value, DataType.number) as number | null;
+        break;
+      case 'prompt_version':
+        data.prompt_version = ParseValue(value, DataType.number) as number | null;
+        break;
+      case 'ai_insights':
+        data.ai_insights = ParseValue(value, DataType.object) as Record<string, CalculationHistoryAIInsight> | null;
+        break;
+      case 'ta_capacity_rf':
+        data.ta_capacity_rf = ParseValue(value, DataType.number) as number | null;
+        break;
+      case 'kpi_benchmarks':
+        data.kpi_benchmarks = ParseValue(value, DataType.object) as CalculationHistoryKpiBenchmarks | null;
+        break;
+      case 'planning':
+        data.planning = ParseValue(value, DataType.object) as CalculationHistoryPlanning | null;
+        break;
+      case 'kpi_baselines':
+        data.kpi_baselines = ParseValue(value, DataType.object) as CalculationHistoryKpiBaselines | null;
+        break;
+      case 'recommended_budget':
+        data.recommended_budget = ParseValue(value, DataType.number) as number | null;
+        break;
+      case 'budget_reasoning':
+        data.budget_reasoning = ParseValue(value, DataType.string) as string | null;
+        break;
+      case 'ai_raw_response':
+        data.ai_raw_response = ParseValue(value, DataType.string) as string | null;
+        break;
     }
   }
   
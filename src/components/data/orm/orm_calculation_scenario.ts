@@ -0,0 +1,686 @@
+// NOT generated: written by hand in the layout of the raf generator output.
+// The entity is not registered in the data store yet, so the Entity ID,
+// Entity Version and Task ID below are placeholders and every call fails;
+// the hooks then fall back to built-in defaults. Register the entity from
+// ../schema/calculation_scenario.json and replace this file and ../resource/calculation_scenario.json
+// with the generator output.
+// - Namespace: 01987547fc6c72ecb453bd2736bd4ea0.
+// - Entity Name: calculation_scenario.
+// - Entity ID (placeholder): 102019b4c3e7a91d5f27d8b3e61f0a4c283.
+// - Entity Version (placeholder): 102019b4c3e7a91d5f29f1c6a5b8e2d7304.
+// - Task ID (placeholder): 6929b4093eae0296d77f081a.
+// - Task Root ID: 69295b334865aaabce3c1a3e.
+
+import { DataType } from "./common";
+import type { Value, Page, Index, Filter, Sort, Data } from "./common";
+import { DataStoreClient, CreateData, CreateValue, ParseValue } from "./client";
+
+
+
+
+
+
+
+/**
+ * Interface for CalculationScenarioModel
+ * `id`, `data_creator`, `data_updater`, `create_time`, `update_time` should not be set when INSERTING data since backend will fill it automatically.
+ * `id` should keep the original value when setting (updating) data.
+ * `data_creator` and `data_updater` are read-only strings (user id) representing the creator and updater of the data record.
+ * `create_time` and `update_time` are read-only strings in the format of timestamp (10-digit).
+ */
+export interface CalculationScenarioModel {
+  id: string;
+  data_creator: string;
+  data_updater: string;
+  create_time: string;
+  update_time: string;
+  calculation_id?: string | null;
+  name: string;
+  brand_name?: string | null;
+  budget: number;
+  campaign_goal?: string | null;
+  brand_awareness: number;
+  market_saturation: number;
+  campaign_goal_param: number;
+  target_audience: number;
+  product_complexity: number;
+  message_complexity: number;
+  calculated_frequency: number;
+  coverage: number;
+  goal_kpi: number;
+}
+
+/**
+ * ORM class for CalculationScenario entity.
+ * It uses Singleton pattern to prevent re-initialization.
+ */
+export class CalculationScenarioORM {
+  private static instance: CalculationScenarioORM | null = null;
+  protected client: DataStoreClient;
+  protected namespace: string;
+  protected entityId: string;
+  protected entityName: string;
+  protected entityVersion: string;
+  protected taskId: string;
+  protected taskRootId: string;
+
+  private constructor() {
+    this.client = DataStoreClient.getInstance();
+    this.namespace = '01987547fc6c72ecb453bd2736bd4ea0';
+    this.entityId = '102019b4c3e7a91d5f27d8b3e61f0a4c283';
+    this.entityName = 'calculation_scenario';
+    this.entityVersion = '102019b4c3e7a91d5f29f1c6a5b8e2d7304';
+    this.taskId = '6929b4093eae0296d77f081a';
+    this.taskRootId = '69295b334865aaabce3c1a3e';
+  }
+
+  /**
+   * Get singleton instance of CalculationScenarioORM
+   */
+  public static getInstance(): CalculationScenarioORM {
+    if (!CalculationScenarioORM.instance) {
+      CalculationScenarioORM.instance = new CalculationScenarioORM();
+    }
+    
+    return CalculationScenarioORM.instance;
+  }
+
+  /**
+   * Get all CalculationScenario records
+   * This returns all data without pagination.
+   * To query data with page and filter conditions, use `list*()` instead.
+   */
+  async getAllCalculationScenario(): Promise<CalculationScenarioModel[]> {
+    const response = await this.client.all({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      format: {
+        structured: true
+      }
+    });
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Insert (create) new CalculationScenario record(s)
+   * DO NOT SET `id`, `data_creator`, `data_updater`, `create_time` and `update_time` since backend will fill it automatically.
+   * It will respond the inserted record(s), with `id`, `data_creator`, `data_updater`, `create_time` and `update_time` filled by backend.
+   */
+  async insertCalculationScenario(data: CalculationScenarioModel[]): Promise<CalculationScenarioModel[]> {
+    const structured = data.map((item) => CreateData(CalculationScenarioModelToValues(item)));
+    const response = await this.client.insert({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      batch: structured,
+      format: {
+        structured: true
+      }
+    });
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Purge all CalculationScenario records
+   */
+  async purgeAllCalculationScenario(): Promise<void> {
+    await this.client.purge({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      format: {
+        structured: true
+      }
+    });
+  }
+
+  /**
+   * List CalculationScenario records with filters
+   * This function provides search capabilities like filtering, sorting, pagination.
+   */
+  async listCalculationScenario(filter?: Filter, sort?: Sort, paginate?: Page): Promise<[CalculationScenarioModel[], Page]> {
+    const response = await this.client.list({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      filter: filter,
+      sort: sort,
+      paginate: paginate,
+      format: {
+        structured: true
+      }
+    });
+    return [this.resultToData(response.data?.values || []), response.data?.page || { number: 0, size: 0 }];
+  }
+
+
+  /**
+   * Get calculation_scenario by Id index
+   * This function gets data by index.
+   */
+  async getCalculationScenarioById(
+    id: string,
+  ): Promise<CalculationScenarioModel[]> {
+    const index = createIndexId(
+      id
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) calculation_scenario by Id index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setCalculationScenarioById(
+    id: string,
+    data: CalculationScenarioModel
+  ): Promise<CalculationScenarioModel[]> {
+    const index = createIndexId(
+      id
+    );
+
+    const values = CalculationScenarioModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete calculation_scenario by Id index
+   */
+  async deleteCalculationScenarioById(
+    id: string
+  ): Promise<void> {
+    const index = createIndexId(
+      id
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+  /**
+   * Get calculation_scenario by DataCreator index
+   * This function gets data by index.
+   */
+  async getCalculationScenarioByDataCreator(
+    data_creator: string,
+  ): Promise<CalculationScenarioModel[]> {
+    const index = createIndexDataCreator(
+      data_creator
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) calculation_scenario by DataCreator index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setCalculationScenarioByDataCreator(
+    data_creator: string,
+    data: CalculationScenarioModel
+  ): Promise<CalculationScenarioModel[]> {
+    const index = createIndexDataCreator(
+      data_creator
+    );
+
+    const values = CalculationScenarioModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete calculation_scenario by DataCreator index
+   */
+  async deleteCalculationScenarioByDataCreator(
+    data_creator: string
+  ): Promise<void> {
+    const index = createIndexDataCreator(
+      data_creator
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+  /**
+   * Get calculation_scenario by DataUpdater index
+   * This function gets data by index.
+   */
+  async getCalculationScenarioByDataUpdater(
+    data_updater: string,
+  ): Promise<CalculationScenarioModel[]> {
+    const index = createIndexDataUpdater(
+      data_updater
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) calculation_scenario by DataUpdater index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setCalculationScenarioByDataUpdater(
+    data_updater: string,
+    data: CalculationScenarioModel
+  ): Promise<CalculationScenarioModel[]> {
+    const index = createIndexDataUpdater(
+      data_updater
+    );
+
+    const values = CalculationScenarioModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete calculation_scenario by DataUpdater index
+   */
+  async deleteCalculationScenarioByDataUpdater(
+    data_updater: string
+  ): Promise<void> {
+    const index = createIndexDataUpdater(
+      data_updater
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+  /**
+   * Get calculation_scenario by CalculationId index
+   * This function gets data by index.
+   */
+  async getCalculationScenarioByCalculationId(
+    calculation_id: string,
+  ): Promise<CalculationScenarioModel[]> {
+    const index = createIndexCalculationId(
+      calculation_id
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) calculation_scenario by CalculationId index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setCalculationScenarioByCalculationId(
+    calculation_id: string,
+    data: CalculationScenarioModel
+  ): Promise<CalculationScenarioModel[]> {
+    const index = createIndexCalculationId(
+      calculation_id
+    );
+
+    const values = CalculationScenarioModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete calculation_scenario by CalculationId index
+   */
+  async deleteCalculationScenarioByCalculationId(
+    calculation_id: string
+  ): Promise<void> {
+    const index = createIndexCalculationId(
+      calculation_id
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+
+  /**
+   * Convert result data to CalculationScenarioModel data array
+   */
+  private resultToData(values: Data[]): CalculationScenarioModel[] {
+    return values.map((item: Data) => {
+      if (item.structured && item.structured.length > 0) {
+        return CalculationScenarioModelFromValues(item.structured);
+      }
+
+      if (item.serialized) {
+        try {
+          const parsedData = JSON.parse(item.serialized) as CalculationScenarioModel;
+          return parsedData;
+        } catch (error) {
+          console.error('Error parsing serialized CalculationScenarioModel data: ', error, item.serialized);
+          return null;
+        }
+      }
+
+      return null;
+    }).filter((item): item is CalculationScenarioModel => item !== null);
+  }
+}
+
+/**
+ * Convert CalculationScenarioModel data to Value array
+ */
+function CalculationScenarioModelToValues(data: CalculationScenarioModel): Value[] {
+  const fieldMappings = [
+    { key: 'id', type: DataType.string, defaultValue: '' },
+    { key: 'data_creator', type: DataType.string, defaultValue: '' },
+    { key: 'data_updater', type: DataType.string, defaultValue: '' },
+    { key: 'create_time', type: DataType.string, defaultValue: '' },
+    { key: 'update_time', type: DataType.string, defaultValue: '' },
+    { key: 'calculation_id', type: DataType.string, defaultValue: null },
+    { key: 'name', type: DataType.string, defaultValue: '' },
+    { key: 'brand_name', type: DataType.string, defaultValue: null },
+    { key: 'budget', type: DataType.number, defaultValue: 0 },
+    { key: 'campaign_goal', type: DataType.string, defaultValue: null },
+    { key: 'brand_awareness', type: DataType.number, defaultValue: 0 },
+    { key: 'market_saturation', type: DataType.number, defaultValue: 0 },
+    { key: 'campaign_goal_param', type: DataType.number, defaultValue: 0 },
+    { key: 'target_audience', type: DataType.number, defaultValue: 0 },
+    { key: 'product_complexity', type: DataType.number, defaultValue: 0 },
+    { key: 'message_complexity', type: DataType.number, defaultValue: 0 },
+    { key: 'calculated_frequency', type: DataType.number, defaultValue: 0 },
+    { key: 'coverage', type: DataType.number, defaultValue: 0 },
+    { key: 'goal_kpi', type: DataType.number, defaultValue: 0 },
+  ];
+
+  return fieldMappings.map(({ key, type, defaultValue }) => {
+    const value = data[key as keyof CalculationScenarioModel] ?? defaultValue;
+    return CreateValue(type, value, key);
+  });
+}
+
+/**
+ * Convert Value array to CalculationScenarioModel data
+ */
+function CalculationScenarioModelFromValues(values: Value[]): CalculationScenarioModel {
+  const data: Partial<CalculationScenarioModel> = {};
+  
+  for (const value of values) {
+    if (!value.name) continue;
+    
+    switch (value.name) {
+      case 'id':
+        data.id = ParseValue(value, DataType.string) as string;
+        break;
+      case 'data_creator':
+        data.data_creator = ParseValue(value, DataType.string) as string;
+        break;
+      case 'data_updater':
+        data.data_updater = ParseValue(value, DataType.string) as string;
+        break;
+      case 'create_time':
+        data.create_time = ParseValue(value, DataType.string) as string;
+        break;
+      case 'update_time':
+        data.update_time = ParseValue(value, DataType.string) as string;
+        break;
+      case 'calculation_id':
+        data.calculation_id = ParseValue(value, DataType.string) as string | null;
+        break;
+      case 'name':
+        data.name = ParseValue(value, DataType.string) as string;
+        break;
+      case 'brand_name':
+        data.brand_name = ParseValue(value, DataType.string) as string | null;
+        break;
+      case 'budget':
+        data.budget = ParseValue(value, DataType.number) as number;
+        break;
+      case 'campaign_goal':
+        data.campaign_goal = ParseValue(value, DataType.string) as string | null;
+        break;
+      case 'brand_awareness':
+        data.brand_awareness = ParseValue(value, DataType.number) as number;
+        break;
+      case 'market_saturation':
+        data.market_saturation = ParseValue(value, DataType.number) as number;
+        break;
+      case 'campaign_goal_param':
+        data.campaign_goal_param = ParseValue(value, DataType.number) as number;
+        break;
+      case 'target_audience':
+        data.target_audience = ParseValue(value, DataType.number) as number;
+        break;
+      case 'product_complexity':
+        data.product_complexity = ParseValue(value, DataType.number) as number;
+        break;
+      case 'message_complexity':
+        data.message_complexity = ParseValue(value, DataType.number) as number;
+        break;
+      case 'calculated_frequency':
+        data.calculated_frequency = ParseValue(value, DataType.number) as number;
+        break;
+      case 'coverage':
+        data.coverage = ParseValue(value, DataType.number) as number;
+        break;
+      case 'goal_kpi':
+        data.goal_kpi = ParseValue(value, DataType.number) as number;
+        break;
+    }
+  }
+  
+  return data as CalculationScenarioModel;
+}
+
+
+/**
+ * Create index for Id fields
+ */
+function createIndexId(
+  id: string
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.string, id, 'id'),
+  ];
+
+  return {
+    fields: ['id'],
+    values
+  };
+}
+/**
+ * Create index for DataCreator fields
+ */
+function createIndexDataCreator(
+  data_creator: string
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.string, data_creator, 'data_creator'),
+  ];
+
+  return {
+    fields: ['data_creator'],
+    values
+  };
+}
+/**
+ * Create index for DataUpdater fields
+ */
+function createIndexDataUpdater(
+  data_updater: string
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.string, data_updater, 'data_updater'),
+  ];
+
+  return {
+    fields: ['data_updater'],
+    values
+  };
+}
+/**
+ * Create index for CalculationId fields
+ */
+function createIndexCalculationId(
+  calculation_id: string
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.string, calculation_id, 'calculation_id'),
+  ];
+
+  return {
+    fields: ['calculation_id'],
+    values
+  };
+}
+
+export default CalculationScenarioORM;
\ No newline at end of file
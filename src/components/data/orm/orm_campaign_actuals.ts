@@ -0,0 +1,651 @@
+// NOT generated: written by hand in the layout of the raf generator output.
+// The entity is not registered in the data store yet, so the Entity ID,
+// Entity Version and Task ID below are placeholders and every call fails;
+// the hooks then fall back to built-in defaults. Register the entity from
+// ../schema/campaign_actuals.json and replace this file and ../resource/campaign_actuals.json
+// with the generator output.
+// - Namespace: 01987547fc6c72ecb453bd2736bd4ea0.
+// - Entity Name: campaign_actuals.
+// - Entity ID (placeholder): 102019b4a7e15c38f2d09e6b1a47c3d8e52.
+// - Entity Version (placeholder): 102019b4a7e15c38f2d7a3c90e5b16f4d28.
+// - Task ID (placeholder): 6929b4093eae0296d77f081a.
+// - Task Root ID: 69295b334865aaabce3c1a3e.
+
+import { DataType } from "./common";
+import type { Value, Page, Index, Filter, Sort, Data } from "./common";
+import { DataStoreClient, CreateData, CreateValue, ParseValue } from "./client";
+
+
+
+
+
+
+
+/**
+ * Interface for CampaignActualsModel
+ * `id`, `data_creator`, `data_updater`, `create_time`, `update_time` should not be set when INSERTING data since backend will fill it automatically.
+ * `id` should keep the original value when setting (updating) data.
+ * `data_creator` and `data_updater` are read-only strings (user id) representing the creator and updater of the data record.
+ * `create_time` and `update_time` are read-only strings in the format of timestamp (10-digit).
+ */
+export interface CampaignActualsModel {
+  id: string;
+  data_creator: string;
+  data_updater: string;
+  create_time: string;
+  update_time: string;
+  calculation_id: string;
+  study_name?: string | null;
+  measured_reach?: number | null;
+  tom_lift?: number | null;
+  conversion_lift?: number | null;
+  ltv_change?: number | null;
+  search_lift?: number | null;
+}
+
+/**
+ * ORM class for CampaignActuals entity.
+ * It uses Singleton pattern to prevent re-initialization.
+ */
+export class CampaignActualsORM {
+  private static instance: CampaignActualsORM | null = null;
+  protected client: DataStoreClient;
+  protected namespace: string;
+  protected entityId: string;
+  protected entityName: string;
+  protected entityVersion: string;
+  protected taskId: string;
+  protected taskRootId: string;
+
+  private constructor() {
+    this.client = DataStoreClient.getInstance();
+    this.namespace = '01987547fc6c72ecb453bd2736bd4ea0';
+    this.entityId = '102019b4a7e15c38f2d09e6b1a47c3d8e52';
+    this.entityName = 'campaign_actuals';
+    this.entityVersion = '102019b4a7e15c38f2d7a3c90e5b16f4d28';
+    this.taskId = '6929b4093eae0296d77f081a';
+    this.taskRootId = '69295b334865aaabce3c1a3e';
+  }
+
+  /**
+   * Get singleton instance of CampaignActualsORM
+   */
+  public static getInstance(): CampaignActualsORM {
+    if (!CampaignActualsORM.instance) {
+      CampaignActualsORM.instance = new CampaignActualsORM();
+    }
+    
+    return CampaignActualsORM.instance;
+  }
+
+  /**
+   * Get all CampaignActuals records
+   * This returns all data without pagination.
+   * To query data with page and filter conditions, use `list*()` instead.
+   */
+  async getAllCampaignActuals(): Promise<CampaignActualsModel[]> {
+    const response = await this.client.all({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      format: {
+        structured: true
+      }
+    });
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Insert (create) new CampaignActuals record(s)
+   * DO NOT SET `id`, `data_creator`, `data_updater`, `create_time` and `update_time` since backend will fill it automatically.
+   * It will respond the inserted record(s), with `id`, `data_creator`, `data_updater`, `create_time` and `update_time` filled by backend.
+   */
+  async insertCampaignActuals(data: CampaignActualsModel[]): Promise<CampaignActualsModel[]> {
+    const structured = data.map((item) => CreateData(CampaignActualsModelToValues(item)));
+    const response = await this.client.insert({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      batch: structured,
+      format: {
+        structured: true
+      }
+    });
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Purge all CampaignActuals records
+   */
+  async purgeAllCampaignActuals(): Promise<void> {
+    await this.client.purge({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      format: {
+        structured: true
+      }
+    });
+  }
+
+  /**
+   * List CampaignActuals records with filters
+   * This function provides search capabilities like filtering, sorting, pagination.
+   */
+  async listCampaignActuals(filter?: Filter, sort?: Sort, paginate?: Page): Promise<[CampaignActualsModel[], Page]> {
+    const response = await this.client.list({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      filter: filter,
+      sort: sort,
+      paginate: paginate,
+      format: {
+        structured: true
+      }
+    });
+    return [this.resultToData(response.data?.values || []), response.data?.page || { number: 0, size: 0 }];
+  }
+
+
+  /**
+   * Get campaign_actuals by Id index
+   * This function gets data by index.
+   */
+  async getCampaignActualsById(
+    id: string,
+  ): Promise<CampaignActualsModel[]> {
+    const index = createIndexId(
+      id
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) campaign_actuals by Id index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setCampaignActualsById(
+    id: string,
+    data: CampaignActualsModel
+  ): Promise<CampaignActualsModel[]> {
+    const index = createIndexId(
+      id
+    );
+
+    const values = CampaignActualsModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete campaign_actuals by Id index
+   */
+  async deleteCampaignActualsById(
+    id: string
+  ): Promise<void> {
+    const index = createIndexId(
+      id
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+  /**
+   * Get campaign_actuals by DataCreator index
+   * This function gets data by index.
+   */
+  async getCampaignActualsByDataCreator(
+    data_creator: string,
+  ): Promise<CampaignActualsModel[]> {
+    const index = createIndexDataCreator(
+      data_creator
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) campaign_actuals by DataCreator index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setCampaignActualsByDataCreator(
+    data_creator: string,
+    data: CampaignActualsModel
+  ): Promise<CampaignActualsModel[]> {
+    const index = createIndexDataCreator(
+      data_creator
+    );
+
+    const values = CampaignActualsModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete campaign_actuals by DataCreator index
+   */
+  async deleteCampaignActualsByDataCreator(
+    data_creator: string
+  ): Promise<void> {
+    const index = createIndexDataCreator(
+      data_creator
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+  /**
+   * Get campaign_actuals by DataUpdater index
+   * This function gets data by index.
+   */
+  async getCampaignActualsByDataUpdater(
+    data_updater: string,
+  ): Promise<CampaignActualsModel[]> {
+    const index = createIndexDataUpdater(
+      data_updater
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) campaign_actuals by DataUpdater index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setCampaignActualsByDataUpdater(
+    data_updater: string,
+    data: CampaignActualsModel
+  ): Promise<CampaignActualsModel[]> {
+    const index = createIndexDataUpdater(
+      data_updater
+    );
+
+    const values = CampaignActualsModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete campaign_actuals by DataUpdater index
+   */
+  async deleteCampaignActualsByDataUpdater(
+    data_updater: string
+  ): Promise<void> {
+    const index = createIndexDataUpdater(
+      data_updater
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+  /**
+   * Get campaign_actuals by CalculationId index
+   * This function gets data by index.
+   */
+  async getCampaignActualsByCalculationId(
+    calculation_id: string,
+  ): Promise<CampaignActualsModel[]> {
+    const index = createIndexCalculationId(
+      calculation_id
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) campaign_actuals by CalculationId index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setCampaignActualsByCalculationId(
+    calculation_id: string,
+    data: CampaignActualsModel
+  ): Promise<CampaignActualsModel[]> {
+    const index = createIndexCalculationId(
+      calculation_id
+    );
+
+    const values = CampaignActualsModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete campaign_actuals by CalculationId index
+   */
+  async deleteCampaignActualsByCalculationId(
+    calculation_id: string
+  ): Promise<void> {
+    const index = createIndexCalculationId(
+      calculation_id
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+
+  /**
+   * Convert result data to CampaignActualsModel data array
+   */
+  private resultToData(values: Data[]): CampaignActualsModel[] {
+    return values.map((item: Data) => {
+      if (item.structured && item.structured.length > 0) {
+        return CampaignActualsModelFromValues(item.structured);
+      }
+
+      if (item.serialized) {
+        try {
+          const parsedData = JSON.parse(item.serialized) as CampaignActualsModel;
+          return parsedData;
+        } catch (error) {
+          console.error('Error parsing serialized CampaignActualsModel data: ', error, item.serialized);
+          return null;
+        }
+      }
+
+      return null;
+    }).filter((item): item is CampaignActualsModel => item !== null);
+  }
+}
+
+/**
+ * Convert CampaignActualsModel data to Value array
+ */
+function CampaignActualsModelToValues(data: CampaignActualsModel): Value[] {
+  const fieldMappings = [
+    { key: 'id', type: DataType.string, defaultValue: '' },
+    { key: 'data_creator', type: DataType.string, defaultValue: '' },
+    { key: 'data_updater', type: DataType.string, defaultValue: '' },
+    { key: 'create_time', type: DataType.string, defaultValue: '' },
+    { key: 'update_time', type: DataType.string, defaultValue: '' },
+    { key: 'calculation_id', type: DataType.string, defaultValue: '' },
+    { key: 'study_name', type: DataType.string, defaultValue: null },
+    { key: 'measured_reach', type: DataType.number, defaultValue: null },
+    { key: 'tom_lift', type: DataType.number, defaultValue: null },
+    { key: 'conversion_lift', type: DataType.number, defaultValue: null },
+    { key: 'ltv_change', type: DataType.number, defaultValue: null },
+    { key: 'search_lift', type: DataType.number, defaultValue: null },
+  ];
+
+  return fieldMappings.map(({ key, type, defaultValue }) => {
+    const value = data[key as keyof CampaignActualsModel] ?? defaultValue;
+    return CreateValue(type, value, key);
+  });
+}
+
+/**
+ * Convert Value array to CampaignActualsModel data
+ */
+function CampaignActualsModelFromValues(values: Value[]): CampaignActualsModel {
+  const data: Partial<CampaignActualsModel> = {};
+  
+  for (const value of values) {
+    if (!value.name) continue;
+    
+    switch (value.name) {
+      case 'id':
+        data.id = ParseValue(value, DataType.string) as string;
+        break;
+      case 'data_creator':
+        data.data_creator = ParseValue(value, DataType.string) as string;
+        break;
+      case 'data_updater':
+        data.data_updater = ParseValue(value, DataType.string) as string;
+        break;
+      case 'create_time':
+        data.create_time = ParseValue(value, DataType.string) as string;
+        break;
+      case 'update_time':
+        data.update_time = ParseValue(value, DataType.string) as string;
+        break;
+      case 'calculation_id':
+        data.calculation_id = ParseValue(value, DataType.string) as string;
+        break;
+      case 'study_name':
+        data.study_name = ParseValue(value, DataType.string) as string | null;
+        break;
+      case 'measured_reach':
+        data.measured_reach = ParseValue(value, DataType.number) as number | null;
+        break;
+      case 'tom_lift':
+        data.tom_lift = ParseValue(value, DataType.number) as number | null;
+        break;
+      case 'conversion_lift':
+        data.conversion_lift = ParseValue(value, DataType.number) as number | null;
+        break;
+      case 'ltv_change':
+        data.ltv_change = ParseValue(value, DataType.number) as number | null;
+        break;
+      case 'search_lift':
+        data.search_lift = ParseValue(value, DataType.number) as number | null;
+        break;
+    }
+  }
+  
+  return data as CampaignActualsModel;
+}
+
+
+/**
+ * Create index for Id fields
+ */
+function createIndexId(
+  id: string
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.string, id, 'id'),
+  ];
+
+  return {
+    fields: ['id'],
+    values
+  };
+}
+/**
+ * Create index for DataCreator fields
+ */
+function createIndexDataCreator(
+  data_creator: string
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.string, data_creator, 'data_creator'),
+  ];
+
+  return {
+    fields: ['data_creator'],
+    values
+  };
+}
+/**
+ * Create index for DataUpdater fields
+ */
+function createIndexDataUpdater(
+  data_updater: string
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.string, data_updater, 'data_updater'),
+  ];
+
+  return {
+    fields: ['data_updater'],
+    values
+  };
+}
+/**
+ * Create index for CalculationId fields
+ */
+function createIndexCalculationId(
+  calculation_id: string
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.string, calculation_id, 'calculation_id'),
+  ];
+
+  return {
+    fields: ['calculation_id'],
+    values
+  };
+}
+
+export default CampaignActualsORM;
\ No newline at end of file
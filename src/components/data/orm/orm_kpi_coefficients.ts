@@ -0,0 +1,671 @@
+// NOT generated: written by hand in the layout of the raf generator output.
+// The entity is not registered in the data store yet, so the Entity ID,
+// Entity Version and Task ID below are placeholders and every call fails;
+// the hooks then fall back to built-in defaults. Register the entity from
+// ../schema/kpi_coefficients.json and replace this file and ../resource/kpi_coefficients.json
+// with the generator output.
+// - Namespace: 01987547fc6c72ecb453bd2736bd4ea0.
+// - Entity Name: kpi_coefficients.
+// - Entity ID (placeholder): 102019b3f1c27a64d1e08c5a9f2b36e7d41.
+// - Entity Version (placeholder): 102019b3f1c27a64d1e65b07c3a18e4f920.
+// - Task ID (placeholder): 6929b4093eae0296d77f081a.
+// - Task Root ID: 69295b334865aaabce3c1a3e.
+
+import { DataType } from "./common";
+import type { Value, Page, Index, Filter, Sort, Data } from "./common";
+import { DataStoreClient, CreateData, CreateValue, ParseValue } from "./client";
+
+
+
+
+
+
+
+/**
+ * Interface for KpiCoefficientsModel
+ * `id`, `data_creator`, `data_updater`, `create_time`, `update_time` should not be set when INSERTING data since backend will fill it automatically.
+ * `id` should keep the original value when setting (updating) data.
+ * `data_creator` and `data_updater` are read-only strings (user id) representing the creator and updater of the data record.
+ * `create_time` and `update_time` are read-only strings in the format of timestamp (10-digit).
+ */
+export interface KpiCoefficientsModel {
+  id: string;
+  data_creator: string;
+  data_updater: string;
+  create_time: string;
+  update_time: string;
+  version: number;
+  label?: string | null;
+  tom_scale: number;
+  tom_frequency_slope: number;
+  ltv_scale: number;
+  ltv_frequency_slope: number;
+  search_scale?: number | null;
+  conversion_scale?: number | null;
+  tom_budget_reference?: number | null;
+  ltv_saturation_penalty?: number | null;
+  ltv_budget_reference?: number | null;
+}
+
+/**
+ * ORM class for KpiCoefficients entity.
+ * It uses Singleton pattern to prevent re-initialization.
+ */
+export class KpiCoefficientsORM {
+  private static instance: KpiCoefficientsORM | null = null;
+  protected client: DataStoreClient;
+  protected namespace: string;
+  protected entityId: string;
+  protected entityName: string;
+  protected entityVersion: string;
+  protected taskId: string;
+  protected taskRootId: string;
+
+  private constructor() {
+    this.client = DataStoreClient.getInstance();
+    this.namespace = '01987547fc6c72ecb453bd2736bd4ea0';
+    this.entityId = '102019b3f1c27a64d1e08c5a9f2b36e7d41';
+    this.entityName = 'kpi_coefficients';
+    this.entityVersion = '102019b3f1c27a64d1e65b07c3a18e4f920';
+    this.taskId = '6929b4093eae0296d77f081a';
+    this.taskRootId = '69295b334865aaabce3c1a3e';
+  }
+
+  /**
+   * Get singleton instance of KpiCoefficientsORM
+   */
+  public static getInstance(): KpiCoefficientsORM {
+    if (!KpiCoefficientsORM.instance) {
+      KpiCoefficientsORM.instance = new KpiCoefficientsORM();
+    }
+    
+    return KpiCoefficientsORM.instance;
+  }
+
+  /**
+   * Get all KpiCoefficients records
+   * This returns all data without pagination.
+   * To query data with page and filter conditions, use `list*()` instead.
+   */
+  async getAllKpiCoefficients(): Promise<KpiCoefficientsModel[]> {
+    const response = await this.client.all({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      format: {
+        structured: true
+      }
+    });
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Insert (create) new KpiCoefficients record(s)
+   * DO NOT SET `id`, `data_creator`, `data_updater`, `create_time` and `update_time` since backend will fill it automatically.
+   * It will respond the inserted record(s), with `id`, `data_creator`, `data_updater`, `create_time` and `update_time` filled by backend.
+   */
+  async insertKpiCoefficients(data: KpiCoefficientsModel[]): Promise<KpiCoefficientsModel[]> {
+    const structured = data.map((item) => CreateData(KpiCoefficientsModelToValues(item)));
+    const response = await this.client.insert({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      batch: structured,
+      format: {
+        structured: true
+      }
+    });
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Purge all KpiCoefficients records
+   */
+  async purgeAllKpiCoefficients(): Promise<void> {
+    await this.client.purge({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      format: {
+        structured: true
+      }
+    });
+  }
+
+  /**
+   * List KpiCoefficients records with filters
+   * This function provides search capabilities like filtering, sorting, pagination.
+   */
+  async listKpiCoefficients(filter?: Filter, sort?: Sort, paginate?: Page): Promise<[KpiCoefficientsModel[], Page]> {
+    const response = await this.client.list({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      filter: filter,
+      sort: sort,
+      paginate: paginate,
+      format: {
+        structured: true
+      }
+    });
+    return [this.resultToData(response.data?.values || []), response.data?.page || { number: 0, size: 0 }];
+  }
+
+
+  /**
+   * Get kpi_coefficients by Id index
+   * This function gets data by index.
+   */
+  async getKpiCoefficientsById(
+    id: string,
+  ): Promise<KpiCoefficientsModel[]> {
+    const index = createIndexId(
+      id
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) kpi_coefficients by Id index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setKpiCoefficientsById(
+    id: string,
+    data: KpiCoefficientsModel
+  ): Promise<KpiCoefficientsModel[]> {
+    const index = createIndexId(
+      id
+    );
+
+    const values = KpiCoefficientsModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete kpi_coefficients by Id index
+   */
+  async deleteKpiCoefficientsById(
+    id: string
+  ): Promise<void> {
+    const index = createIndexId(
+      id
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+  /**
+   * Get kpi_coefficients by DataCreator index
+   * This function gets data by index.
+   */
+  async getKpiCoefficientsByDataCreator(
+    data_creator: string,
+  ): Promise<KpiCoefficientsModel[]> {
+    const index = createIndexDataCreator(
+      data_creator
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) kpi_coefficients by DataCreator index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setKpiCoefficientsByDataCreator(
+    data_creator: string,
+    data: KpiCoefficientsModel
+  ): Promise<KpiCoefficientsModel[]> {
+    const index = createIndexDataCreator(
+      data_creator
+    );
+
+    const values = KpiCoefficientsModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete kpi_coefficients by DataCreator index
+   */
+  async deleteKpiCoefficientsByDataCreator(
+    data_creator: string
+  ): Promise<void> {
+    const index = createIndexDataCreator(
+      data_creator
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+  /**
+   * Get kpi_coefficients by DataUpdater index
+   * This function gets data by index.
+   */
+  async getKpiCoefficientsByDataUpdater(
+    data_updater: string,
+  ): Promise<KpiCoefficientsModel[]> {
+    const index = createIndexDataUpdater(
+      data_updater
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) kpi_coefficients by DataUpdater index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setKpiCoefficientsByDataUpdater(
+    data_updater: string,
+    data: KpiCoefficientsModel
+  ): Promise<KpiCoefficientsModel[]> {
+    const index = createIndexDataUpdater(
+      data_updater
+    );
+
+    const values = KpiCoefficientsModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete kpi_coefficients by DataUpdater index
+   */
+  async deleteKpiCoefficientsByDataUpdater(
+    data_updater: string
+  ): Promise<void> {
+    const index = createIndexDataUpdater(
+      data_updater
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+  /**
+   * Get kpi_coefficients by Version index
+   * This function gets data by index.
+   */
+  async getKpiCoefficientsByVersion(
+    version: number,
+  ): Promise<KpiCoefficientsModel[]> {
+    const index = createIndexVersion(
+      version
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) kpi_coefficients by Version index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setKpiCoefficientsByVersion(
+    version: number,
+    data: KpiCoefficientsModel
+  ): Promise<KpiCoefficientsModel[]> {
+    const index = createIndexVersion(
+      version
+    );
+
+    const values = KpiCoefficientsModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete kpi_coefficients by Version index
+   */
+  async deleteKpiCoefficientsByVersion(
+    version: number
+  ): Promise<void> {
+    const index = createIndexVersion(
+      version
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+
+  /**
+   * Convert result data to KpiCoefficientsModel data array
+   */
+  private resultToData(values: Data[]): KpiCoefficientsModel[] {
+    return values.map((item: Data) => {
+      if (item.structured && item.structured.length > 0) {
+        return KpiCoefficientsModelFromValues(item.structured);
+      }
+
+      if (item.serialized) {
+        try {
+          const parsedData = JSON.parse(item.serialized) as KpiCoefficientsModel;
+          return parsedData;
+        } catch (error) {
+          console.error('Error parsing serialized KpiCoefficientsModel data: ', error, item.serialized);
+          return null;
+        }
+      }
+
+      return null;
+    }).filter((item): item is KpiCoefficientsModel => item !== null);
+  }
+}
+
+/**
+ * Convert KpiCoefficientsModel data to Value array
+ */
+function KpiCoefficientsModelToValues(data: KpiCoefficientsModel): Value[] {
+  const fieldMappings = [
+    { key: 'id', type: DataType.string, defaultValue: '' },
+    { key: 'data_creator', type: DataType.string, defaultValue: '' },
+    { key: 'data_updater', type: DataType.string, defaultValue: '' },
+    { key: 'create_time', type: DataType.string, defaultValue: '' },
+    { key: 'update_time', type: DataType.string, defaultValue: '' },
+    { key: 'version', type: DataType.number, defaultValue: 0 },
+    { key: 'label', type: DataType.string, defaultValue: null },
+    { key: 'tom_scale', type: DataType.number, defaultValue: 0 },
+    { key: 'tom_frequency_slope', type: DataType.number, defaultValue: 0 },
+    { key: 'ltv_scale', type: DataType.number, defaultValue: 0 },
+    { key: 'ltv_frequency_slope', type: DataType.number, defaultValue: 0 },
+    { key: 'search_scale', type: DataType.number, defaultValue: null },
+    { key: 'conversion_scale', type: DataType.number, defaultValue: null },
+    { key: 'tom_budget_reference', type: DataType.number, defaultValue: null },
+    { key: 'ltv_saturation_penalty', type: DataType.number, defaultValue: null },
+    { key: 'ltv_budget_reference', type: DataType.number, defaultValue: null },
+  ];
+
+  return fieldMappings.map(({ key, type, defaultValue }) => {
+    const value = data[key as keyof KpiCoefficientsModel] ?? defaultValue;
+    return CreateValue(type, value, key);
+  });
+}
+
+/**
+ * Convert Value array to KpiCoefficientsModel data
+ */
+function KpiCoefficientsModelFromValues(values: Value[]): KpiCoefficientsModel {
+  const data: Partial<KpiCoefficientsModel> = {};
+  
+  for (const value of values) {
+    if (!value.name) continue;
+    
+    switch (value.name) {
+      case 'id':
+        data.id = ParseValue(value, DataType.string) as string;
+        break;
+      case 'data_creator':
+        data.data_creator = ParseValue(value, DataType.string) as string;
+        break;
+      case 'data_updater':
+        data.data_updater = ParseValue(value, DataType.string) as string;
+        break;
+      case 'create_time':
+        data.create_time = ParseValue(value, DataType.string) as string;
+        break;
+      case 'update_time':
+        data.update_time = ParseValue(value, DataType.string) as string;
+        break;
+      case 'version':
+        data.version = ParseValue(value, DataType.number) as number;
+        break;
+      case 'label':
+        data.label = ParseValue(value, DataType.string) as string | null;
+        break;
+      case 'tom_scale':
+        data.tom_scale = ParseValue(value, DataType.number) as number;
+        break;
+      case 'tom_frequency_slope':
+        data.tom_frequency_slope = ParseValue(value, DataType.number) as number;
+        break;
+      case 'ltv_scale':
+        data.ltv_scale = ParseValue(value, DataType.number) as number;
+        break;
+      case 'ltv_frequency_slope':
+        data.ltv_frequency_slope = ParseValue(value, DataType.number) as number;
+        break;
+      case 'search_scale':
+        data.search_scale = ParseValue(value, DataType.number) as number | null;
+        break;
+      case 'conversion_scale':
+        data.conversion_scale = ParseValue(value, DataType.number) as number | null;
+        break;
+      case 'tom_budget_reference':
+        data.tom_budget_reference = ParseValue(value, DataType.number) as number | null;
+        break;
+      case 'ltv_saturation_penalty':
+        data.ltv_saturation_penalty = ParseValue(value, DataType.number) as number | null;
+        break;
+      case 'ltv_budget_reference':
+        data.ltv_budget_reference = ParseValue(value, DataType.number) as number | null;
+        break;
+    }
+  }
+  
+  return data as KpiCoefficientsModel;
+}
+
+
+/**
+ * Create index for Id fields
+ */
+function createIndexId(
+  id: string
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.string, id, 'id'),
+  ];
+
+  return {
+    fields: ['id'],
+    values
+  };
+}
+/**
+ * Create index for DataCreator fields
+ */
+function createIndexDataCreator(
+  data_creator: string
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.string, data_creator, 'data_creator'),
+  ];
+
+  return {
+    fields: ['data_creator'],
+    values
+  };
+}
+/**
+ * Create index for DataUpdater fields
+ */
+function createIndexDataUpdater(
+  data_updater: string
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.string, data_updater, 'data_updater'),
+  ];
+
+  return {
+    fields: ['data_updater'],
+    values
+  };
+}
+/**
+ * Create index for Version fields
+ */
+function createIndexVersion(
+  version: number
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.number, version, 'version'),
+  ];
+
+  return {
+    fields: ['version'],
+    values
+  };
+}
+
+export default KpiCoefficientsORM;
\ No newline at end of file
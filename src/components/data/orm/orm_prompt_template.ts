@@ -0,0 +1,636 @@
+// NOT generated: written by hand in the layout of the raf generator output.
+// The entity is not registered in the data store yet, so the Entity ID,
+// Entity Version and Task ID below are placeholders and every call fails;
+// the hooks then fall back to built-in defaults. Register the entity from
+// ../schema/prompt_template.json and replace this file and ../resource/prompt_template.json
+// with the generator output.
+// - Namespace: 01987547fc6c72ecb453bd2736bd4ea0.
+// - Entity Name: prompt_template.
+// - Entity ID (placeholder): 102019b5d2a84c71e3f2c7b15a9e04f6d81.
+// - Entity Version (placeholder): 102019b5d2a84c71e3f39d06e4b72a5c1f8.
+// - Task ID (placeholder): 6929b4093eae0296d77f081a.
+// - Task Root ID: 69295b334865aaabce3c1a3e.
+
+import { DataType } from "./common";
+import type { Value, Page, Index, Filter, Sort, Data } from "./common";
+import { DataStoreClient, CreateData, CreateValue, ParseValue } from "./client";
+
+
+
+
+
+
+
+/**
+ * Interface for PromptTemplateModel
+ * `id`, `data_creator`, `data_updater`, `create_time`, `update_time` should not be set when INSERTING data since backend will fill it automatically.
+ * `id` should keep the original value when setting (updating) data.
+ * `data_creator` and `data_updater` are read-only strings (user id) representing the creator and updater of the data record.
+ * `create_time` and `update_time` are read-only strings in the format of timestamp (10-digit).
+ */
+export interface PromptTemplateModel {
+  id: string;
+  data_creator: string;
+  data_updater: string;
+  create_time: string;
+  update_time: string;
+  version: number;
+  label?: string | null;
+  system_template: string;
+  user_template: string;
+}
+
+/**
+ * ORM class for PromptTemplate entity.
+ * It uses Singleton pattern to prevent re-initialization.
+ */
+export class PromptTemplateORM {
+  private static instance: PromptTemplateORM | null = null;
+  protected client: DataStoreClient;
+  protected namespace: string;
+  protected entityId: string;
+  protected entityName: string;
+  protected entityVersion: string;
+  protected taskId: string;
+  protected taskRootId: string;
+
+  private constructor() {
+    this.client = DataStoreClient.getInstance();
+    this.namespace = '01987547fc6c72ecb453bd2736bd4ea0';
+    this.entityId = '102019b5d2a84c71e3f2c7b15a9e04f6d81';
+    this.entityName = 'prompt_template';
+    this.entityVersion = '102019b5d2a84c71e3f39d06e4b72a5c1f8';
+    this.taskId = '6929b4093eae0296d77f081a';
+    this.taskRootId = '69295b334865aaabce3c1a3e';
+  }
+
+  /**
+   * Get singleton instance of PromptTemplateORM
+   */
+  public static getInstance(): PromptTemplateORM {
+    if (!PromptTemplateORM.instance) {
+      PromptTemplateORM.instance = new PromptTemplateORM();
+    }
+    
+    return PromptTemplateORM.instance;
+  }
+
+  /**
+   * Get all PromptTemplate records
+   * This returns all data without pagination.
+   * To query data with page and filter conditions, use `list*()` instead.
+   */
+  async getAllPromptTemplate(): Promise<PromptTemplateModel[]> {
+    const response = await this.client.all({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      format: {
+        structured: true
+      }
+    });
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Insert (create) new PromptTemplate record(s)
+   * DO NOT SET `id`, `data_creator`, `data_updater`, `create_time` and `update_time` since backend will fill it automatically.
+   * It will respond the inserted record(s), with `id`, `data_creator`, `data_updater`, `create_time` and `update_time` filled by backend.
+   */
+  async insertPromptTemplate(data: PromptTemplateModel[]): Promise<PromptTemplateModel[]> {
+    const structured = data.map((item) => CreateData(PromptTemplateModelToValues(item)));
+    const response = await this.client.insert({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      batch: structured,
+      format: {
+        structured: true
+      }
+    });
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Purge all PromptTemplate records
+   */
+  async purgeAllPromptTemplate(): Promise<void> {
+    await this.client.purge({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      format: {
+        structured: true
+      }
+    });
+  }
+
+  /**
+   * List PromptTemplate records with filters
+   * This function provides search capabilities like filtering, sorting, pagination.
+   */
+  async listPromptTemplate(filter?: Filter, sort?: Sort, paginate?: Page): Promise<[PromptTemplateModel[], Page]> {
+    const response = await this.client.list({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      filter: filter,
+      sort: sort,
+      paginate: paginate,
+      format: {
+        structured: true
+      }
+    });
+    return [this.resultToData(response.data?.values || []), response.data?.page || { number: 0, size: 0 }];
+  }
+
+
+  /**
+   * Get prompt_template by Id index
+   * This function gets data by index.
+   */
+  async getPromptTemplateById(
+    id: string,
+  ): Promise<PromptTemplateModel[]> {
+    const index = createIndexId(
+      id
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) prompt_template by Id index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setPromptTemplateById(
+    id: string,
+    data: PromptTemplateModel
+  ): Promise<PromptTemplateModel[]> {
+    const index = createIndexId(
+      id
+    );
+
+    const values = PromptTemplateModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete prompt_template by Id index
+   */
+  async deletePromptTemplateById(
+    id: string
+  ): Promise<void> {
+    const index = createIndexId(
+      id
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+  /**
+   * Get prompt_template by DataCreator index
+   * This function gets data by index.
+   */
+  async getPromptTemplateByDataCreator(
+    data_creator: string,
+  ): Promise<PromptTemplateModel[]> {
+    const index = createIndexDataCreator(
+      data_creator
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) prompt_template by DataCreator index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setPromptTemplateByDataCreator(
+    data_creator: string,
+    data: PromptTemplateModel
+  ): Promise<PromptTemplateModel[]> {
+    const index = createIndexDataCreator(
+      data_creator
+    );
+
+    const values = PromptTemplateModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete prompt_template by DataCreator index
+   */
+  async deletePromptTemplateByDataCreator(
+    data_creator: string
+  ): Promise<void> {
+    const index = createIndexDataCreator(
+      data_creator
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+  /**
+   * Get prompt_template by DataUpdater index
+   * This function gets data by index.
+   */
+  async getPromptTemplateByDataUpdater(
+    data_updater: string,
+  ): Promise<PromptTemplateModel[]> {
+    const index = createIndexDataUpdater(
+      data_updater
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) prompt_template by DataUpdater index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setPromptTemplateByDataUpdater(
+    data_updater: string,
+    data: PromptTemplateModel
+  ): Promise<PromptTemplateModel[]> {
+    const index = createIndexDataUpdater(
+      data_updater
+    );
+
+    const values = PromptTemplateModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete prompt_template by DataUpdater index
+   */
+  async deletePromptTemplateByDataUpdater(
+    data_updater: string
+  ): Promise<void> {
+    const index = createIndexDataUpdater(
+      data_updater
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+  /**
+   * Get prompt_template by Version index
+   * This function gets data by index.
+   */
+  async getPromptTemplateByVersion(
+    version: number,
+  ): Promise<PromptTemplateModel[]> {
+    const index = createIndexVersion(
+      version
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) prompt_template by Version index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setPromptTemplateByVersion(
+    version: number,
+    data: PromptTemplateModel
+  ): Promise<PromptTemplateModel[]> {
+    const index = createIndexVersion(
+      version
+    );
+
+    const values = PromptTemplateModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete prompt_template by Version index
+   */
+  async deletePromptTemplateByVersion(
+    version: number
+  ): Promise<void> {
+    const index = createIndexVersion(
+      version
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+
+  /**
+   * Convert result data to PromptTemplateModel data array
+   */
+  private resultToData(values: Data[]): PromptTemplateModel[] {
+    return values.map((item: Data) => {
+      if (item.structured && item.structured.length > 0) {
+        return PromptTemplateModelFromValues(item.structured);
+      }
+
+      if (item.serialized) {
+        try {
+          const parsedData = JSON.parse(item.serialized) as PromptTemplateModel;
+          return parsedData;
+        } catch (error) {
+          console.error('Error parsing serialized PromptTemplateModel data: ', error, item.serialized);
+          return null;
+        }
+      }
+
+      return null;
+    }).filter((item): item is PromptTemplateModel => item !== null);
+  }
+}
+
+/**
+ * Convert PromptTemplateModel data to Value array
+ */
+function PromptTemplateModelToValues(data: PromptTemplateModel): Value[] {
+  const fieldMappings = [
+    { key: 'id', type: DataType.string, defaultValue: '' },
+    { key: 'data_creator', type: DataType.string, defaultValue: '' },
+    { key: 'data_updater', type: DataType.string, defaultValue: '' },
+    { key: 'create_time', type: DataType.string, defaultValue: '' },
+    { key: 'update_time', type: DataType.string, defaultValue: '' },
+    { key: 'version', type: DataType.number, defaultValue: 0 },
+    { key: 'label', type: DataType.string, defaultValue: null },
+    { key: 'system_template', type: DataType.string, defaultValue: '' },
+    { key: 'user_template', type: DataType.string, defaultValue: '' },
+  ];
+
+  return fieldMappings.map(({ key, type, defaultValue }) => {
+    const value = data[key as keyof PromptTemplateModel] ?? defaultValue;
+    return CreateValue(type, value, key);
+  });
+}
+
+/**
+ * Convert Value array to PromptTemplateModel data
+ */
+function PromptTemplateModelFromValues(values: Value[]): PromptTemplateModel {
+  const data: Partial<PromptTemplateModel> = {};
+  
+  for (const value of values) {
+    if (!value.name) continue;
+    
+    switch (value.name) {
+      case 'id':
+        data.id = ParseValue(value, DataType.string) as string;
+        break;
+      case 'data_creator':
+        data.data_creator = ParseValue(value, DataType.string) as string;
+        break;
+      case 'data_updater':
+        data.data_updater = ParseValue(value, DataType.string) as string;
+        break;
+      case 'create_time':
+        data.create_time = ParseValue(value, DataType.string) as string;
+        break;
+      case 'update_time':
+        data.update_time = ParseValue(value, DataType.string) as string;
+        break;
+      case 'version':
+        data.version = ParseValue(value, DataType.number) as number;
+        break;
+      case 'label':
+        data.label = ParseValue(value, DataType.string) as string | null;
+        break;
+      case 'system_template':
+        data.system_template = ParseValue(value, DataType.string) as string;
+        break;
+      case 'user_template':
+        data.user_template = ParseValue(value, DataType.string) as string;
+        break;
+    }
+  }
+  
+  return data as PromptTemplateModel;
+}
+
+
+/**
+ * Create index for Id fields
+ */
+function createIndexId(
+  id: string
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.string, id, 'id'),
+  ];
+
+  return {
+    fields: ['id'],
+    values
+  };
+}
+/**
+ * Create index for DataCreator fields
+ */
+function createIndexDataCreator(
+  data_creator: string
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.string, data_creator, 'data_creator'),
+  ];
+
+  return {
+    fields: ['data_creator'],
+    values
+  };
+}
+/**
+ * Create index for DataUpdater fields
+ */
+function createIndexDataUpdater(
+  data_updater: string
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.string, data_updater, 'data_updater'),
+  ];
+
+  return {
+    fields: ['data_updater'],
+    values
+  };
+}
+/**
+ * Create index for Version fields
+ */
+function createIndexVersion(
+  version: number
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.number, version, 'version'),
+  ];
+
+  return {
+    fields: ['version'],
+    values
+  };
+}
+
+export default PromptTemplateORM;
\ No newline at end of file
@@ -0,0 +1,636 @@
+// NOT generated: written by hand in the layout of the raf generator output.
+// The entity is not registered in the data store yet, so the Entity ID,
+// Entity Version and Task ID below are placeholders and every call fails;
+// the hooks then fall back to built-in defaults. Register the entity from
+// ../schema/seasonality_tables.json and replace this file and ../resource/seasonality_tables.json
+// with the generator output.
+// - Namespace: 01987547fc6c72ecb453bd2736bd4ea0.
+// - Entity Name: seasonality_tables.
+// - Entity ID (placeholder): 102019b6e3f17a28c4d27da03c81be45f69.
+// - Entity Version (placeholder): 102019b6e3f17a28c4d38eb14d92cf56a7b.
+// - Task ID (placeholder): 6929b4093eae0296d77f081a.
+// - Task Root ID: 69295b334865aaabce3c1a3e.
+
+import { DataType } from "./common";
+import type { Value, Page, Index, Filter, Sort, Data } from "./common";
+import { DataStoreClient, CreateData, CreateValue, ParseValue } from "./client";
+
+
+
+
+
+
+
+/**
+ * Interface for SeasonalityTablesModel
+ * `id`, `data_creator`, `data_updater`, `create_time`, `update_time` should not be set when INSERTING data since backend will fill it automatically.
+ * `id` should keep the original value when setting (updating) data.
+ * `data_creator` and `data_updater` are read-only strings (user id) representing the creator and updater of the data record.
+ * `create_time` and `update_time` are read-only strings in the format of timestamp (10-digit).
+ */
+export interface SeasonalityTablesModel {
+  id: string;
+  data_creator: string;
+  data_updater: string;
+  create_time: string;
+  update_time: string;
+  version: number;
+  label?: string | null;
+  channels: Record<string, number[]>;
+  categories: Record<string, number[]>;
+}
+
+/**
+ * ORM class for SeasonalityTables entity.
+ * It uses Singleton pattern to prevent re-initialization.
+ */
+export class SeasonalityTablesORM {
+  private static instance: SeasonalityTablesORM | null = null;
+  protected client: DataStoreClient;
+  protected namespace: string;
+  protected entityId: string;
+  protected entityName: string;
+  protected entityVersion: string;
+  protected taskId: string;
+  protected taskRootId: string;
+
+  private constructor() {
+    this.client = DataStoreClient.getInstance();
+    this.namespace = '01987547fc6c72ecb453bd2736bd4ea0';
+    this.entityId = '102019b6e3f17a28c4d27da03c81be45f69';
+    this.entityName = 'seasonality_tables';
+    this.entityVersion = '102019b6e3f17a28c4d38eb14d92cf56a7b';
+    this.taskId = '6929b4093eae0296d77f081a';
+    this.taskRootId = '69295b334865aaabce3c1a3e';
+  }
+
+  /**
+   * Get singleton instance of SeasonalityTablesORM
+   */
+  public static getInstance(): SeasonalityTablesORM {
+    if (!SeasonalityTablesORM.instance) {
+      SeasonalityTablesORM.instance = new SeasonalityTablesORM();
+    }
+    
+    return SeasonalityTablesORM.instance;
+  }
+
+  /**
+   * Get all SeasonalityTables records
+   * This returns all data without pagination.
+   * To query data with page and filter conditions, use `list*()` instead.
+   */
+  async getAllSeasonalityTables(): Promise<SeasonalityTablesModel[]> {
+    const response = await this.client.all({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      format: {
+        structured: true
+      }
+    });
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Insert (create) new SeasonalityTables record(s)
+   * DO NOT SET `id`, `data_creator`, `data_updater`, `create_time` and `update_time` since backend will fill it automatically.
+   * It will respond the inserted record(s), with `id`, `data_creator`, `data_updater`, `create_time` and `update_time` filled by backend.
+   */
+  async insertSeasonalityTables(data: SeasonalityTablesModel[]): Promise<SeasonalityTablesModel[]> {
+    const structured = data.map((item) => CreateData(SeasonalityTablesModelToValues(item)));
+    const response = await this.client.insert({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      batch: structured,
+      format: {
+        structured: true
+      }
+    });
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Purge all SeasonalityTables records
+   */
+  async purgeAllSeasonalityTables(): Promise<void> {
+    await this.client.purge({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      format: {
+        structured: true
+      }
+    });
+  }
+
+  /**
+   * List SeasonalityTables records with filters
+   * This function provides search capabilities like filtering, sorting, pagination.
+   */
+  async listSeasonalityTables(filter?: Filter, sort?: Sort, paginate?: Page): Promise<[SeasonalityTablesModel[], Page]> {
+    const response = await this.client.list({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      filter: filter,
+      sort: sort,
+      paginate: paginate,
+      format: {
+        structured: true
+      }
+    });
+    return [this.resultToData(response.data?.values || []), response.data?.page || { number: 0, size: 0 }];
+  }
+
+
+  /**
+   * Get seasonality_tables by Id index
+   * This function gets data by index.
+   */
+  async getSeasonalityTablesById(
+    id: string,
+  ): Promise<SeasonalityTablesModel[]> {
+    const index = createIndexId(
+      id
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) seasonality_tables by Id index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setSeasonalityTablesById(
+    id: string,
+    data: SeasonalityTablesModel
+  ): Promise<SeasonalityTablesModel[]> {
+    const index = createIndexId(
+      id
+    );
+
+    const values = SeasonalityTablesModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete seasonality_tables by Id index
+   */
+  async deleteSeasonalityTablesById(
+    id: string
+  ): Promise<void> {
+    const index = createIndexId(
+      id
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+  /**
+   * Get seasonality_tables by DataCreator index
+   * This function gets data by index.
+   */
+  async getSeasonalityTablesByDataCreator(
+    data_creator: string,
+  ): Promise<SeasonalityTablesModel[]> {
+    const index = createIndexDataCreator(
+      data_creator
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) seasonality_tables by DataCreator index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setSeasonalityTablesByDataCreator(
+    data_creator: string,
+    data: SeasonalityTablesModel
+  ): Promise<SeasonalityTablesModel[]> {
+    const index = createIndexDataCreator(
+      data_creator
+    );
+
+    const values = SeasonalityTablesModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete seasonality_tables by DataCreator index
+   */
+  async deleteSeasonalityTablesByDataCreator(
+    data_creator: string
+  ): Promise<void> {
+    const index = createIndexDataCreator(
+      data_creator
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+  /**
+   * Get seasonality_tables by DataUpdater index
+   * This function gets data by index.
+   */
+  async getSeasonalityTablesByDataUpdater(
+    data_updater: string,
+  ): Promise<SeasonalityTablesModel[]> {
+    const index = createIndexDataUpdater(
+      data_updater
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) seasonality_tables by DataUpdater index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setSeasonalityTablesByDataUpdater(
+    data_updater: string,
+    data: SeasonalityTablesModel
+  ): Promise<SeasonalityTablesModel[]> {
+    const index = createIndexDataUpdater(
+      data_updater
+    );
+
+    const values = SeasonalityTablesModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete seasonality_tables by DataUpdater index
+   */
+  async deleteSeasonalityTablesByDataUpdater(
+    data_updater: string
+  ): Promise<void> {
+    const index = createIndexDataUpdater(
+      data_updater
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+  /**
+   * Get seasonality_tables by Version index
+   * This function gets data by index.
+   */
+  async getSeasonalityTablesByVersion(
+    version: number,
+  ): Promise<SeasonalityTablesModel[]> {
+    const index = createIndexVersion(
+      version
+    );
+
+    const response = await this.client.get({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Set (update) seasonality_tables by Version index
+   * This function replaces data, so the data must be complete.
+   * Must keep `id`, `data_creator`, `create_time` unchanged as original data (as fetched).
+   * DO NOT SET `data_updater` and `update_time` since backend will fill it automatically.
+   * It will respond the set record, with `data_updater` and `update_time` filled by backend.
+   */
+  async setSeasonalityTablesByVersion(
+    version: number,
+    data: SeasonalityTablesModel
+  ): Promise<SeasonalityTablesModel[]> {
+    const index = createIndexVersion(
+      version
+    );
+
+    const values = SeasonalityTablesModelToValues(data);
+    const structuredData = CreateData(values);
+
+    const response = await this.client.set({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      data: structuredData,
+      format: {
+        structured: true
+      }
+    });
+
+    return this.resultToData(response.data?.values || []);
+  }
+
+  /**
+   * Delete seasonality_tables by Version index
+   */
+  async deleteSeasonalityTablesByVersion(
+    version: number
+  ): Promise<void> {
+    const index = createIndexVersion(
+      version
+    );
+
+    await this.client.delete({
+      id: this.entityId,
+      namespace: this.namespace,
+      name: this.entityName,
+      version: this.entityVersion,
+      task: this.taskId,
+      index: index,
+      format: {
+        structured: true
+      }
+    });
+  }
+
+  /**
+   * Convert result data to SeasonalityTablesModel data array
+   */
+  private resultToData(values: Data[]): SeasonalityTablesModel[] {
+    return values.map((item: Data) => {
+      if (item.structured && item.structured.length > 0) {
+        return SeasonalityTablesModelFromValues(item.structured);
+      }
+
+      if (item.serialized) {
+        try {
+          const parsedData = JSON.parse(item.serialized) as SeasonalityTablesModel;
+          return parsedData;
+        } catch (error) {
+          console.error('Error parsing serialized SeasonalityTablesModel data: ', error, item.serialized);
+          return null;
+        }
+      }
+
+      return null;
+    }).filter((item): item is SeasonalityTablesModel => item !== null);
+  }
+}
+
+/**
+ * Convert SeasonalityTablesModel data to Value array
+ */
+function SeasonalityTablesModelToValues(data: SeasonalityTablesModel): Value[] {
+  const fieldMappings = [
+    { key: 'id', type: DataType.string, defaultValue: '' },
+    { key: 'data_creator', type: DataType.string, defaultValue: '' },
+    { key: 'data_updater', type: DataType.string, defaultValue: '' },
+    { key: 'create_time', type: DataType.string, defaultValue: '' },
+    { key: 'update_time', type: DataType.string, defaultValue: '' },
+    { key: 'version', type: DataType.number, defaultValue: 0 },
+    { key: 'label', type: DataType.string, defaultValue: null },
+    { key: 'channels', type: DataType.object, defaultValue: {} },
+    { key: 'categories', type: DataType.object, defaultValue: {} },
+  ];
+
+  return fieldMappings.map(({ key, type, defaultValue }) => {
+    const value = data[key as keyof SeasonalityTablesModel] ?? defaultValue;
+    return CreateValue(type, value, key);
+  });
+}
+
+/**
+ * Convert Value array to SeasonalityTablesModel data
+ */
+function SeasonalityTablesModelFromValues(values: Value[]): SeasonalityTablesModel {
+  const data: Partial<SeasonalityTablesModel> = {};
+  
+  for (const value of values) {
+    if (!value.name) continue;
+    
+    switch (value.name) {
+      case 'id':
+        data.id = ParseValue(value, DataType.string) as string;
+        break;
+      case 'data_creator':
+        data.data_creator = ParseValue(value, DataType.string) as string;
+        break;
+      case 'data_updater':
+        data.data_updater = ParseValue(value, DataType.string) as string;
+        break;
+      case 'create_time':
+        data.create_time = ParseValue(value, DataType.string) as string;
+        break;
+      case 'update_time':
+        data.update_time = ParseValue(value, DataType.string) as string;
+        break;
+      case 'version':
+        data.version = ParseValue(value, DataType.number) as number;
+        break;
+      case 'label':
+        data.label = ParseValue(value, DataType.string) as string | null;
+        break;
+      case 'channels':
+        data.channels = ParseValue(value, DataType.object) as Record<string, number[]>;
+        break;
+      case 'categories':
+        data.categories = ParseValue(value, DataType.object) as Record<string, number[]>;
+        break;
+    }
+  }
+  
+  return data as SeasonalityTablesModel;
+}
+
+
+/**
+ * Create index for Id fields
+ */
+function createIndexId(
+  id: string
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.string, id, 'id'),
+  ];
+
+  return {
+    fields: ['id'],
+    values
+  };
+}
+/**
+ * Create index for DataCreator fields
+ */
+function createIndexDataCreator(
+  data_creator: string
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.string, data_creator, 'data_creator'),
+  ];
+
+  return {
+    fields: ['data_creator'],
+    values
+  };
+}
+/**
+ * Create index for DataUpdater fields
+ */
+function createIndexDataUpdater(
+  data_updater: string
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.string, data_updater, 'data_updater'),
+  ];
+
+  return {
+    fields: ['data_updater'],
+    values
+  };
+}
+/**
+ * Create index for Version fields
+ */
+function createIndexVersion(
+  version: number
+): Index {
+  const values: Value[] = [
+    CreateValue(DataType.number, version, 'version'),
+  ];
+
+  return {
+    fields: ['version'],
+    values
+  };
+}
+
+export default SeasonalityTablesORM;
\ No newline at end of file
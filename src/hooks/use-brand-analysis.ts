@@ -0,0 +1,44 @@
+import { useQuery } from '@tanstack/react-query';
+import { getLLMProvider, type LLMCompletionRequest } from '@/lib/llm-providers';
+import { useLLMSettings } from '@/hooks/use-llm-settings';
+
+/** Completion request of the brand analysis; the model comes from settings */
+export type BrandAnalysisRequest = Omit<LLMCompletionRequest, 'model'>;
+
+/**
+ * Run the AI brand analysis through the provider and model chosen in settings
+ *
+ * @param request - Prompts and generation controls; null keeps the query idle
+ * @returns TanStack Query result with the raw provider response
+ *
+ * @example
+ * ```tsx
+ * const { data, isLoading, error } = useBrandAnalysis({
+ *   systemContent: "You are a brand analysis expert.",
+ *   userContent: "Analyze brand awareness for Nike in the Russian market",
+ *   temperature: 0.7,
+ * });
+ * const result = data ? parseAIResponse(data.response) : null;
+ * ```
+ */
+export function useBrandAnalysis(request: BrandAnalysisRequest | null) {
+  const { providerId, models, openAICompatible, mockFixture } = useLLMSettings();
+  const settings = { providerId, models, openAICompatible, mockFixture };
+  const provider = getLLMProvider(providerId);
+  const model = models[provider.id] || provider.models[0];
+
+  return useQuery({
+    // The API key is left out of the key so it does not end up in the query cache
+    queryKey: ['brand-analysis', provider.id, model, openAICompatible.baseUrl, mockFixture, request],
+    queryFn: () => {
+      if (!request) {
+        throw new Error('Request is required for the brand analysis');
+      }
+      return provider.complete({ ...request, model }, settings);
+    },
+    enabled: request !== null,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: provider.id === 'mock' ? false : 2,
+    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+  });
+}
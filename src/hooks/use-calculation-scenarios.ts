@@ -0,0 +1,130 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CalculationScenarioORM, type CalculationScenarioModel } from '@/components/data/orm/orm_calculation_scenario';
+import type { CampaignGoal, Scenario, ScenarioResult } from '@/lib/frequency-engine';
+
+const QUERY_KEY = ['calculation-scenarios'];
+
+const CAMPAIGN_GOALS: CampaignGoal[] = ['awareness', 'consideration', 'conversion', 'retention'];
+
+/**
+ * Scenario as stored in the data store, with the forecast it was saved with
+ */
+export interface SavedScenario {
+  scenario: Scenario;
+  /** calculation_history record the scenario was cloned from */
+  calculationId: string | null;
+  brandName: string | null;
+  frequency: number;
+  coverage: number;
+  goalKPI: number;
+}
+
+function toSavedScenario(model: CalculationScenarioModel): SavedScenario {
+  const goal = CAMPAIGN_GOALS.find((g) => g === model.campaign_goal) ?? '';
+  return {
+    scenario: {
+      id: model.id,
+      name: model.name,
+      budget: model.budget,
+      goal,
+      params: {
+        brandAwareness: model.brand_awareness,
+        marketSaturation: model.market_saturation,
+        campaignGoal: model.campaign_goal_param,
+        targetAudience: model.target_audience,
+        productComplexity: model.product_complexity,
+        messageComplexity: model.message_complexity,
+      },
+    },
+    calculationId: model.calculation_id ?? null,
+    brandName: model.brand_name ?? null,
+    frequency: model.calculated_frequency,
+    coverage: model.coverage,
+    goalKPI: model.goal_kpi,
+  };
+}
+
+/**
+ * What-if scenarios saved next to the calculation history
+ *
+ * Needs a signed-in user. Scenarios keep their data-store id once saved, so
+ * saving the same scenario again updates it instead of adding a copy.
+ *
+ * @returns Saved scenarios (newest first), loading/error state and the save/delete mutations
+ *
+ * @example
+ * ```tsx
+ * const { scenarios, saveScenario } = useCalculationScenarios();
+ * const saved = await saveScenario({ result, calculationId, brandName });
+ * ```
+ */
+export function useCalculationScenarios() {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: async () => {
+      const records = await CalculationScenarioORM.getInstance().getAllCalculationScenario();
+      return records.sort((a, b) => b.update_time.localeCompare(a.update_time));
+    },
+    staleTime: 60 * 1000, // 1 minute
+    retry: false,
+  });
+
+  const records = query.data;
+  const scenarios = useMemo(() => (records ?? []).map(toSavedScenario), [records]);
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ result, calculationId, brandName }: {
+      result: ScenarioResult;
+      calculationId: string | null;
+      brandName: string | null;
+    }) => {
+      const { scenario, calculation } = result;
+      // Updates keep id, creator and create time of the stored record
+      const stored = records?.find((record) => record.id === scenario.id);
+      const data: CalculationScenarioModel = {
+        id: stored?.id ?? '',
+        data_creator: stored?.data_creator ?? '',
+        data_updater: '',
+        create_time: stored?.create_time ?? '',
+        update_time: '',
+        calculation_id: calculationId,
+        name: scenario.name,
+        brand_name: brandName,
+        budget: scenario.budget,
+        campaign_goal: scenario.goal || null,
+        brand_awareness: scenario.params.brandAwareness,
+        market_saturation: scenario.params.marketSaturation,
+        campaign_goal_param: scenario.params.campaignGoal,
+        target_audience: scenario.params.targetAudience,
+        product_complexity: scenario.params.productComplexity,
+        message_complexity: scenario.params.messageComplexity,
+        calculated_frequency: calculation.frequency.frequency,
+        coverage: calculation.coverage.value,
+        goal_kpi: calculation.goalKPI,
+      };
+      const orm = CalculationScenarioORM.getInstance();
+      const [record] = stored
+        ? await orm.setCalculationScenarioById(stored.id, data)
+        : await orm.insertCalculationScenario([data]);
+      return record ? toSavedScenario(record) : null;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: QUERY_KEY }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => CalculationScenarioORM.getInstance().deleteCalculationScenarioById(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: QUERY_KEY }),
+  });
+
+  return {
+    scenarios,
+    isLoading: query.isLoading,
+    error: query.error,
+    saveScenario: saveMutation.mutateAsync,
+    deleteScenario: deleteMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+  };
+}
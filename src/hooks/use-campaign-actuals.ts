@@ -0,0 +1,65 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CalculationHistoryORM } from '@/components/data/orm/orm_calculation_history';
+import { CampaignActualsORM, type CampaignActualsModel } from '@/components/data/orm/orm_campaign_actuals';
+
+const HISTORY_QUERY_KEY = ['calculation-history'];
+const ACTUALS_QUERY_KEY = ['campaign-actuals'];
+
+/**
+ * Calculation history together with the post-campaign actuals recorded against it
+ *
+ * Both lists come from the data store and need a signed-in user.
+ * `saveActuals` inserts a new record, or replaces the one with the same `id`.
+ *
+ * @returns History (newest first), actuals, loading/error state and the save/delete mutations
+ *
+ * @example
+ * ```tsx
+ * const { history, actuals, saveActuals } = useCampaignActuals();
+ * ```
+ */
+export function useCampaignActuals() {
+  const queryClient = useQueryClient();
+
+  const historyQuery = useQuery({
+    queryKey: HISTORY_QUERY_KEY,
+    queryFn: async () => {
+      const records = await CalculationHistoryORM.getInstance().getAllCalculationHistory();
+      return records.sort((a, b) => b.calculation_time.localeCompare(a.calculation_time));
+    },
+    staleTime: 60 * 1000, // 1 minute
+    retry: false,
+  });
+
+  const actualsQuery = useQuery({
+    queryKey: ACTUALS_QUERY_KEY,
+    queryFn: () => CampaignActualsORM.getInstance().getAllCampaignActuals(),
+    staleTime: 60 * 1000, // 1 minute
+    retry: false,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ACTUALS_QUERY_KEY });
+
+  const saveMutation = useMutation({
+    mutationFn: (data: CampaignActualsModel) => {
+      const orm = CampaignActualsORM.getInstance();
+      return data.id ? orm.setCampaignActualsById(data.id, data) : orm.insertCampaignActuals([data]);
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => CampaignActualsORM.getInstance().deleteCampaignActualsById(id),
+    onSuccess: invalidate,
+  });
+
+  return {
+    history: historyQuery.data ?? [],
+    actuals: actualsQuery.data ?? [],
+    isLoading: historyQuery.isLoading || actualsQuery.isLoading,
+    error: historyQuery.error ?? actualsQuery.error,
+    saveActuals: saveMutation.mutateAsync,
+    deleteActuals: deleteMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+  };
+}
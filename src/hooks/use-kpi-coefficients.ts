@@ -0,0 +1,111 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { KpiCoefficientsORM, type KpiCoefficientsModel } from '@/components/data/orm/orm_kpi_coefficients';
+import { DEFAULT_KPI_COEFFICIENTS, type KpiCoefficients } from '@/lib/frequency-engine';
+
+/**
+ * One saved version of the KPI formula coefficients
+ */
+export interface KpiCoefficientSet {
+  version: number;
+  label: string | null;
+  coefficients: KpiCoefficients;
+  /** 10-digit unix timestamp; null for the built-in set */
+  createTime: string | null;
+}
+
+/** Coefficients the engine ships with, in force until a version is saved */
+export const BUILT_IN_COEFFICIENT_SET: KpiCoefficientSet = {
+  version: 0,
+  label: 'Встроенный набор',
+  coefficients: DEFAULT_KPI_COEFFICIENTS,
+  createTime: null,
+};
+
+const QUERY_KEY = ['kpi-coefficients'];
+
+function toCoefficientSet(model: KpiCoefficientsModel): KpiCoefficientSet {
+  return {
+    version: model.version,
+    label: model.label ?? null,
+    coefficients: {
+      tomScale: model.tom_scale,
+      tomFrequencySlope: model.tom_frequency_slope,
+      ltvScale: model.ltv_scale,
+      ltvFrequencySlope: model.ltv_frequency_slope,
+      // Versions saved before these scales existed keep the built-in value
+      searchScale: model.search_scale ?? DEFAULT_KPI_COEFFICIENTS.searchScale,
+      conversionScale: model.conversion_scale ?? DEFAULT_KPI_COEFFICIENTS.conversionScale,
+      tomBudgetReference: model.tom_budget_reference || DEFAULT_KPI_COEFFICIENTS.tomBudgetReference,
+      ltvSaturationPenalty: model.ltv_saturation_penalty ?? DEFAULT_KPI_COEFFICIENTS.ltvSaturationPenalty,
+      ltvBudgetReference: model.ltv_budget_reference || DEFAULT_KPI_COEFFICIENTS.ltvBudgetReference,
+    },
+    createTime: model.create_time || null,
+  };
+}
+
+/**
+ * Versioned KPI coefficient sets from the data store
+ *
+ * The highest version is in force. Saving never edits a version in place: it
+ * inserts the next one, so every history record can point at the exact
+ * coefficients it was computed with. Falls back to the built-in set when the
+ * data store is unavailable (e.g. the user is not signed in).
+ *
+ * @returns The coefficient set in force, all saved versions (newest first) and `saveVersion`
+ *
+ * @example
+ * ```tsx
+ * const { current, saveVersion } = useKpiCoefficients();
+ * await saveVersion({ coefficients, label: 'Calibrated on Q3 brand lift' });
+ * ```
+ */
+export function useKpiCoefficients() {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: async () => {
+      const records = await KpiCoefficientsORM.getInstance().getAllKpiCoefficients();
+      return records.map(toCoefficientSet).sort((a, b) => b.version - a.version);
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: false,
+  });
+
+  const versions = query.data ?? [];
+  const current = versions[0] ?? BUILT_IN_COEFFICIENT_SET;
+
+  const mutation = useMutation({
+    mutationFn: async ({ coefficients, label }: { coefficients: KpiCoefficients; label: string | null }) => {
+      const [saved] = await KpiCoefficientsORM.getInstance().insertKpiCoefficients([{
+        id: '',
+        data_creator: '',
+        data_updater: '',
+        create_time: '',
+        update_time: '',
+        version: current.version + 1,
+        label,
+        tom_scale: coefficients.tomScale,
+        tom_frequency_slope: coefficients.tomFrequencySlope,
+        ltv_scale: coefficients.ltvScale,
+        ltv_frequency_slope: coefficients.ltvFrequencySlope,
+        search_scale: coefficients.searchScale,
+        conversion_scale: coefficients.conversionScale,
+        tom_budget_reference: coefficients.tomBudgetReference,
+        ltv_saturation_penalty: coefficients.ltvSaturationPenalty,
+        ltv_budget_reference: coefficients.ltvBudgetReference,
+      }]);
+      return saved ? toCoefficientSet(saved) : null;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: QUERY_KEY }),
+  });
+
+  return {
+    current,
+    versions,
+    isLoading: query.isLoading,
+    error: query.error,
+    saveVersion: mutation.mutateAsync,
+    isSaving: mutation.isPending,
+  };
+}
@@ -0,0 +1,54 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  DEFAULT_LLM_SETTINGS,
+  type LLMProviderId,
+  type LLMProviderSettings,
+  type OpenAICompatibleSettings,
+} from '@/lib/llm-providers';
+
+interface LLMSettingsStore extends LLMProviderSettings {
+  /** Keep the OpenAI-compatible API key in localStorage; otherwise it lasts until the page is closed */
+  rememberApiKey: boolean;
+  setProvider: (providerId: LLMProviderId) => void;
+  /** Model of the given provider */
+  setModel: (providerId: LLMProviderId, model: string) => void;
+  setOpenAICompatible: (settings: Partial<OpenAICompatibleSettings>) => void;
+  setMockFixture: (fixtureId: string) => void;
+  setRememberApiKey: (rememberApiKey: boolean) => void;
+  resetSettings: () => void;
+}
+
+/**
+ * Provider and model of the AI brand analysis, kept in localStorage.
+ * The API key of an OpenAI-compatible endpoint is kept in memory only,
+ * unless the user asks to remember it in this browser.
+ *
+ * @example
+ * ```tsx
+ * const { providerId, models } = useLLMSettings();
+ * const model = models[providerId];
+ * ```
+ */
+export const useLLMSettings = create<LLMSettingsStore>()(
+  persist(
+    (set) => ({
+      ...DEFAULT_LLM_SETTINGS,
+      rememberApiKey: false,
+      setProvider: (providerId) => set({ providerId }),
+      setModel: (providerId, model) => set((state) => ({ models: { ...state.models, [providerId]: model } })),
+      setOpenAICompatible: (settings) =>
+        set((state) => ({ openAICompatible: { ...state.openAICompatible, ...settings } })),
+      setMockFixture: (mockFixture) => set({ mockFixture }),
+      setRememberApiKey: (rememberApiKey) => set({ rememberApiKey }),
+      resetSettings: () => set({ ...DEFAULT_LLM_SETTINGS, rememberApiKey: false }),
+    }),
+    {
+      name: 'frequency-calculator-llm-settings',
+      partialize: (state) => ({
+        ...state,
+        openAICompatible: state.rememberApiKey ? state.openAICompatible : { ...state.openAICompatible, apiKey: '' },
+      }),
+    }
+  )
+);
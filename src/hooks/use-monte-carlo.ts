@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  runMonteCarlo,
+  type CalculationInput,
+  type FrequencyResult,
+  type MonteCarloRequest,
+  type MonteCarloResponse,
+  type MonteCarloResult,
+  type UncertaintySettings,
+} from '@/lib/frequency-engine';
+
+/**
+ * Run the Monte Carlo simulation in a web worker whenever the inputs change
+ *
+ * Responses for outdated inputs are dropped, and the previous result is
+ * cleared as soon as the inputs change or the simulation is disabled, so
+ * bands of an old plan are never shown. Falls back to the main thread
+ * where workers are not available (tests, SSR).
+ *
+ * @param input - Calculation inputs the simulation is centred on
+ * @param settings - Spread of each input and number of iterations
+ * @param frequencyOverride - Frequency from another method (e.g. Ostrow), kept fixed
+ * @param enabled - Whether to run the simulation (default: true)
+ * @returns Result for the current inputs (null until it is ready) and whether it is being computed
+ */
+export function useMonteCarlo(
+  input: CalculationInput,
+  settings: UncertaintySettings,
+  frequencyOverride?: FrequencyResult,
+  enabled: boolean = true
+) {
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    if (!enabled || typeof Worker === 'undefined') return;
+
+    const worker = new Worker(
+      new URL('../lib/frequency-engine/monte-carlo.worker.ts', import.meta.url),
+      { type: 'module' }
+    );
+    worker.addEventListener('message', (event: MessageEvent<MonteCarloResponse>) => {
+      if (event.data.id !== requestIdRef.current) return;
+      setResult(event.data.result);
+      setIsRunning(false);
+    });
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    // A new request id also drops any response still in flight
+    const id = ++requestIdRef.current;
+    setResult(null);
+    if (!enabled) {
+      setIsRunning(false);
+      return;
+    }
+
+    const worker = workerRef.current;
+
+    if (!worker) {
+      setResult(runMonteCarlo(input, settings, frequencyOverride));
+      return;
+    }
+
+    setIsRunning(true);
+    const request: MonteCarloRequest = { id, input, settings, frequencyOverride };
+    worker.postMessage(request);
+  }, [enabled, input, settings, frequencyOverride]);
+
+  return { result, isRunning };
+}
@@ -0,0 +1,124 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { addPortfolioShare } from '@/lib/frequency-engine';
+import type {
+  FlightingSettings,
+  FrequencyModel,
+  KpiBaselines,
+  KpiBenchmarks,
+  MediaMixSettings,
+  OstrowScores,
+  PlanningSettings,
+  PortfolioBrand,
+  PortfolioObjective,
+  RegionalSettings,
+  SeasonalitySettings,
+  ShareOfVoiceSettings,
+  SliderParams,
+} from '@/lib/frequency-engine';
+import type { AICitation } from '@/lib/ai-response';
+
+/**
+ * AI insight behind one slider value of a brand
+ */
+export interface PortfolioInsight {
+  id: string;
+  value: number;
+  insight: string;
+  source: string;
+  /** Retrieved sources behind the value; absent in brands saved before citations */
+  citations?: AICitation[];
+}
+
+/**
+ * Wizard settings a brand was planned with, before seasonality, regional
+ * prices and share of voice are applied, so reopening the brand restores
+ * them as entered rather than the adjusted calculation input
+ */
+export interface PortfolioPlanSettings {
+  params: SliderParams;
+  taCapacityRF: number;
+  kpiBenchmarks: KpiBenchmarks;
+  frequencyModel: FrequencyModel;
+  planning: PlanningSettings;
+  mediaMix: MediaMixSettings;
+  baselines: KpiBaselines;
+  seasonality: SeasonalitySettings;
+  /** Campaign period the seasonal indices are taken for */
+  flighting: FlightingSettings;
+  regional: RegionalSettings;
+  shareOfVoice: ShareOfVoiceSettings;
+  calculationMethod: 'sliders' | 'ostrow';
+  ostrowScores: OstrowScores;
+}
+
+/**
+ * Brand calculation kept in the portfolio, with the AI insights it was planned with
+ */
+export interface PortfolioEntry extends PortfolioBrand {
+  insights: Record<string, PortfolioInsight>;
+  /** Absent in brands saved before the settings were kept */
+  settings?: PortfolioPlanSettings;
+}
+
+interface PortfolioStore {
+  brands: PortfolioEntry[];
+  /** Budget shared by all brands, RUB */
+  totalBudget: number;
+  objective: PortfolioObjective;
+  /** Budget share per brand id, % */
+  shares: Record<string, number>;
+  /** Add the brand, or replace the one with the same name keeping its weight; a new brand gets an equal share, the others keep theirs */
+  saveBrand: (brand: PortfolioEntry) => void;
+  updateBrand: (id: string, patch: Partial<PortfolioEntry>) => void;
+  removeBrand: (id: string) => void;
+  setTotalBudget: (totalBudget: number) => void;
+  setObjective: (objective: PortfolioObjective) => void;
+  setShares: (shares: Record<string, number>) => void;
+}
+
+/**
+ * Brand portfolio under one total budget, kept in localStorage so brands
+ * can be planned one by one through the wizard and combined afterwards
+ *
+ * @example
+ * ```tsx
+ * const { brands, saveBrand } = usePortfolio();
+ * ```
+ */
+export const usePortfolio = create<PortfolioStore>()(
+  persist(
+    (set) => ({
+      brands: [],
+      totalBudget: 0,
+      objective: 'reach',
+      shares: {},
+      saveBrand: (brand) =>
+        set((state) => {
+          const existing = state.brands.find((b) => b.name === brand.name);
+          if (existing) {
+            return {
+              brands: state.brands.map((b) => (b.id === existing.id ? { ...brand, id: existing.id, weight: existing.weight } : b)),
+            };
+          }
+          const brands = [...state.brands, brand];
+          return {
+            brands,
+            shares: addPortfolioShare(state.shares, brand.id, brands.length),
+            totalBudget: state.totalBudget + brand.input.budget,
+          };
+        }),
+      updateBrand: (id, patch) =>
+        set((state) => ({ brands: state.brands.map((b) => (b.id === id ? { ...b, ...patch } : b)) })),
+      removeBrand: (id) =>
+        set((state) => ({
+          brands: state.brands.filter((b) => b.id !== id),
+          shares: Object.fromEntries(Object.entries(state.shares).filter(([brandId]) => brandId !== id)),
+        })),
+      setTotalBudget: (totalBudget) => set({ totalBudget: Math.max(0, totalBudget) }),
+      setObjective: (objective) => set({ objective }),
+      setShares: (shares) => set({ shares }),
+    }),
+    { name: 'frequency-calculator-portfolio' }
+  )
+);
@@ -0,0 +1,75 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { PromptTemplateORM, type PromptTemplateModel } from '@/components/data/orm/orm_prompt_template';
+import { BUILT_IN_PROMPT_TEMPLATE, type PromptTemplate } from '@/lib/prompt-templates';
+
+const QUERY_KEY = ['prompt-templates'];
+
+function toPromptTemplate(model: PromptTemplateModel): PromptTemplate {
+  return {
+    version: model.version,
+    label: model.label ?? null,
+    systemTemplate: model.system_template,
+    userTemplate: model.user_template,
+    createTime: model.create_time || null,
+  };
+}
+
+/**
+ * Versioned prompt templates of the AI brand analysis from the data store
+ *
+ * Works like the KPI coefficient versions: the highest version is in force and
+ * saving inserts the next one, so every history record can name the prompts
+ * its AI parameters came from. Falls back to the built-in prompts when the
+ * data store is unavailable.
+ *
+ * @returns The template in force, all saved versions (newest first) and `saveVersion`
+ *
+ * @example
+ * ```tsx
+ * const { current, saveVersion } = usePromptTemplates();
+ * await saveVersion({ systemTemplate, userTemplate, label: 'CPM 450 for Q4' });
+ * ```
+ */
+export function usePromptTemplates() {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: async () => {
+      const records = await PromptTemplateORM.getInstance().getAllPromptTemplate();
+      return records.map(toPromptTemplate).sort((a, b) => b.version - a.version);
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: false,
+  });
+
+  const versions = query.data ?? [];
+  const current = versions[0] ?? BUILT_IN_PROMPT_TEMPLATE;
+
+  const mutation = useMutation({
+    mutationFn: async ({ systemTemplate, userTemplate, label }: Pick<PromptTemplate, 'systemTemplate' | 'userTemplate' | 'label'>) => {
+      const [saved] = await PromptTemplateORM.getInstance().insertPromptTemplate([{
+        id: '',
+        data_creator: '',
+        data_updater: '',
+        create_time: '',
+        update_time: '',
+        version: current.version + 1,
+        label,
+        system_template: systemTemplate,
+        user_template: userTemplate,
+      }]);
+      return saved ? toPromptTemplate(saved) : null;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: QUERY_KEY }),
+  });
+
+  return {
+    current,
+    versions,
+    isLoading: query.isLoading,
+    error: query.error,
+    saveVersion: mutation.mutateAsync,
+    isSaving: mutation.isPending,
+  };
+}
@@ -0,0 +1,96 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { SeasonalityTablesORM, type SeasonalityTablesModel } from '@/components/data/orm/orm_seasonality_tables';
+import {
+  DEFAULT_SEASONALITY_TABLES,
+  normalizeSeasonalityTables,
+  type SeasonalityTables,
+} from '@/lib/frequency-engine';
+
+/**
+ * One saved version of the monthly seasonality indices
+ */
+export interface SeasonalityTableSet {
+  version: number;
+  label: string | null;
+  tables: SeasonalityTables;
+  /** 10-digit unix timestamp; null for the built-in tables */
+  createTime: string | null;
+}
+
+/** Indices the engine ships with, in force until a version is saved */
+export const BUILT_IN_SEASONALITY_SET: SeasonalityTableSet = {
+  version: 0,
+  label: 'Встроенные индексы',
+  tables: DEFAULT_SEASONALITY_TABLES,
+  createTime: null,
+};
+
+const QUERY_KEY = ['seasonality-tables'];
+
+function toTableSet(model: SeasonalityTablesModel): SeasonalityTableSet {
+  return {
+    version: model.version,
+    label: model.label ?? null,
+    tables: normalizeSeasonalityTables(model),
+    createTime: model.create_time || null,
+  };
+}
+
+/**
+ * Versioned seasonality indices from the data store, shared by every user
+ *
+ * Works like the KPI coefficient versions: the highest version is in force
+ * and saving inserts the next one. Falls back to the built-in tables when the
+ * data store is unavailable.
+ *
+ * @returns The tables in force, all saved versions (newest first) and `saveVersion`
+ *
+ * @example
+ * ```tsx
+ * const { current } = useSeasonalityTables();
+ * const adjustment = calculateSeasonality(current.tables, 'fmcg', startDate, endDate);
+ * ```
+ */
+export function useSeasonalityTables() {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: async () => {
+      const records = await SeasonalityTablesORM.getInstance().getAllSeasonalityTables();
+      return records.map(toTableSet).sort((a, b) => b.version - a.version);
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: false,
+  });
+
+  const versions = query.data ?? [];
+  const current = versions[0] ?? BUILT_IN_SEASONALITY_SET;
+
+  const mutation = useMutation({
+    mutationFn: async ({ tables, label }: { tables: SeasonalityTables; label: string | null }) => {
+      const [saved] = await SeasonalityTablesORM.getInstance().insertSeasonalityTables([{
+        id: '',
+        data_creator: '',
+        data_updater: '',
+        create_time: '',
+        update_time: '',
+        version: current.version + 1,
+        label,
+        channels: tables.channels,
+        categories: tables.categories,
+      }]);
+      return saved ? toTableSet(saved) : null;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: QUERY_KEY }),
+  });
+
+  return {
+    current,
+    versions,
+    isLoading: query.isLoading,
+    error: query.error,
+    saveVersion: mutation.mutateAsync,
+    isSaving: mutation.isPending,
+  };
+}
@@ -0,0 +1,35 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { AudienceSegment } from '@/lib/frequency-engine';
+
+interface SegmentLibraryStore {
+  segments: AudienceSegment[];
+  /** Add the segment, or replace the saved one with the same id */
+  saveSegment: (segment: AudienceSegment) => void;
+  removeSegment: (id: string) => void;
+}
+
+/**
+ * Saved audience segments, kept in localStorage so they can be reused across calculations
+ *
+ * @example
+ * ```tsx
+ * const { segments, saveSegment } = useSegmentLibrary();
+ * ```
+ */
+export const useSegmentLibrary = create<SegmentLibraryStore>()(
+  persist(
+    (set) => ({
+      segments: [],
+      saveSegment: (segment) =>
+        set((state) => ({
+          segments: state.segments.some((s) => s.id === segment.id)
+            ? state.segments.map((s) => (s.id === segment.id ? segment : s))
+            : [...state.segments, segment],
+        })),
+      removeSegment: (id) =>
+        set((state) => ({ segments: state.segments.filter((s) => s.id !== id) })),
+    }),
+    { name: 'frequency-calculator-segments' }
+  )
+);
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { coerceNumber, findJsonObjects, linkParameterCitations, parseAIResponse, repairJson } from "@/lib/ai-response";
+
+const parameters = {
+  brand_awareness: { id: "brand_awareness", value: 1, insight: "Известный бренд", source: "Опрос" },
+  market_saturation: { id: "market_saturation", value: 0.5, insight: "", source: "" },
+  campaign_goal: { id: "campaign_goal", value: 0, insight: "", source: "" },
+  target_audience: { id: "target_audience", value: -1, insight: "", source: "" },
+  product_complexity: { id: "product_complexity", value: 0, insight: "", source: "" },
+  message_complexity: { id: "message_complexity", value: 0.5, insight: "", source: "" },
+};
+
+describe("AI response parser", () => {
+  it("reads the analysis from an OpenAI-style completion with prose, fences and nested objects", () => {
+    const json = JSON.stringify({
+      parameters,
+      ta_capacity_rf: 2000000,
+      kpi_benchmarks: { awareness_tom_base: 0.2, consideration_search_base: 0.3, conversion_uplift_base: 0.1, retention_ltv_base: 0.05 },
+    });
+    const fenced = parseAIResponse({ choices: [{ message: { content: "Вот анализ:\n```json\n" + json + "\n```" } }] });
+    expect(fenced.success && fenced.data.kpi_benchmarks?.retention_ltv_base).toBe(0.05);
+
+    // Without a fence the whole nested object is found, not cut at the first "}"
+    const inline = parseAIResponse({ text: `Анализ бренда: ${json} Конец.` });
+    expect(inline.success && inline.data.ta_capacity_rf).toBe(2000000);
+    expect(findJsonObjects('a {"x": {"y": "}"}} b {"z": 1}')).toEqual(['{"x": {"y": "}"}}', '{"z": 1}']);
+  });
+
+  it("repairs trailing commas and numbers written as strings", () => {
+    expect(repairJson('{"a": [1, 2,], "b": "x,}",}')).toBe('{"a": [1, 2], "b": "x,}"}');
+    expect(coerceNumber("1,5")).toBe(1.5);
+    expect(coerceNumber("2 000 000")).toBe(2000000);
+    expect(coerceNumber("1,200,000")).toBe(1200000);
+    expect(coerceNumber("12%")).toBe(12);
+    expect(coerceNumber("0,085")).toBe(0.085);
+    expect(coerceNumber("0,100")).toBe(0.1);
+
+    // Typographic quotes inside a value are text, not the end of the string
+    expect(JSON.parse(repairJson('{"insight": "Бренд “Лидер” известен", "value": 1,}'))).toEqual({
+      insight: "Бренд “Лидер” известен",
+      value: 1,
+    });
+    expect(JSON.parse(repairJson('{“insight”: “Бренд”, “value”: 1}'))).toEqual({ insight: "Бренд", value: 1 });
+
+    const text = `{"parameters": ${JSON.stringify({
+      ...parameters,
+      brand_awareness: { ...parameters.brand_awareness, value: "-1,5" },
+    })}, "recommended_budget": "3 500 000",}`;
+    const result = parseAIResponse(text);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.parameters.brand_awareness.value).toBe(-1.5);
+    expect(result.data.recommended_budget).toBe(3500000);
+  });
+
+  it("reports missing and invalid parameters and drops invalid optional fields", () => {
+    const { brand_awareness: _missing, ...rest } = parameters;
+    const rejected = parseAIResponse({
+      parameters: { ...rest, target_audience: { value: "высокая" } },
+    });
+    expect(rejected.success).toBe(false);
+    if (rejected.success) return;
+    expect(rejected.missingParameters).toEqual(["brand_awareness"]);
+    expect(rejected.invalidParameters).toEqual(["target_audience"]);
+    expect(rejected.issues.map((issue) => issue.path)).toContain("parameters.target_audience.value");
+
+    const accepted = parseAIResponse({ parameters, kpi_benchmarks: { awareness_tom_base: 0.2 } });
+    expect(accepted.success).toBe(true);
+    if (!accepted.success) return;
+    expect(accepted.data.kpi_benchmarks).toBeUndefined();
+    expect(accepted.warnings.map((issue) => issue.path)).toContain("kpi_benchmarks.retention_ltv_base");
+  });
+
+  it("reads the provider citations and links them to each parameter", () => {
+    const result = parseAIResponse({
+      choices: [{ message: { content: JSON.stringify({ parameters }) } }],
+      citations: ["https://a.example/report", "https://b.example/", "https://c.example/data"],
+      search_results: [{ title: "Отчёт A", url: "https://a.example/report" }],
+    });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.citations[0]).toEqual({ index: 1, url: "https://a.example/report", title: "Отчёт A" });
+
+    const link = (parameter: object) =>
+      linkParameterCitations({ value: 0, ...parameter }, result.citations).map((citation) => citation.index);
+    expect(link({ source: "Опрос [3], рынок [1, 2]" })).toEqual([1, 2, 3]);
+    expect(link({ citations: [2, "https://c.example/data"], source: "https://b.example" })).toEqual([2, 3]);
+    // Markers without a retrieved source and URLs the model made up back nothing
+    expect(link({ insight: "См. [7]", source: "https://made-up.example" })).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import type { AIParameter } from "./schema";
+
+/**
+ * A source the provider actually retrieved, as opposed to the free-text
+ * `source` the model writes
+ */
+export interface AICitation {
+  /** 1-based number the model refers to the source by, as in "[2]" */
+  index: number;
+  url: string;
+  title?: string;
+}
+
+// Fields the citation list may be nested in
+const CONTAINER_FIELDS = ["response", "data", "result", "output"];
+const MARKER_PATTERN = /\[(\d+(?:\s*[,;]\s*\d+)*)\]/g;
+const URL_PATTERN = /https?:\/\/[^\s\])>"',]+/g;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toSource(entry: unknown): { url: string; title?: string } | null {
+  if (typeof entry === "string") return /^https?:\/\//.test(entry) ? { url: entry } : null;
+  if (!isRecord(entry) || typeof entry.url !== "string") return null;
+  return { url: entry.url, title: typeof entry.title === "string" && entry.title ? entry.title : undefined };
+}
+
+function normalizeUrl(url: string): string {
+  return url.replace(/[/.]+$/, "").toLowerCase();
+}
+
+/**
+ * Citations of a provider response: Perplexity's `citations` URL list,
+ * titled by `search_results` when present, or `search_results` alone
+ */
+export function extractCitations(response: unknown, depth = 0): AICitation[] {
+  if (!isRecord(response) || depth > 3) return [];
+
+  const citations = Array.isArray(response.citations) ? response.citations.map(toSource) : [];
+  const results = Array.isArray(response.search_results) ? response.search_results.map(toSource) : [];
+  const titles = new Map(
+    results.flatMap((result) => (result?.title ? [[normalizeUrl(result.url), result.title] as const] : []))
+  );
+  const sources = citations.some(Boolean) ? citations : results;
+  if (sources.some(Boolean)) {
+    return sources.flatMap((source, i) =>
+      source ? [{ index: i + 1, url: source.url, title: source.title ?? titles.get(normalizeUrl(source.url)) }] : []
+    );
+  }
+
+  for (const field of CONTAINER_FIELDS) {
+    const nested = extractCitations(response[field], depth + 1);
+    if (nested.length > 0) return nested;
+  }
+  return [];
+}
+
+/**
+ * Citations behind one parameter: the numbers it lists in `citations`,
+ * "[n]" markers in its insight or source and URLs of retrieved sources
+ * quoted in the source text. Anything not among the retrieved sources is ignored.
+ */
+export function linkParameterCitations(parameter: AIParameter, citations: AICitation[]): AICitation[] {
+  const byIndex = new Map(citations.map((citation) => [citation.index, citation]));
+  const byUrl = new Map(citations.map((citation) => [normalizeUrl(citation.url), citation]));
+  const linked = new Set<AICitation>();
+  const add = (citation: AICitation | undefined) => {
+    if (citation) linked.add(citation);
+  };
+
+  for (const reference of parameter.citations ?? []) {
+    add(typeof reference === "number" ? byIndex.get(reference) : byUrl.get(normalizeUrl(reference)));
+  }
+  const text = `${parameter.insight ?? ""} ${parameter.source ?? ""}`;
+  for (const [, numbers] of text.matchAll(MARKER_PATTERN)) {
+    for (const number of numbers.split(/[,;]/)) add(byIndex.get(Number(number.trim())));
+  }
+  for (const [url] of text.matchAll(URL_PATTERN)) {
+    add(byUrl.get(normalizeUrl(url)));
+  }
+
+  return [...linked].sort((a, b) => a.index - b.index);
+}
@@ -0,0 +1,13 @@
+/**
+ * AI response parsing
+ *
+ * Finds the analysis JSON in whatever shape the provider returns it,
+ * repairs common model mistakes and validates it against a runtime schema,
+ * reporting every missing or invalid field, and links the estimates to the
+ * sources the provider cited.
+ */
+
+export * from "./schema";
+export * from "./repair";
+export * from "./parser";
+export * from "./citations";
@@ -0,0 +1,138 @@
+import type { z } from "zod";
+import { extractCitations, type AICitation } from "./citations";
+import { findJsonObjects, parseJsonLenient, stripCodeFence } from "./repair";
+import {
+  AI_PARAMETER_KEYS,
+  aiOptionalFieldSchemas,
+  aiParametersSchema,
+  type AIParameterKey,
+  type AIResponse,
+} from "./schema";
+
+export interface AIResponseIssue {
+  /** Dotted path of the field, e.g. "parameters.brand_awareness.value" */
+  path: string;
+  message: string;
+}
+
+export type AIResponseParseResult =
+  | {
+    success: true;
+    data: AIResponse;
+    /** Optional sections that were present but invalid and have been dropped */
+    warnings: AIResponseIssue[];
+    /** Sources the provider retrieved; see `linkParameterCitations` */
+    citations: AICitation[];
+  }
+  | {
+    success: false;
+    error: string;
+    issues: AIResponseIssue[];
+    /** Parameters absent from the response */
+    missingParameters: AIParameterKey[];
+    /** Parameters present but with a value that could not be read */
+    invalidParameters: AIParameterKey[];
+  };
+
+// Wrapper fields some providers put the completion text or object in
+const CONTAINER_FIELDS = ["content", "text", "output", "result", "data"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toIssues(error: z.ZodError, prefix: string): AIResponseIssue[] {
+  return error.issues.map((issue) => ({
+    path: [prefix, ...issue.path].join("."),
+    message: issue.message,
+  }));
+}
+
+function parseText(text: string): Record<string, unknown> | null {
+  const candidates = [stripCodeFence(text), ...findJsonObjects(text)];
+  let fallback: Record<string, unknown> | null = null;
+  for (const candidate of candidates) {
+    try {
+      const parsed = parseJsonLenient(candidate);
+      if (isRecord(parsed) && "parameters" in parsed) return parsed;
+      fallback ??= isRecord(parsed) ? parsed : null;
+    } catch {
+      // Not JSON, try the next candidate
+    }
+  }
+  return fallback;
+}
+
+/**
+ * Find the analysis object in a provider response: an OpenAI-style
+ * `choices[0].message.content`, the object itself, a JSON string (possibly
+ * fenced or wrapped in prose) or one of the usual wrapper fields
+ */
+export function extractAIPayload(response: unknown): Record<string, unknown> | null {
+  if (typeof response === "string") return parseText(response);
+  if (!isRecord(response)) return null;
+  if ("parameters" in response) return response;
+
+  const choices = response.choices;
+  if (Array.isArray(choices) && isRecord(choices[0]) && isRecord(choices[0].message)) {
+    const content = extractAIPayload(choices[0].message.content);
+    if (content) return content;
+  }
+
+  for (const field of CONTAINER_FIELDS) {
+    if (!(field in response)) continue;
+    const payload = extractAIPayload(response[field]);
+    if (payload && "parameters" in payload) return payload;
+  }
+  return null;
+}
+
+/**
+ * Extract and validate the AI analysis. All six parameters are required;
+ * the optional sections are kept when valid and reported as warnings otherwise.
+ */
+export function parseAIResponse(response: unknown): AIResponseParseResult {
+  const payload = extractAIPayload(response);
+  if (!payload) {
+    return {
+      success: false,
+      error: "Валидный JSON не найден в ответе ИИ",
+      issues: [],
+      missingParameters: [...AI_PARAMETER_KEYS],
+      invalidParameters: [],
+    };
+  }
+
+  const rawParameters = isRecord(payload.parameters) ? payload.parameters : {};
+  const parameters = aiParametersSchema.safeParse(rawParameters);
+  if (!parameters.success) {
+    const failed = new Set(parameters.error.issues.map((issue) => issue.path[0] as AIParameterKey));
+    const isMissing = (key: AIParameterKey) => {
+      const parameter = rawParameters[key];
+      return !isRecord(parameter) || parameter.value === undefined || parameter.value === null || parameter.value === "";
+    };
+    const keys = AI_PARAMETER_KEYS.filter((key) => failed.has(key));
+    return {
+      success: false,
+      error: "Ответ ИИ не прошёл проверку",
+      issues: toIssues(parameters.error, "parameters"),
+      missingParameters: keys.filter(isMissing),
+      invalidParameters: keys.filter((key) => !isMissing(key)),
+    };
+  }
+
+  const data: AIResponse = { parameters: parameters.data };
+  const warnings: AIResponseIssue[] = [];
+  for (const key of Object.keys(aiOptionalFieldSchemas) as Array<keyof typeof aiOptionalFieldSchemas>) {
+    const value = payload[key];
+    if (value === undefined || value === null) continue;
+    const field = aiOptionalFieldSchemas[key].safeParse(value);
+    if (field.success) {
+      (data as Record<string, unknown>)[key] = field.data;
+    } else {
+      warnings.push(...toIssues(field.error, key));
+    }
+  }
+
+  return { success: true, data, warnings, citations: extractCitations(response) };
+}
@@ -0,0 +1,112 @@
+/**
+ * Extraction and repair of JSON embedded in free-form model output.
+ */
+
+/**
+ * Body of a ```json fenced block, if there is one
+ */
+export function stripCodeFence(text: string): string {
+  const match = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
+  return match ? match[1] : text;
+}
+
+/**
+ * Every top-level `{...}` object in the text, matched by brace depth so
+ * nested objects and braces inside strings do not end it early
+ */
+export function findJsonObjects(text: string): string[] {
+  const objects: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = depth > 0;
+    } else if (char === "{") {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === "}" && depth > 0) {
+      depth--;
+      if (depth === 0) objects.push(text.slice(start, i + 1));
+    }
+  }
+
+  return objects;
+}
+
+/**
+ * Fix the usual model mistakes outside string literals: trailing commas,
+ * smart quotes around keys and values, and // comments. Smart quotes inside
+ * a string value are text and are kept as they are.
+ */
+export function repairJson(text: string): string {
+  let result = "";
+  let inString = false;
+  // Whether the current string was opened by a smart quote, so a smart quote can close it
+  let smartString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      } else if (smartString && isSmartQuote(char) && /^\s*([:,}\]]|$)/.test(text.slice(i + 1))) {
+        // A smart quote followed by a separator ends the key or value it opened
+        result += '"';
+        inString = false;
+        continue;
+      }
+      result += char;
+      continue;
+    }
+    if (char === '"' || isSmartQuote(char)) {
+      inString = true;
+      smartString = char !== '"';
+      result += '"';
+      continue;
+    }
+    if (char === "/" && text[i + 1] === "/") {
+      // Drop the comment up to the end of the line
+      while (i < text.length && text[i] !== "\n") i++;
+      result += "\n";
+      continue;
+    }
+    if (char === ",") {
+      // A comma followed only by whitespace and a closing bracket is dropped
+      const rest = text.slice(i + 1).match(/^\s*([}\]])/);
+      if (rest) continue;
+    }
+    result += char;
+  }
+
+  return result;
+}
+
+function isSmartQuote(char: string): boolean {
+  return char === "“" || char === "”";
+}
+
+/**
+ * Parse JSON, repairing it first if it does not parse as is
+ */
+export function parseJsonLenient(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return JSON.parse(repairJson(text));
+  }
+}
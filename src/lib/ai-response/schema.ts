@@ -0,0 +1,92 @@
+import { z } from "zod";
+import type { SliderParams } from "@/lib/frequency-engine";
+
+/**
+ * Runtime schema of the AI analysis response.
+ *
+ * Numbers are accepted as strings too ("1,5", "2 000 000", "15%"), since
+ * models often quote them; everything else must match the requested format.
+ */
+
+/** Parameter names of the AI response, in slider order */
+export const AI_PARAMETER_KEYS = [
+  "brand_awareness",
+  "market_saturation",
+  "campaign_goal",
+  "target_audience",
+  "product_complexity",
+  "message_complexity",
+] as const;
+
+export type AIParameterKey = (typeof AI_PARAMETER_KEYS)[number];
+
+/** Slider each AI parameter sets */
+export const AI_PARAMETER_SLIDERS: Record<AIParameterKey, keyof SliderParams> = {
+  brand_awareness: "brandAwareness",
+  market_saturation: "marketSaturation",
+  campaign_goal: "campaignGoal",
+  target_audience: "targetAudience",
+  product_complexity: "productComplexity",
+  message_complexity: "messageComplexity",
+};
+
+/**
+ * Read a number written as a string: spaces and a trailing % are dropped,
+ * "1,200,000" is a thousands separator, any other comma is a decimal point,
+ * including "0,085" where the integer part is zero
+ */
+export function coerceNumber(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  let text = value.replace(/[\s ]/g, "").replace(/%$/, "");
+  text = /^[+-]?[1-9]\d{0,2}(,\d{3})+(\.\d+)?$/.test(text) ? text.replace(/,/g, "") : text.replace(",", ".");
+  const number = Number(text);
+  // Leave unreadable strings as they are so the schema reports them
+  return text !== "" && Number.isFinite(number) ? number : value;
+}
+
+const numberish = z.preprocess(coerceNumber, z.number().finite());
+
+const parameterSchema = z.object({
+  id: z.string().optional(),
+  value: numberish,
+  insight: z.string().optional(),
+  source: z.string().optional(),
+  /** Numbers or URLs of the retrieved sources behind the estimate; dropped when malformed */
+  citations: z.array(z.union([numberish, z.string()])).optional().catch(undefined),
+});
+
+export const aiParametersSchema = z.object(
+  Object.fromEntries(AI_PARAMETER_KEYS.map((key) => [key, parameterSchema])) as Record<AIParameterKey, typeof parameterSchema>
+);
+
+export const aiKpiBenchmarksSchema = z.object({
+  awareness_tom_base: numberish,
+  consideration_search_base: numberish,
+  conversion_uplift_base: numberish,
+  retention_ltv_base: numberish,
+});
+
+export const aiCompetitorSchema = z.object({
+  name: z.string().optional(),
+  estimated_spend: numberish,
+});
+
+/** Optional sections; an invalid one is dropped rather than failing the whole response */
+export const aiOptionalFieldSchemas = {
+  ta_capacity_rf: numberish,
+  kpi_benchmarks: aiKpiBenchmarksSchema,
+  recommended_budget: numberish,
+  budget_reasoning: z.string(),
+  competitors: z.array(aiCompetitorSchema),
+  share_of_market: numberish,
+};
+
+export const aiResponseSchema = z.object({
+  parameters: aiParametersSchema,
+  ...Object.fromEntries(
+    Object.entries(aiOptionalFieldSchemas).map(([key, schema]) => [key, schema.optional()])
+  ) as { [K in keyof typeof aiOptionalFieldSchemas]: z.ZodOptional<(typeof aiOptionalFieldSchemas)[K]> },
+});
+
+export type AIParameter = z.infer<typeof parameterSchema>;
+export type AIResponse = z.infer<typeof aiResponseSchema>;
@@ -0,0 +1,70 @@
+import { DEFAULT_PLANNING } from "./constants";
+import { calculateFrequency } from "./frequency";
+import { calculateConversionUplift, calculateCoverage, calculateLTVGrowth, calculateSearchUplift, calculateTOM } from "./kpi";
+import type { CalculationInput, CalculationResult, CampaignGoal, ForecastPoint, FrequencyResult } from "./types";
+
+/**
+ * Run the whole calculation for one set of inputs.
+ * Pass `frequencyOverride` to drive the KPIs from another method (e.g. the Ostrow worksheet).
+ */
+export function runCalculation(input: CalculationInput, frequencyOverride?: FrequencyResult): CalculationResult {
+  const frequency = frequencyOverride ?? calculateFrequency(input.params, input.frequencyModel);
+  const tom = calculateTOM(input, frequency.frequency);
+  const ltvGrowth = calculateLTVGrowth(input, frequency.frequency);
+  const coverage = calculateCoverage(input, frequency.frequency);
+  const searchUplift = calculateSearchUplift(input, frequency.frequency, coverage.value);
+  const conversionUplift = calculateConversionUplift(input, frequency.frequency, coverage.value);
+  const kpis = { tom, ltvGrowth, searchUplift, conversionUplift };
+
+  return {
+    frequency,
+    ...kpis,
+    coverage,
+    goalKPI: input.goal ? getGoalKPI(kpis, input.goal) : tom.value,
+  };
+}
+
+/**
+ * Forecast of the KPI each campaign goal is measured by
+ */
+export function getGoalKPI(
+  kpis: Pick<CalculationResult, "tom" | "ltvGrowth" | "searchUplift" | "conversionUplift">,
+  goal: CampaignGoal
+): number {
+  switch (goal) {
+    case "awareness": return kpis.tom.value;
+    case "consideration": return kpis.searchUplift.value;
+    case "conversion": return kpis.conversionUplift.value;
+    case "retention": return kpis.ltvGrowth.value;
+  }
+}
+
+/**
+ * Headline figures of a calculation result
+ */
+export function toForecastPoint(result: CalculationResult): ForecastPoint {
+  return {
+    frequency: result.frequency.frequency,
+    coverage: result.coverage.value,
+    goalKPI: result.goalKPI,
+  };
+}
+
+/**
+ * Scale every media price in the input (CPM, cost per TRP, channel CPMs) by `factor`
+ */
+export function applyPriceIndex(input: CalculationInput, factor: number): CalculationInput {
+  const planning = input.planning ?? DEFAULT_PLANNING;
+  return {
+    ...input,
+    planning: {
+      ...planning,
+      cpm: planning.cpm * factor,
+      costPerTrp: planning.costPerTrp * factor,
+    },
+    mediaMix: input.mediaMix && {
+      ...input.mediaMix,
+      channels: input.mediaMix.channels.map((channel) => ({ ...channel, cpm: channel.cpm * factor })),
+    },
+  };
+}
@@ -0,0 +1,235 @@
+import { calculateConversionUplift, calculateCoverage, calculateLTVGrowth, calculateSearchUplift, calculateTOM } from "./kpi";
+import type { CalculationInput, CampaignGoal, KpiCoefficients } from "./types";
+
+/**
+ * Calibration of the KPI coefficients against post-campaign studies.
+ *
+ * TOM and LTV have the form
+ *   KPI = Scale × K × (1 + (Frequency − 1) × Slope)
+ * where K is everything else (benchmark base, budget and goal corrections).
+ * Expanding gives a linear model in a = Scale and b = Scale × Slope:
+ *   KPI = a × K + b × K × (Frequency − 1)
+ * which is fitted by ordinary least squares. With too few or degenerate
+ * samples only the scale is fitted and the slope is kept.
+ * Search and conversion uplift only have a scale, fitted the same way; they
+ * use the measured reach when the study reports it.
+ */
+
+export interface CampaignActuals {
+  /** Measured effective reach, % */
+  reach: number | null;
+  /** Measured TOM lift, p.p. */
+  tomLift: number | null;
+  /** Measured branded search growth, % */
+  searchLift: number | null;
+  /** Measured conversion lift, % */
+  conversionLift: number | null;
+  /** Measured LTV change, % */
+  ltvChange: number | null;
+}
+
+export interface CalibrationSample {
+  id: string;
+  /** Inputs the forecast was made with; goal and budget must be set */
+  input: CalculationInput;
+  frequency: number;
+  actuals: CampaignActuals;
+  /** Coefficient set the forecast was made with; the current set when omitted */
+  coefficients?: KpiCoefficients;
+}
+
+export type KpiFormula = "tom" | "search" | "conversion" | "ltv";
+
+export interface GoalForecastError {
+  goal: CampaignGoal;
+  count: number;
+  /** Mean absolute percentage error of the forecasts as made, each with its own coefficient set, % */
+  mapeBefore: number | null;
+  /** Mean absolute percentage error with the fitted coefficients, % */
+  mapeAfter: number | null;
+}
+
+export interface CalibrationResult {
+  coefficients: KpiCoefficients;
+  /** Observations per formula */
+  samples: Record<KpiFormula, number>;
+  errors: GoalForecastError[];
+}
+
+interface FitPoint {
+  goal: CampaignGoal;
+  /** Formula value with unit scale and zero slope */
+  base: number;
+  frequency: number;
+  actual: number;
+  /** KPI the campaign was forecast with */
+  forecast: number;
+}
+
+/** Formula each campaign goal is measured by */
+export const GOAL_KPI_FORMULAS: Record<CampaignGoal, KpiFormula> = {
+  awareness: "tom",
+  consideration: "search",
+  conversion: "conversion",
+  retention: "ltv",
+};
+
+const ACTUALS_BY_FORMULA: Record<KpiFormula, keyof CampaignActuals> = {
+  tom: "tomLift",
+  search: "searchLift",
+  conversion: "conversionLift",
+  ltv: "ltvChange",
+};
+
+// Neutral scales and slopes: the formulas then return K itself, shaped by the budget and saturation terms of the set
+function toUnitCoefficients(coefficients: KpiCoefficients): KpiCoefficients {
+  return {
+    ...coefficients,
+    tomScale: 1,
+    tomFrequencySlope: 0,
+    ltvScale: 1,
+    ltvFrequencySlope: 0,
+    searchScale: 1,
+    conversionScale: 1,
+  };
+}
+
+/**
+ * Measured value of the KPI the goal is forecast by
+ */
+export function getMeasuredGoalKPI(goal: CampaignGoal, actuals: CampaignActuals): number | null {
+  return actuals[ACTUALS_BY_FORMULA[GOAL_KPI_FORMULAS[goal]]];
+}
+
+/**
+ * Fit `KPI = Scale × K` by least squares
+ */
+export function fitScale(points: Array<{ base: number; actual: number }>, fallback: number): number {
+  const szz = points.reduce((acc, { base }) => acc + base * base, 0);
+  const szy = points.reduce((acc, { base, actual }) => acc + base * actual, 0);
+  return szz > 0 ? Math.max(0, szy / szz) : fallback;
+}
+
+/**
+ * Fit scale and slope of `KPI = Scale × K × (1 + (F − 1) × Slope)` by least squares
+ */
+export function fitScaleAndSlope(
+  points: Array<{ base: number; frequency: number; actual: number }>,
+  fallback: { scale: number; slope: number }
+): { scale: number; slope: number } {
+  if (points.length === 0) return fallback;
+
+  let s11 = 0, s12 = 0, s22 = 0, t1 = 0, t2 = 0;
+  for (const { base, frequency, actual } of points) {
+    const x1 = base;
+    const x2 = base * (frequency - 1);
+    s11 += x1 * x1;
+    s12 += x1 * x2;
+    s22 += x2 * x2;
+    t1 += x1 * actual;
+    t2 += x2 * actual;
+  }
+
+  const det = s11 * s22 - s12 * s12;
+  if (points.length >= 2 && det > 1e-9 * s11 * s22) {
+    const scale = (t1 * s22 - t2 * s12) / det;
+    const slope = scale !== 0 ? (s11 * t2 - s12 * t1) / det / scale : 0;
+    if (scale > 0 && slope >= 0) return { scale, slope };
+  }
+
+  // Scale only, slope kept: one regressor z = K × (1 + (F − 1) × Slope)
+  const scaled = points.map(({ base, frequency, actual }) => ({
+    base: base * (1 + (frequency - 1) * fallback.slope),
+    actual,
+  }));
+  return { scale: fitScale(scaled, fallback.scale), slope: fallback.slope };
+}
+
+/**
+ * Mean absolute percentage error, %; pairs with a zero actual are skipped
+ */
+export function calculateMape(pairs: Array<{ forecast: number; actual: number }>): number | null {
+  const valid = pairs.filter((pair) => pair.actual !== 0);
+  if (valid.length === 0) return null;
+  return (valid.reduce((acc, { forecast, actual }) => acc + Math.abs((actual - forecast) / actual), 0) / valid.length) * 100;
+}
+
+/**
+ * Fit the KPI coefficients to the measured results and compare forecast errors before and after.
+ * Every measured KPI informs its formula, whatever the campaign goal was.
+ */
+export function calibrateCoefficients(samples: CalibrationSample[], current: KpiCoefficients): CalibrationResult {
+  const points: Record<KpiFormula, FitPoint[]> = { tom: [], search: [], conversion: [], ltv: [] };
+
+  for (const { input, frequency, actuals, coefficients: forecastCoefficients } of samples) {
+    if (!input.goal || !(input.budget > 0)) continue;
+    const goal = input.goal;
+    const unitInput = { ...input, coefficients: toUnitCoefficients(current) };
+    const plannedReach = calculateCoverage(input, frequency).value;
+    const reach = actuals.reach ?? plannedReach;
+    const bases: Record<KpiFormula, number> = {
+      tom: calculateTOM(unitInput, frequency).value,
+      search: calculateSearchUplift(unitInput, frequency, reach).value,
+      conversion: calculateConversionUplift(unitInput, frequency, reach).value,
+      ltv: calculateLTVGrowth(unitInput, frequency).value,
+    };
+    // The forecast as it was made: its own coefficient set and the planned reach
+    const forecastInput = { ...input, coefficients: forecastCoefficients ?? current };
+    const forecasts: Record<KpiFormula, number> = {
+      tom: calculateTOM(forecastInput, frequency).value,
+      search: calculateSearchUplift(forecastInput, frequency, plannedReach).value,
+      conversion: calculateConversionUplift(forecastInput, frequency, plannedReach).value,
+      ltv: calculateLTVGrowth(forecastInput, frequency).value,
+    };
+    for (const formula of Object.keys(points) as KpiFormula[]) {
+      const actual = actuals[ACTUALS_BY_FORMULA[formula]];
+      if (actual !== null) {
+        points[formula].push({ goal, frequency, actual, base: bases[formula], forecast: forecasts[formula] });
+      }
+    }
+  }
+
+  const tom = fitScaleAndSlope(points.tom, { scale: current.tomScale, slope: current.tomFrequencySlope });
+  const ltv = fitScaleAndSlope(points.ltv, { scale: current.ltvScale, slope: current.ltvFrequencySlope });
+  // The budget and saturation terms are not fitted; they carry over from the current set
+  const coefficients: KpiCoefficients = {
+    ...current,
+    tomScale: tom.scale,
+    tomFrequencySlope: tom.slope,
+    ltvScale: ltv.scale,
+    ltvFrequencySlope: ltv.slope,
+    searchScale: fitScale(points.search, current.searchScale),
+    conversionScale: fitScale(points.conversion, current.conversionScale),
+  };
+
+  const predict = (formula: KpiFormula, point: FitPoint, set: KpiCoefficients) => {
+    switch (formula) {
+      case "tom": return set.tomScale * point.base * (1 + (point.frequency - 1) * set.tomFrequencySlope);
+      case "ltv": return set.ltvScale * point.base * (1 + (point.frequency - 1) * set.ltvFrequencySlope);
+      case "search": return set.searchScale * point.base;
+      case "conversion": return set.conversionScale * point.base;
+    }
+  };
+
+  const errors = (Object.keys(GOAL_KPI_FORMULAS) as CampaignGoal[]).map((goal): GoalForecastError => {
+    const formula = GOAL_KPI_FORMULAS[goal];
+    const goalPoints = points[formula].filter((point) => point.goal === goal);
+    return {
+      goal,
+      count: goalPoints.length,
+      mapeBefore: calculateMape(goalPoints.map(({ forecast, actual }) => ({ forecast, actual }))),
+      mapeAfter: calculateMape(goalPoints.map((point) => ({ forecast: predict(formula, point, coefficients), actual: point.actual }))),
+    };
+  });
+
+  return {
+    coefficients,
+    samples: {
+      tom: points.tom.length,
+      search: points.search.length,
+      conversion: points.conversion.length,
+      ltv: points.ltv.length,
+    },
+    errors,
+  };
+}
@@ -0,0 +1,69 @@
+import type { CampaignGoal, KpiBaselines, KpiBenchmarks, KpiCoefficients, PlanningSettings, SliderParams } from "./types";
+
+export const DEFAULT_SLIDER_PARAMS: SliderParams = {
+  brandAwareness: 0,
+  marketSaturation: 0,
+  campaignGoal: 0,
+  targetAudience: 0,
+  productComplexity: 0,
+  messageComplexity: 0,
+};
+
+export const CAMPAIGN_GOAL_LABELS: Record<CampaignGoal, string> = {
+  awareness: "Узнаваемость",
+  consideration: "Рассмотрение",
+  conversion: "Конверсия",
+  retention: "Удержание",
+};
+
+export const DEFAULT_KPI_BENCHMARKS: KpiBenchmarks = {
+  awareness_tom_base: 0.15,
+  consideration_search_base: 0.25,
+  conversion_uplift_base: 0.08,
+  retention_ltv_base: 0.04,
+};
+
+// Built-in coefficient set, used until a version is saved in the data store
+export const DEFAULT_KPI_COEFFICIENTS: KpiCoefficients = {
+  tomScale: 3.5,
+  tomFrequencySlope: 0.08,
+  ltvScale: 7,
+  ltvFrequencySlope: 0.05,
+  searchScale: 1,
+  conversionScale: 1,
+  tomBudgetReference: 500000,
+  ltvSaturationPenalty: 0.1,
+  ltvBudgetReference: 1000000,
+};
+
+export const DEFAULT_KPI_BASELINES: KpiBaselines = {
+  searchVolume: 10000,
+  conversionRate: 2,
+  sessions: 50000,
+};
+
+export const DEFAULT_TA_CAPACITY_RF = 1000000;
+
+// Slider range for every frequency parameter
+export const PARAM_MIN = -2.0;
+export const PARAM_MAX = 2.0;
+
+// Allowed effective frequency range
+export const FREQUENCY_BASE = 1.0;
+export const FREQUENCY_MIN = 1.0;
+export const FREQUENCY_MAX = 15.0;
+
+// Фиксированный CPM (средний российский)
+export const DEFAULT_CPM = 400;
+
+// NBD reach model: shape k and the number of histogram buckets
+export const DEFAULT_NBD_SHAPE = 1.0;
+export const DEFAULT_MAX_EXPOSURES = 15;
+
+export const DEFAULT_PLANNING: PlanningSettings = {
+  mode: "cpm",
+  cpm: DEFAULT_CPM,
+  costPerTrp: 150000,
+  affinity: 100,
+  universe: null,
+};
@@ -0,0 +1,182 @@
+import { DEFAULT_MAX_EXPOSURES, DEFAULT_NBD_SHAPE } from "./constants";
+
+/**
+ * Reach/frequency distribution based on the negative binomial (NBD) model.
+ *
+ * The number of exposures per person follows NBD with mean m = GRP / 100
+ * and shape k (audience heterogeneity: lower k means exposures are
+ * concentrated on fewer people, so reach 1+ is lower for the same GRPs).
+ */
+
+export interface DistributionInput {
+  /** Gross rating points delivered against the target audience */
+  grp: number;
+  /** NBD shape parameter k */
+  shape?: number;
+  /** Highest exposure bucket; the last bucket is "maxExposures+" */
+  maxExposures?: number;
+}
+
+export interface DistributionBucket {
+  exposures: number;
+  /** Share of the target audience reached exactly `exposures` times, % */
+  share: number;
+  /** Share reached at least `exposures` times, % */
+  cumulative: number;
+  /** True for the last bucket, which holds everyone at `exposures`+ */
+  isTail: boolean;
+}
+
+export interface FrequencyDistribution {
+  grp: number;
+  shape: number;
+  /** Reach 1+, % */
+  reach1Plus: number;
+  /** Average frequency among the reached audience */
+  averageFrequency: number;
+  buckets: DistributionBucket[];
+}
+
+/**
+ * Probability of exactly 0..maxExposures exposures under NBD(mean, shape)
+ */
+function nbdProbabilities(mean: number, shape: number, maxExposures: number): number[] {
+  const probabilities: number[] = [];
+  const ratio = mean / (shape + mean);
+
+  let p = Math.pow(shape / (shape + mean), shape);
+  probabilities.push(p);
+
+  for (let n = 1; n <= maxExposures; n++) {
+    p = p * ((shape + n - 1) / n) * ratio;
+    probabilities.push(p);
+  }
+
+  return probabilities;
+}
+
+/**
+ * Calculate the share of the target audience reached exactly 1, 2, 3 ... n times
+ */
+export function calculateFrequencyDistribution(input: DistributionInput): FrequencyDistribution {
+  const shape = input.shape ?? DEFAULT_NBD_SHAPE;
+  const maxExposures = input.maxExposures ?? DEFAULT_MAX_EXPOSURES;
+  const grp = Math.max(0, input.grp);
+  const mean = grp / 100;
+
+  if (mean === 0 || shape <= 0) {
+    return {
+      grp,
+      shape,
+      reach1Plus: 0,
+      averageFrequency: 0,
+      buckets: Array.from({ length: maxExposures }, (_, i) => ({
+        exposures: i + 1,
+        share: 0,
+        cumulative: 0,
+        isTail: i + 1 === maxExposures,
+      })),
+    };
+  }
+
+  const probabilities = nbdProbabilities(mean, shape, maxExposures);
+  const reach1Plus = 1 - probabilities[0];
+
+  const buckets: DistributionBucket[] = [];
+  let cumulative = reach1Plus;
+  for (let n = 1; n <= maxExposures; n++) {
+    const isTail = n === maxExposures;
+    // The last bucket collects the whole remaining tail
+    const share = isTail ? cumulative : probabilities[n];
+    buckets.push({
+      exposures: n,
+      share: share * 100,
+      cumulative: cumulative * 100,
+      isTail,
+    });
+    cumulative -= probabilities[n];
+  }
+
+  return {
+    grp,
+    shape,
+    reach1Plus: reach1Plus * 100,
+    averageFrequency: mean / reach1Plus,
+    buckets,
+  };
+}
+
+/**
+ * Share of the target audience reached at least `threshold` times, %
+ */
+export function getEffectiveReach(distribution: FrequencyDistribution, threshold: number): number {
+  if (threshold <= 1) return distribution.reach1Plus;
+
+  const bucket = distribution.buckets.find((b) => b.exposures === threshold);
+  if (bucket) return bucket.cumulative;
+
+  // Threshold beyond the histogram: recompute with a longer tail
+  const extended = calculateFrequencyDistribution({
+    grp: distribution.grp,
+    shape: distribution.shape,
+    maxExposures: threshold,
+  });
+  return extended.buckets[threshold - 1].cumulative;
+}
+
+/**
+ * Expected contacts per person above `cap` under NBD(GRP / 100, shape):
+ * E[(X − cap)+] = E[X] − Σ P(X > n) for n = 0 .. cap − 1
+ */
+export function getExcessContacts(grp: number, shape: number, cap: number): number {
+  const mean = Math.max(0, grp) / 100;
+  if (mean === 0 || shape <= 0) return 0;
+  if (cap <= 0) return mean;
+
+  const probabilities = nbdProbabilities(mean, shape, cap - 1);
+  let cumulative = 0;
+  let belowCap = 0;
+  for (const p of probabilities) {
+    cumulative += p;
+    belowCap += 1 - cumulative;
+  }
+  return Math.max(0, mean - belowCap);
+}
+
+/**
+ * Effective frequency threshold N for "reach at N+" (at least one contact)
+ */
+export function getEffectiveThreshold(frequency: number): number {
+  // Round to one decimal first so 4.0000001 does not become 5
+  return Math.max(1, Math.ceil(Math.round(frequency * 10) / 10));
+}
+
+/**
+ * Find the NBD shape k whose reach 1+ matches `reach1Plus` (%) for the given GRP.
+ * Used when reach comes from another model (e.g. a media mix) but the
+ * N+ tail still has to be estimated.
+ */
+export function fitNbdShape(grp: number, reach1Plus: number): number {
+  const mean = grp / 100;
+  const target = reach1Plus / 100;
+  if (mean <= 0 || target <= 0) return DEFAULT_NBD_SHAPE;
+
+  const reachFor = (k: number) => 1 - Math.pow(k / (k + mean), k);
+
+  // Reach grows with k; Poisson (k → ∞) is the upper bound
+  let low = 1e-4;
+  let high = 1e4;
+  if (target >= reachFor(high)) return high;
+  if (target <= reachFor(low)) return low;
+
+  for (let i = 0; i < 100; i++) {
+    const mid = Math.sqrt(low * high);
+    if (reachFor(mid) < target) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return Math.sqrt(low * high);
+}
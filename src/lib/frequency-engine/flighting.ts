@@ -0,0 +1,151 @@
+/**
+ * Campaign flighting over time.
+ *
+ * The plan's contacts are spread across calendar weeks by a flight pattern.
+ * Remembered contacts carry over between weeks with a geometric adstock:
+ *   Memory_t = Contacts_t × WearOut_t + (1 − Decay) × Memory_(t−1)
+ * and a week is effective while Memory_t stays at or above the target frequency.
+ */
+
+/**
+ * `continuous`: same weight every week.
+ * `flighting`: `onWeeks` on air, then `offWeeks` dark.
+ * `pulsing`: bursts as in flighting with a maintenance level between them.
+ */
+export type FlightPattern = "continuous" | "flighting" | "pulsing";
+
+export interface FlightingSettings {
+  /** ISO dates, YYYY-MM-DD */
+  startDate: string;
+  endDate: string;
+  pattern: FlightPattern;
+  onWeeks: number;
+  offWeeks: number;
+  /** Share of remembered contacts forgotten each week, % */
+  decayRate: number;
+  /** Loss of contact effectiveness per consecutive week on air, % */
+  wearOutRate: number;
+}
+
+export interface FlightingWeek {
+  index: number;
+  /** ISO date of the first day of the week */
+  startDate: string;
+  onAir: boolean;
+  /** Contacts delivered per reached person this week */
+  contacts: number;
+  /** Remembered contacts after adstock and wear-out */
+  effectiveFrequency: number;
+  /** Share of all delivered contacts still remembered, % */
+  retention: number;
+  belowThreshold: boolean;
+}
+
+export interface FlightingResult {
+  weeks: FlightingWeek[];
+  /** Target frequency each week is checked against */
+  threshold: number;
+  totalContacts: number;
+  weeksBelowThreshold: number;
+}
+
+export const FLIGHT_PATTERN_LABELS: Record<FlightPattern, string> = {
+  continuous: "Непрерывно",
+  flighting: "Флайты",
+  pulsing: "Пульсирующий",
+};
+
+// Weight of the dark weeks in the pulsing pattern relative to a burst
+export const PULSING_MAINTENANCE_LEVEL = 0.4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Default flighting: eight weeks of continuous activity starting on `today`
+ */
+export function createDefaultFlighting(today: Date = new Date()): FlightingSettings {
+  const start = new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate()));
+  const end = new Date(start.getTime() + (8 * 7 - 1) * DAY_MS);
+  return {
+    startDate: start.toISOString().slice(0, 10),
+    endDate: end.toISOString().slice(0, 10),
+    pattern: "continuous",
+    onWeeks: 2,
+    offWeeks: 2,
+    decayRate: 20,
+    wearOutRate: 5,
+  };
+}
+
+/**
+ * Number of calendar weeks between the start and end dates (inclusive), 0 if invalid
+ */
+export function getCampaignWeeks(startDate: string, endDate: string): number {
+  const start = Date.parse(startDate);
+  const end = Date.parse(endDate);
+  if (Number.isNaN(start) || Number.isNaN(end) || end < start) return 0;
+  return Math.ceil((Math.round((end - start) / DAY_MS) + 1) / 7);
+}
+
+/**
+ * Relative weight of a week in the flight pattern
+ */
+function getWeekWeight(settings: FlightingSettings, index: number): number {
+  if (settings.pattern === "continuous") return 1;
+
+  const onWeeks = Math.max(1, Math.round(settings.onWeeks));
+  const offWeeks = Math.max(0, Math.round(settings.offWeeks));
+  const onAir = index % (onWeeks + offWeeks) < onWeeks;
+  if (onAir) return 1;
+  return settings.pattern === "pulsing" ? PULSING_MAINTENANCE_LEVEL : 0;
+}
+
+/**
+ * Spread `totalContacts` per reached person across the campaign weeks and track memory
+ */
+export function calculateFlighting(
+  settings: FlightingSettings,
+  totalContacts: number,
+  targetFrequency: number
+): FlightingResult {
+  const weekCount = getCampaignWeeks(settings.startDate, settings.endDate);
+  const weights = Array.from({ length: weekCount }, (_, i) => getWeekWeight(settings, i));
+  const totalWeight = weights.reduce((acc, w) => acc + w, 0);
+
+  const start = Date.parse(settings.startDate);
+  const carryOver = 1 - Math.min(100, Math.max(0, settings.decayRate)) / 100;
+  const wearOut = 1 - Math.min(100, Math.max(0, settings.wearOutRate)) / 100;
+
+  let memory = 0;
+  let delivered = 0;
+  let weeksOnAir = 0;
+
+  const weeks = weights.map((weight, index): FlightingWeek => {
+    const contacts = totalWeight > 0 ? (totalContacts * weight) / totalWeight : 0;
+    const onAir = weight > 0;
+
+    // Wear-out builds up over consecutive weeks on air and resets after a break
+    weeksOnAir = onAir ? weeksOnAir + 1 : 0;
+    const effectiveness = onAir ? Math.pow(wearOut, weeksOnAir - 1) : 1;
+
+    memory = contacts * effectiveness + carryOver * memory;
+    delivered += contacts;
+
+    return {
+      index,
+      startDate: new Date(start + index * 7 * DAY_MS).toISOString().slice(0, 10),
+      onAir,
+      contacts,
+      effectiveFrequency: memory,
+      retention: delivered > 0 ? (memory / delivered) * 100 : 0,
+      belowThreshold: memory < targetFrequency,
+    };
+  });
+
+  return {
+    weeks,
+    threshold: targetFrequency,
+    totalContacts,
+    weeksBelowThreshold: weeks.filter((week) => week.belowThreshold).length,
+  };
+}
@@ -0,0 +1,103 @@
+import { fitNbdShape, getEffectiveThreshold, getExcessContacts } from "./distribution";
+import type { FlightingResult } from "./flighting";
+import type { MediaChannelId, MediaMixResult } from "./media-mix";
+
+/**
+ * Frequency caps for ad servers.
+ *
+ * The campaign cap leaves headroom above the effective frequency and is
+ * split into per-flight, per-week and per-day caps by the flighting calendar.
+ * Contacts a channel would deliver above its cap are reported as waste,
+ * using the NBD exposure distribution fitted to the channel's TRP and reach.
+ */
+
+export const DIGITAL_CHANNELS: MediaChannelId[] = ["olv", "display", "social", "audio"];
+
+// Contacts beyond 1.5× the effective frequency add little and wear the creative out
+export const FREQUENCY_CAP_HEADROOM = 1.5;
+
+// Days per week an average user is online and can be served an ad
+const ACTIVE_DAYS_PER_WEEK = 3;
+
+export interface FrequencyCapRow {
+  channel: MediaChannelId;
+  budget: number;
+  impressions: number;
+  trp: number;
+  /** Channel reach 1+, % */
+  reach: number;
+  capPerDay: number;
+  capPerWeek: number;
+  capPerFlight: number;
+  /** Share of the channel's impressions the caps would cut, % */
+  wasteShare: number;
+  wastedImpressions: number;
+  wastedBudget: number;
+}
+
+export interface FrequencyCapPlan {
+  /** Maximum contacts per person over the whole campaign */
+  campaignCap: number;
+  flights: number;
+  weeksOnAir: number;
+  rows: FrequencyCapRow[];
+}
+
+/**
+ * Number of separate flights and weeks on air in the calendar
+ */
+export function getFlightStructure(flighting: FlightingResult): { flights: number; weeksOnAir: number } {
+  let flights = 0;
+  let weeksOnAir = 0;
+  flighting.weeks.forEach((week, index) => {
+    if (!week.onAir) return;
+    weeksOnAir++;
+    if (index === 0 || !flighting.weeks[index - 1].onAir) flights++;
+  });
+  return { flights: Math.max(1, flights), weeksOnAir: Math.max(1, weeksOnAir) };
+}
+
+/**
+ * Recommend caps per day, week and flight for each digital channel of the mix
+ */
+export function calculateFrequencyCaps(
+  frequency: number,
+  mix: MediaMixResult,
+  flighting: FlightingResult
+): FrequencyCapPlan {
+  const { flights, weeksOnAir } = getFlightStructure(flighting);
+  const campaignCap = Math.max(getEffectiveThreshold(frequency), Math.ceil(frequency * FREQUENCY_CAP_HEADROOM));
+
+  const capPerFlight = Math.max(1, Math.ceil(campaignCap / flights));
+  const capPerWeek = Math.max(1, Math.ceil(capPerFlight / (weeksOnAir / flights)));
+  const capPerDay = Math.max(1, Math.ceil(capPerWeek / ACTIVE_DAYS_PER_WEEK));
+
+  // The tightest of the three caps limits contacts over the campaign
+  const bindingCap = Math.min(capPerFlight * flights, capPerWeek * weeksOnAir, capPerDay * 7 * weeksOnAir);
+
+  const rows = mix.channels
+    .filter((channel) => DIGITAL_CHANNELS.includes(channel.channel) && channel.budget > 0)
+    .map((channel): FrequencyCapRow => {
+      const mean = channel.trp / 100;
+      const excess = channel.reach > 0
+        ? getExcessContacts(channel.trp, fitNbdShape(channel.trp, channel.reach), bindingCap)
+        : 0;
+      const wasteShare = mean > 0 ? (excess / mean) * 100 : 0;
+
+      return {
+        channel: channel.channel,
+        budget: channel.budget,
+        impressions: channel.impressions,
+        trp: channel.trp,
+        reach: channel.reach,
+        capPerDay,
+        capPerWeek,
+        capPerFlight,
+        wasteShare,
+        wastedImpressions: (channel.impressions * wasteShare) / 100,
+        wastedBudget: (channel.budget * wasteShare) / 100,
+      };
+    });
+
+  return { campaignCap, flights, weeksOnAir, rows };
+}
@@ -0,0 +1,481 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateCoverage,
+  calculateFlighting,
+  calculateSensitivity,
+  calculateShareOfVoice,
+  calculateRegionalCapacity,
+  calculateRegionalCoverage,
+  calculateRegionalPriceIndex,
+  calculateSegmentPlan,
+  createSegment,
+  createScenario,
+  compareScenarios,
+  allocatePortfolio,
+  addPortfolioShare,
+  calculatePortfolio,
+  calculateSeasonality,
+  normalizeSeasonalityTables,
+  applySeasonality,
+  DEFAULT_SEASONALITY_TABLES,
+  calculateFrequencyDistribution,
+  calculateMediaMix,
+  calculateFrequency,
+  getFrequencyBoundsError,
+  calculateFrequencyCaps,
+  calculateOstrowFrequency,
+  createOstrowScores,
+  DEFAULT_AUDIENCE_FILTER,
+  DEFAULT_KPI_BENCHMARKS,
+  DEFAULT_KPI_COEFFICIENTS,
+  calibrateCoefficients,
+  DEFAULT_SLIDER_PARAMS,
+  getEffectiveReach,
+  getExcessContacts,
+  getFrequencyModelPreset,
+  applyPriceIndex,
+  runCalculation,
+  runMonteCarlo,
+  solveBudgetForReach,
+  solveReachForBudget,
+  sortByImpact,
+  type CalculationInput,
+} from "@/lib/frequency-engine";
+
+const baseInput: CalculationInput = {
+  params: DEFAULT_SLIDER_PARAMS,
+  budget: 2000000,
+  goal: "awareness",
+  taCapacityRF: 1000000,
+  kpiBenchmarks: DEFAULT_KPI_BENCHMARKS,
+};
+
+describe("frequency engine", () => {
+  it("sums parameters on top of the base and clamps to [1, 15]", () => {
+    expect(calculateFrequency(DEFAULT_SLIDER_PARAMS).frequency).toBe(1);
+    expect(calculateFrequency({ ...DEFAULT_SLIDER_PARAMS, brandAwareness: 2, messageComplexity: 1.5 }).frequency).toBe(4.5);
+    expect(calculateFrequency({ ...DEFAULT_SLIDER_PARAMS, brandAwareness: -2 }).frequency).toBe(1);
+  });
+
+  it("applies preset weights, base frequency and clamp", () => {
+    const model = getFrequencyModelPreset("b2b_tech");
+    const result = calculateFrequency({ ...DEFAULT_SLIDER_PARAMS, productComplexity: 2 }, model);
+    expect(result.modelId).toBe("b2b_tech");
+    expect(result.frequency).toBeCloseTo(5);
+    expect(calculateFrequency({ ...DEFAULT_SLIDER_PARAMS, brandAwareness: -2 }, model).frequency).toBe(model.minFrequency);
+  });
+
+  it("accepts typed frequency bounds only when they form a range from 1 up", () => {
+    expect(getFrequencyBoundsError(2, 8)).toBeNull();
+    expect(getFrequencyBoundsError(3, 3)).toBeNull();
+    expect(getFrequencyBoundsError(parseFloat(""), 8)).toMatch(/Укажите/);
+    expect(getFrequencyBoundsError(0.5, 8)).toMatch(/не меньше 1/);
+    expect(getFrequencyBoundsError(9, 8)).toMatch(/не может превышать/);
+  });
+
+  it("computes effective coverage at N+ from budget, CPM and audience capacity", () => {
+    const coverage = calculateCoverage(baseInput, 5);
+    expect(coverage.impressions).toBe(5000000);
+    expect(coverage.trp).toBe(500);
+    expect(coverage.threshold).toBe(5);
+    // NBD with k = 1 is geometric: reach 1+ = 5/6, reach 5+ = (5/6)^5
+    expect(coverage.reach1Plus).toBeCloseTo(83.33, 1);
+    expect(coverage.value).toBeCloseTo(40.19, 1);
+  });
+
+  it("derives TRPs from cost per point and affinity in ratings mode", () => {
+    const coverage = calculateCoverage({
+      ...baseInput,
+      planning: { mode: "ratings", cpm: 400, costPerTrp: 10000, affinity: 125, universe: 2000000 },
+    }, 5);
+    expect(coverage.trp).toBe(200);
+    expect(coverage.grp).toBe(160);
+    expect(coverage.impressions).toBe(4000000);
+    expect(coverage.cpm).toBe(500);
+    expect(coverage.universe).toBe(2000000);
+  });
+
+  it("deduplicates media mix reach across channels", () => {
+    const settings = {
+      enabled: true,
+      method: "sainsbury" as const,
+      channels: [
+        { channel: "tv" as const, share: 50, cpm: 400, maxReach: 80 },
+        { channel: "olv" as const, share: 50, cpm: 400, maxReach: 60 },
+      ],
+    };
+    const mix = calculateMediaMix(2000000, 1000000, settings);
+    const [tv, olv] = mix.channels;
+    expect(tv.trp).toBe(250);
+    expect(tv.reach).toBeLessThan(80);
+    expect(mix.reach1Plus).toBeCloseTo(100 * (1 - (1 - tv.reach / 100) * (1 - olv.reach / 100)));
+
+    const random = calculateMediaMix(2000000, 1000000, { ...settings, method: "random" });
+    expect(random.reach1Plus).toBeLessThanOrEqual(92);
+
+    const coverage = calculateCoverage({ ...baseInput, mediaMix: settings }, 3);
+    expect(coverage.mediaMix?.trp).toBe(500);
+    expect(coverage.reach1Plus).toBeCloseTo(mix.reach1Plus, 0);
+  });
+
+  it("builds a frequency distribution whose buckets add up to reach 1+", () => {
+    const distribution = calculateFrequencyDistribution({ grp: 300, shape: 0.8, maxExposures: 10 });
+    const total = distribution.buckets.reduce((acc, bucket) => acc + bucket.share, 0);
+    expect(total).toBeCloseTo(distribution.reach1Plus);
+    expect(distribution.buckets[0].cumulative).toBeCloseTo(distribution.reach1Plus);
+    expect(distribution.averageFrequency * distribution.reach1Plus).toBeCloseTo(300);
+    expect(getEffectiveReach(distribution, 12)).toBeLessThan(distribution.buckets[9].cumulative);
+  });
+
+  it("returns zero KPIs until budget and goal are set", () => {
+    const result = runCalculation({ ...baseInput, budget: 0, goal: "" });
+    expect(result.tom.value).toBe(0);
+    expect(result.ltvGrowth.value).toBe(0);
+    expect(result.coverage.value).toBe(0);
+  });
+
+  it("measures each goal by its own KPI", () => {
+    const awareness = runCalculation(baseInput);
+    expect(awareness.goalKPI).toBe(awareness.tom.value);
+    // 0.15 × 1 × √4 × 1.0 × 100 × 3.5
+    expect(awareness.tom.value).toBeCloseTo(105);
+
+    const consideration = runCalculation({ ...baseInput, goal: "consideration" });
+    expect(consideration.goalKPI).toBe(consideration.searchUplift.value);
+    const conversion = runCalculation({ ...baseInput, goal: "conversion" });
+    expect(conversion.goalKPI).toBe(conversion.conversionUplift.value);
+    const retention = runCalculation({ ...baseInput, goal: "retention" });
+    expect(retention.goalKPI).toBe(retention.ltvGrowth.value);
+  });
+
+  it("forecasts search and conversion uplift from effective reach and baselines", () => {
+    const frequency = { modelId: "test", weightedSum: 0, raw: 2, frequency: 2 };
+    const result = runCalculation({
+      ...baseInput,
+      goal: "consideration",
+      baselines: { searchVolume: 20000, conversionRate: 2, sessions: 100000 },
+    }, frequency);
+    const reach = result.coverage.value / 100;
+    // 0.25 × Reach × (1 − e^(−1)) × 1.0 × 100
+    expect(result.searchUplift.value).toBeCloseTo(0.25 * reach * (1 - Math.exp(-1)) * 100);
+    expect(result.searchUplift.additionalSearches).toBeCloseTo(200 * result.searchUplift.value);
+    // 0.08 × Reach × (1 − e^(−0.5)) × 0.6 × 100
+    expect(result.conversionUplift.value).toBeCloseTo(0.08 * reach * (1 - Math.exp(-0.5)) * 0.6 * 100);
+    expect(result.conversionUplift.conversionRate).toBeCloseTo(2 * (1 + result.conversionUplift.value / 100));
+    expect(result.conversionUplift.additionalConversions).toBeCloseTo(2 * result.conversionUplift.value * 10);
+
+    const moreBudget = runCalculation({ ...baseInput, goal: "consideration", budget: 4000000 }, frequency);
+    expect(moreBudget.searchUplift.value).toBeGreaterThan(result.searchUplift.value);
+  });
+
+  it("scores the Ostrow worksheet on top of a base of 3", () => {
+    const scores = { ...createOstrowScores(), brand_novelty: 0.2, copy_complexity: 0.2, clutter: -0.2 };
+    const result = calculateOstrowFrequency(scores);
+    expect(result.frequency).toBeCloseTo(3.2);
+    expect(result.byGroup.marketing).toBeCloseTo(0.2);
+    expect(result.byGroup.media).toBeCloseTo(-0.2);
+
+    const kpis = runCalculation(baseInput, result);
+    expect(kpis.frequency.modelId).toBe("ostrow");
+  });
+
+  it("solves the minimum budget for a target effective reach", () => {
+    const frequency = runCalculation(baseInput).frequency.frequency;
+    const coverage = calculateCoverage(baseInput, frequency);
+
+    const solved = solveBudgetForReach(baseInput, frequency, coverage.value);
+    expect(solved.feasible).toBe(true);
+    expect(solved.budget).toBeCloseTo(baseInput.budget, -3);
+    expect(solved.achievedReach).toBeGreaterThanOrEqual(coverage.value);
+
+    const impossible = solveBudgetForReach(baseInput, frequency, 101);
+    expect(impossible.feasible).toBe(false);
+    expect(impossible.budget).toBeNull();
+  });
+
+  it("re-allocates the media mix for the best reach on a fixed budget", () => {
+    const mediaMix = {
+      enabled: true,
+      method: "sainsbury" as const,
+      channels: [
+        { channel: "tv" as const, share: 90, cpm: 400, maxReach: 50 },
+        { channel: "social" as const, share: 10, cpm: 200, maxReach: 80 },
+      ],
+    };
+    const input = { ...baseInput, mediaMix };
+    const current = calculateCoverage(input, 3);
+    const best = solveReachForBudget(input, 3);
+
+    expect(best.reach).toBeGreaterThan(current.value);
+    expect(best.allocation?.reduce((acc, c) => acc + c.share, 0)).toBe(100);
+  });
+
+  it("varies each input by one step for the sensitivity analysis", () => {
+    const sensitivity = calculateSensitivity(baseInput);
+    expect(sensitivity.factors).toHaveLength(6 + 1 + 4);
+    expect(sensitivity.base.goalKPI).toBeCloseTo(runCalculation(baseInput).goalKPI);
+
+    const budget = sensitivity.factors.find((factor) => factor.key === "budget");
+    expect(budget?.high.frequency).toBe(budget?.low.frequency);
+    expect(budget?.high.coverage).toBeGreaterThan(budget?.low.coverage ?? 0);
+
+    // Benchmarks for other goals do not move the awareness KPI
+    const retention = sensitivity.factors.find((factor) => factor.key === "retention_ltv_base");
+    expect(retention?.high.goalKPI).toBe(retention?.low.goalKPI);
+
+    expect(sortByImpact(sensitivity.factors, "frequency")[0].kind).toBe("param");
+  });
+
+  it("brackets the point forecast with Monte Carlo percentiles", () => {
+    const point = runCalculation(baseInput);
+    const settings = { paramSigma: 0.5, benchmarkSigma: 20, cpmRange: 15, iterations: 500, seed: 7 };
+    const result = runMonteCarlo(baseInput, settings);
+
+    const { goalKPI, coverage } = result.metrics;
+    expect(goalKPI.p10).toBeLessThan(goalKPI.p50);
+    expect(goalKPI.p50).toBeLessThan(goalKPI.p90);
+    expect(goalKPI.p10).toBeLessThan(point.goalKPI);
+    expect(goalKPI.p90).toBeGreaterThan(point.goalKPI);
+    expect(coverage.histogram.reduce((acc, bin) => acc + bin.count, 0)).toBe(500);
+
+    // Same seed, same bands
+    expect(runMonteCarlo(baseInput, settings).metrics.goalKPI.p50).toBe(goalKPI.p50);
+  });
+
+  it("tracks remembered contacts week by week across flights", () => {
+    const settings = {
+      startDate: "2025-03-03",
+      endDate: "2025-03-30",
+      pattern: "continuous" as const,
+      onWeeks: 1,
+      offWeeks: 1,
+      decayRate: 0,
+      wearOutRate: 0,
+    };
+    const continuous = calculateFlighting(settings, 8, 5);
+    expect(continuous.weeks.map((week) => week.effectiveFrequency)).toEqual([2, 4, 6, 8]);
+    expect(continuous.weeksBelowThreshold).toBe(2);
+    expect(continuous.weeks[1].startDate).toBe("2025-03-10");
+
+    const flighting = calculateFlighting({ ...settings, pattern: "flighting", decayRate: 50 }, 8, 5);
+    expect(flighting.weeks.map((week) => week.contacts)).toEqual([4, 0, 4, 0]);
+    expect(flighting.weeks[1].effectiveFrequency).toBeCloseTo(2);
+    expect(flighting.weeks[3].retention).toBeCloseTo((2.5 / 8) * 100);
+  });
+
+  it("recommends frequency caps and the waste above them for digital channels", () => {
+    expect(getExcessContacts(200, 1, 0)).toBeCloseTo(2);
+    expect(getExcessContacts(200, 1, 100)).toBeCloseTo(0);
+
+    const mix = calculateMediaMix(4000000, 1000000, {
+      enabled: true,
+      method: "sainsbury",
+      channels: [
+        { channel: "tv", share: 50, cpm: 400, maxReach: 80 },
+        { channel: "olv", share: 50, cpm: 400, maxReach: 60 },
+      ],
+    });
+    const flighting = calculateFlighting({
+      startDate: "2025-03-03",
+      endDate: "2025-03-30",
+      pattern: "flighting",
+      onWeeks: 1,
+      offWeeks: 1,
+      decayRate: 20,
+      wearOutRate: 0,
+    }, 5, 3);
+
+    const plan = calculateFrequencyCaps(3.2, mix, flighting);
+    expect(plan.flights).toBe(2);
+    expect(plan.campaignCap).toBe(5);
+    expect(plan.rows.map((row) => row.channel)).toEqual(["olv"]);
+    expect(plan.rows[0]).toMatchObject({ capPerFlight: 3, capPerWeek: 3, capPerDay: 1 });
+    expect(plan.rows[0].wasteShare).toBeGreaterThan(0);
+    expect(plan.rows[0].wasteShare).toBeLessThan(100);
+  });
+
+  it("derives market saturation from share of voice", () => {
+    const sov = calculateShareOfVoice({
+      enabled: true,
+      unit: "spend",
+      shareOfMarket: 10,
+      competitors: [
+        { id: "a", name: "A", value: 6000000 },
+        { id: "b", name: "B", value: 2000000 },
+      ],
+    }, 2000000);
+
+    expect(sov.shareOfVoice).toBeCloseTo(20);
+    expect(sov.excessShareOfVoice).toBeCloseTo(10);
+    expect(sov.expectedSomGrowth).toBeCloseTo(0.5);
+    expect(sov.marketSaturation).toBeCloseTo(2 / 3);
+    expect(sov.competitors[0].share).toBeCloseTo(60);
+  });
+
+  it("computes regional audience capacity without double counting cities", () => {
+    const settings = { enabled: true, regionIds: ["cfd", "moscow", "spb"], filter: DEFAULT_AUDIENCE_FILTER };
+    // Adults only: 78.4% of the population
+    expect(calculateRegionalCapacity(settings)).toBeCloseTo((40200000 + 5600000) * 0.784, -1);
+
+    const women = { ...settings, filter: { ...DEFAULT_AUDIENCE_FILTER, genders: ["female" as const] } };
+    expect(calculateRegionalCapacity(women)).toBeCloseTo(calculateRegionalCapacity(settings) * 0.536, -1);
+
+    const coverage = calculateRegionalCoverage(baseInput, 3, settings);
+    expect(coverage.rows.map((row) => row.region.id)).toEqual(["cfd", "spb"]);
+    expect(coverage.rows.reduce((acc, row) => acc + row.budget, 0)).toBeCloseTo(baseInput.budget);
+    // Pricier St Petersburg gets less reach per rouble
+    expect(coverage.rows[1].coverage.trp).toBeLessThan(coverage.rows[0].coverage.trp);
+
+    // The headline plan is priced like the breakdown: Moscow alone matches its row exactly
+    const moscow = { ...settings, regionIds: ["moscow"] };
+    expect(calculateRegionalPriceIndex(moscow)).toBeCloseTo(1.6);
+    const headline = runCalculation(applyPriceIndex(
+      { ...baseInput, taCapacityRF: calculateRegionalCapacity(moscow) },
+      calculateRegionalPriceIndex(moscow)
+    ));
+    expect(headline.coverage.value).toBeCloseTo(calculateRegionalCoverage(baseInput, headline.frequency.frequency, moscow).effectiveReach);
+  });
+
+  it("combines audience segments into a weighted plan", () => {
+    const women = { ...createSegment("w", "Женщины"), size: 3000000, budgetShare: 75, paramOverrides: { messageComplexity: 2 } };
+    const men = { ...createSegment("m", "Мужчины"), size: 1000000, budgetShare: 25 };
+    const plan = calculateSegmentPlan(baseInput, [women, men]);
+
+    const [w, m] = plan.segments;
+    expect(w.budget).toBe(1500000);
+    expect(w.calculation.frequency.frequency).toBeGreaterThan(m.calculation.frequency.frequency);
+    expect(plan.audience).toBe(4000000);
+    expect(plan.frequency).toBeCloseTo((w.calculation.frequency.frequency * 3 + m.calculation.frequency.frequency) / 4);
+
+    // Without a manual size the filter is applied to all of Russia
+    const everyone = calculateSegmentPlan(baseInput, [createSegment("all", "Все")]);
+    expect(everyone.audience).toBeGreaterThan(100000000);
+  });
+
+  it("recalculates cloned scenarios with their own budget, goal and sliders", () => {
+    const clone = createScenario("a", "Копия", baseInput);
+    const cheaper = { ...createScenario("b", "3 млн", baseInput), budget: 1000000 };
+    const simpler = {
+      ...createScenario("c", "Простое сообщение", baseInput),
+      goal: "retention" as const,
+      params: { ...baseInput.params, messageComplexity: 2 },
+    };
+    const [same, lower, retention] = compareScenarios(baseInput, [clone, cheaper, simpler]);
+    const current = runCalculation(baseInput);
+
+    expect(same.calculation.coverage.value).toBeCloseTo(current.coverage.value);
+    expect(same.calculation.goalKPI).toBeCloseTo(current.goalKPI);
+    expect(lower.calculation.coverage.trp).toBeCloseTo(current.coverage.trp / 2);
+    expect(retention.calculation.frequency.frequency).toBeGreaterThan(current.frequency.frequency);
+    expect(retention.calculation.goalKPI).toBe(retention.calculation.ltvGrowth.value);
+  });
+
+  it("splits a portfolio budget towards the brand with the larger reach gain", () => {
+    const brands = [
+      { id: "small", name: "Малый", input: { ...baseInput, taCapacityRF: 200000 }, weight: 1 },
+      { id: "large", name: "Большой", input: { ...baseInput, taCapacityRF: 5000000 }, weight: 1 },
+    ];
+    const even = calculatePortfolio(brands, 4000000, { small: 50, large: 50 });
+    expect(even.budget).toBeCloseTo(4000000);
+    expect(even.brands[0].budget).toBeCloseTo(2000000);
+    expect(even.effectivelyReached).toBeCloseTo(even.brands[0].calculation.coverage.reach + even.brands[1].calculation.coverage.reach);
+
+    const shares = allocatePortfolio(brands, 4000000, "reach");
+    expect(shares.small + shares.large).toBe(100);
+    expect(shares.large).toBeGreaterThan(shares.small);
+    const suggested = calculatePortfolio(brands, 4000000, shares);
+    expect(suggested.effectivelyReached).toBeGreaterThanOrEqual(even.effectivelyReached);
+
+    const kpiShares = allocatePortfolio([{ ...brands[0], weight: 1 }, { ...brands[1], weight: 0 }], 4000000, "kpi");
+    expect(kpiShares.small).toBe(100);
+
+    // A new brand starts from an equal split without resetting the shares already set
+    expect(addPortfolioShare({}, "small", 1)).toEqual({ small: 100 });
+    expect(addPortfolioShare({ small: 70, large: 30 }, "third", 3)).toEqual({ small: 70, large: 30, third: 100 / 3 });
+  });
+
+  it("raises CPM and KPI bases by the seasonal indices of the campaign period", () => {
+    // 30 days of November and 31 of December
+    const q4 = calculateSeasonality(DEFAULT_SEASONALITY_TABLES, "retail", "2026-11-01", "2026-12-31");
+    expect(q4.monthWeights[10] + q4.monthWeights[11]).toBeCloseTo(1);
+    expect(q4.cpmIndex).toBeCloseTo((1.3 * 30 + 1.45 * 31) / 61);
+    expect(q4.kpiIndex).toBeCloseTo(1.25);
+
+    const adjusted = applySeasonality(baseInput, q4);
+    expect(adjusted.kpiBenchmarks.awareness_tom_base).toBeCloseTo(DEFAULT_KPI_BENCHMARKS.awareness_tom_base * 1.25);
+    expect(calculateCoverage(adjusted, 3).trp).toBeCloseTo(calculateCoverage(baseInput, 3).trp / q4.cpmIndex);
+
+    // A cleared (0) cell or a missing row falls back to the built-in index instead of zeroing CPM
+    const stored = normalizeSeasonalityTables({ channels: { tv: [0, ...DEFAULT_SEASONALITY_TABLES.channels.tv.slice(1)] } });
+    expect(stored.channels.tv[0]).toBe(DEFAULT_SEASONALITY_TABLES.channels.tv[0]);
+    expect(stored.categories).toEqual(DEFAULT_SEASONALITY_TABLES.categories);
+  });
+
+  it("scales TOM and LTV forecasts by the configured coefficients", () => {
+    const base = runCalculation(baseInput);
+    const doubled = runCalculation({
+      ...baseInput,
+      coefficients: { ...DEFAULT_KPI_COEFFICIENTS, tomScale: 7, ltvScale: 14 },
+    });
+    expect(doubled.tom.value).toBeCloseTo(base.tom.value * 2);
+    expect(doubled.ltvGrowth.value).toBeCloseTo(base.ltvGrowth.value * 2);
+
+    const flat = runCalculation({ ...baseInput, coefficients: { ...DEFAULT_KPI_COEFFICIENTS, tomFrequencySlope: 0 } });
+    expect(flat.tom.frequencyMultiplier).toBe(1);
+
+    const reference = runCalculation({
+      ...baseInput,
+      coefficients: { ...DEFAULT_KPI_COEFFICIENTS, tomBudgetReference: 2000000, ltvSaturationPenalty: 0 },
+    });
+    expect(reference.tom.budgetCorrection).toBeCloseTo(base.tom.budgetCorrection / 2);
+    expect(reference.ltvGrowth.competitionCorrection).toBe(1);
+  });
+
+  it("recovers KPI coefficients from post-campaign actuals by least squares", () => {
+    const truth = {
+      ...DEFAULT_KPI_COEFFICIENTS,
+      tomScale: 5,
+      tomFrequencySlope: 0.12,
+      ltvScale: 9,
+      ltvFrequencySlope: 0.03,
+      searchScale: 1.5,
+      conversionScale: 0.7,
+    };
+    const goals = ["awareness", "conversion", "retention"] as const;
+    const samples = [2, 4, 6, 8].flatMap((frequency, i) => goals.map((goal) => {
+      const input = { ...baseInput, goal, budget: 1000000 * (i + 1) };
+      const actual = runCalculation({ ...input, coefficients: truth }, {
+        modelId: "test", weightedSum: 0, raw: frequency, frequency,
+      });
+      return {
+        id: `${goal}-${frequency}`,
+        input,
+        frequency,
+        actuals: {
+          reach: null,
+          tomLift: goal === "awareness" ? actual.tom.value : null,
+          searchLift: null,
+          conversionLift: goal === "conversion" ? actual.conversionUplift.value : null,
+          ltvChange: actual.ltvGrowth.value,
+        },
+      };
+    }));
+
+    const result = calibrateCoefficients(samples, DEFAULT_KPI_COEFFICIENTS);
+    expect(result.coefficients.tomScale).toBeCloseTo(truth.tomScale);
+    expect(result.coefficients.tomFrequencySlope).toBeCloseTo(truth.tomFrequencySlope);
+    expect(result.coefficients.ltvScale).toBeCloseTo(truth.ltvScale);
+    expect(result.coefficients.ltvFrequencySlope).toBeCloseTo(truth.ltvFrequencySlope);
+    expect(result.coefficients.conversionScale).toBeCloseTo(truth.conversionScale);
+    expect(result.coefficients.searchScale).toBe(DEFAULT_KPI_COEFFICIENTS.searchScale);
+
+    const awareness = result.errors.find((error) => error.goal === "awareness")!;
+    expect(awareness.count).toBe(4);
+    expect(awareness.mapeBefore).toBeGreaterThan(10);
+    expect(awareness.mapeAfter).toBeCloseTo(0);
+
+    // Campaigns forecast with the true set had no error then, whatever set is current now
+    const asForecast = calibrateCoefficients(samples.map((sample) => ({ ...sample, coefficients: truth })), DEFAULT_KPI_COEFFICIENTS);
+    expect(asForecast.errors.find((error) => error.goal === "awareness")!.mapeBefore).toBeCloseTo(0);
+  });
+});
@@ -0,0 +1,41 @@
+import { PARAM_MAX, PARAM_MIN } from "./constants";
+import { DEFAULT_FREQUENCY_MODEL } from "./presets";
+import type { FrequencyModel, FrequencyResult, SliderParams } from "./types";
+
+/**
+ * Clamp a single slider value to the supported parameter range
+ */
+export function clampParam(value: number): number {
+  return Math.max(PARAM_MIN, Math.min(PARAM_MAX, value));
+}
+
+/**
+ * Validate typed model frequency bounds; returns the message to show, or null
+ * when [min, max] is a usable range
+ */
+export function getFrequencyBoundsError(min: number, max: number): string | null {
+  if (Number.isNaN(min) || Number.isNaN(max)) return "Укажите минимальную и максимальную частоту";
+  if (min < 1) return "Минимальная частота должна быть не меньше 1";
+  if (min > max) return "Минимальная частота не может превышать максимальную";
+  return null;
+}
+
+/**
+ * Calculate effective frequency: base + weighted sum of all parameters,
+ * clamped to the model's [min, max] range
+ */
+export function calculateFrequency(
+  params: SliderParams,
+  model: FrequencyModel = DEFAULT_FREQUENCY_MODEL
+): FrequencyResult {
+  const weightedSum = (Object.keys(params) as Array<keyof SliderParams>)
+    .reduce((acc, key) => acc + params[key] * (model.weights[key] ?? 1), 0);
+  const raw = model.baseFrequency + weightedSum;
+
+  return {
+    modelId: model.id,
+    weightedSum,
+    raw,
+    frequency: Math.max(model.minFrequency, Math.min(model.maxFrequency, raw)),
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * Frequency calculation engine
+ *
+ * Pure functions behind the calculator: effective frequency, coverage and
+ * goal KPIs. Nothing here depends on React, so the same numbers can be
+ * reused in reports, batch jobs and unit tests.
+ */
+
+export * from "./types";
+export * from "./constants";
+export * from "./presets";
+export * from "./frequency";
+export * from "./ostrow";
+export * from "./distribution";
+export * from "./media-mix";
+export * from "./flighting";
+export * from "./frequency-cap";
+export * from "./share-of-voice";
+export * from "./regions";
+export * from "./segments";
+export * from "./seasonality";
+export * from "./kpi";
+export * from "./calibration";
+export * from "./calculation";
+export * from "./optimizer";
+export * from "./sensitivity";
+export * from "./monte-carlo";
+export * from "./scenarios";
+export * from "./portfolio";
@@ -0,0 +1,238 @@
+import { DEFAULT_KPI_BASELINES, DEFAULT_KPI_COEFFICIENTS, DEFAULT_PLANNING } from "./constants";
+import { calculateFrequencyDistribution, getEffectiveReach, getEffectiveThreshold } from "./distribution";
+import { calculateMediaMix } from "./media-mix";
+import type {
+  CalculationInput,
+  CampaignGoal,
+  ConversionUpliftResult,
+  CoverageResult,
+  DeliveryResult,
+  LTVGrowthResult,
+  PlanningSettings,
+  SearchUpliftResult,
+  TOMResult,
+} from "./types";
+
+/**
+ * Get goal multiplier (0.2x - 1.0x)
+ */
+export function getGoalMultiplier(goal: CampaignGoal | ""): number {
+  switch (goal) {
+    case "awareness": return 1.0;
+    case "consideration": return 0.7;
+    case "conversion": return 0.4;
+    case "retention": return 0.2;
+    default: return 1.0;
+  }
+}
+
+// Мультипликатор цели для LTV (0.3x - 1.0x)
+const LTV_GOAL_MULTIPLIERS: Record<CampaignGoal, number> = {
+  awareness: 0.3,
+  consideration: 0.5,
+  conversion: 0.8,
+  retention: 1.0,
+};
+
+// Доля эффекта поисковых запросов и конверсий, которую даёт кампания с каждой целью
+const SEARCH_GOAL_MULTIPLIERS: Record<CampaignGoal, number> = {
+  awareness: 0.6,
+  consideration: 1.0,
+  conversion: 0.8,
+  retention: 0.4,
+};
+
+const CONVERSION_GOAL_MULTIPLIERS: Record<CampaignGoal, number> = {
+  awareness: 0.3,
+  consideration: 0.6,
+  conversion: 1.0,
+  retention: 0.7,
+};
+
+// Contacts at which 63% of the full response is reached: search reacts quickly, purchase needs more pressure
+export const SEARCH_RESPONSE_FREQUENCY = 2;
+export const CONVERSION_RESPONSE_FREQUENCY = 4;
+
+/**
+ * Saturating response to frequency: 1 − e^(−Frequency / k), 0–1
+ */
+export function getFrequencyResponse(frequency: number, responseFrequency: number): number {
+  return frequency > 0 ? 1 - Math.exp(-frequency / responseFrequency) : 0;
+}
+
+/**
+ * Calculate TOM growth, %
+ */
+export function calculateTOM(input: CalculationInput, frequency: number): TOMResult {
+  const { budget, goal, kpiBenchmarks } = input;
+  const coefficients = input.coefficients ?? DEFAULT_KPI_COEFFICIENTS;
+  const baseTOM = kpiBenchmarks.awareness_tom_base;
+
+  // Мультипликатор частоты: 1 + (Frequency - 1.0) × наклон (0.08 по умолчанию)
+  const frequencyMultiplier = 1 + (frequency - 1.0) * coefficients.tomFrequencySlope;
+
+  // Корректировка бюджета: √(Budget / опорный бюджет, 500,000 по умолчанию)
+  const budgetCorrection = budget > 0 ? Math.sqrt(budget / coefficients.tomBudgetReference) : 0;
+
+  // Множитель цели: 0.2x - 1.0x
+  const goalMultiplier = getGoalMultiplier(goal);
+
+  const value = !budget || !goal
+    ? 0
+    : baseTOM * frequencyMultiplier * budgetCorrection * goalMultiplier * 100 * coefficients.tomScale;
+
+  return { value, baseTOM, frequencyMultiplier, budgetCorrection, goalMultiplier };
+}
+
+/**
+ * Calculate LTV growth, %
+ */
+export function calculateLTVGrowth(input: CalculationInput, frequency: number): LTVGrowthResult {
+  const { budget, goal, kpiBenchmarks, params } = input;
+  const coefficients = input.coefficients ?? DEFAULT_KPI_COEFFICIENTS;
+  const baseLTV = kpiBenchmarks.retention_ltv_base;
+  const goalMultiplier = goal ? LTV_GOAL_MULTIPLIERS[goal] : 0.5;
+
+  // Мультипликатор частоты: 1 + (Freq - 1.0) × наклон (0.05 по умолчанию)
+  const frequencyMultiplier = 1 + (frequency - 1.0) * coefficients.ltvFrequencySlope;
+
+  // Корректировка конкуренции (на основе market_saturation, штраф 0.1 за пункт по умолчанию)
+  const competitionCorrection = 1 - (params.marketSaturation * coefficients.ltvSaturationPenalty);
+
+  // Мультипликатор качества бюджета (опорный бюджет 1,000,000 по умолчанию)
+  const budgetQualityMultiplier = budget > 0 ? Math.min(1.0 + Math.log10(budget / coefficients.ltvBudgetReference), 2.0) : 0;
+
+  const value = !budget || !goal
+    ? 0
+    : baseLTV * goalMultiplier * frequencyMultiplier * competitionCorrection * budgetQualityMultiplier * 100 * coefficients.ltvScale;
+
+  return {
+    value,
+    baseLTV,
+    goalMultiplier,
+    frequencyMultiplier,
+    competitionCorrection,
+    budgetQualityMultiplier,
+  };
+}
+
+/**
+ * Calculate branded search uplift, %
+ * Uplift = Base × EffectiveReach × (1 − e^(−Frequency / 2)) × GoalMultiplier × 100 × Scale
+ */
+export function calculateSearchUplift(input: CalculationInput, frequency: number, effectiveReach: number): SearchUpliftResult {
+  const { budget, goal, kpiBenchmarks } = input;
+  const coefficients = input.coefficients ?? DEFAULT_KPI_COEFFICIENTS;
+  const baselines = input.baselines ?? DEFAULT_KPI_BASELINES;
+  const baseUplift = kpiBenchmarks.consideration_search_base;
+  const reachShare = Math.max(0, Math.min(1, effectiveReach / 100));
+  const frequencyResponse = getFrequencyResponse(frequency, SEARCH_RESPONSE_FREQUENCY);
+  const goalMultiplier = goal ? SEARCH_GOAL_MULTIPLIERS[goal] : 0;
+
+  const value = !budget || !goal
+    ? 0
+    : baseUplift * reachShare * frequencyResponse * goalMultiplier * 100 * coefficients.searchScale;
+
+  return {
+    value,
+    baseUplift,
+    reachShare,
+    frequencyResponse,
+    goalMultiplier,
+    additionalSearches: (baselines.searchVolume * value) / 100,
+  };
+}
+
+/**
+ * Calculate relative conversion rate uplift, %
+ * Uplift = Base × EffectiveReach × (1 − e^(−Frequency / 4)) × GoalMultiplier × 100 × Scale
+ */
+export function calculateConversionUplift(input: CalculationInput, frequency: number, effectiveReach: number): ConversionUpliftResult {
+  const { budget, goal, kpiBenchmarks } = input;
+  const coefficients = input.coefficients ?? DEFAULT_KPI_COEFFICIENTS;
+  const baselines = input.baselines ?? DEFAULT_KPI_BASELINES;
+  const baseUplift = kpiBenchmarks.conversion_uplift_base;
+  const reachShare = Math.max(0, Math.min(1, effectiveReach / 100));
+  const frequencyResponse = getFrequencyResponse(frequency, CONVERSION_RESPONSE_FREQUENCY);
+  const goalMultiplier = goal ? CONVERSION_GOAL_MULTIPLIERS[goal] : 0;
+
+  const value = !budget || !goal
+    ? 0
+    : baseUplift * reachShare * frequencyResponse * goalMultiplier * 100 * coefficients.conversionScale;
+  const conversionRate = baselines.conversionRate * (1 + value / 100);
+
+  return {
+    value,
+    baseUplift,
+    reachShare,
+    frequencyResponse,
+    goalMultiplier,
+    conversionRate,
+    additionalConversions: (baselines.sessions * (conversionRate - baselines.conversionRate)) / 100,
+  };
+}
+
+/**
+ * Derive impressions and rating points from the budget for the selected buying model.
+ * CPM: Impressions = Budget / CPM × 1000, TRP = Impressions / Universe × 100.
+ * Ratings: TRP = Budget / Cost per TRP, GRP = TRP × 100 / Affinity.
+ */
+export function calculateDelivery(budget: number, universe: number, planning: PlanningSettings = DEFAULT_PLANNING): DeliveryResult {
+  if (!budget || universe <= 0) {
+    return { impressions: 0, trp: 0, grp: 0, cpm: planning.mode === "cpm" ? planning.cpm : 0 };
+  }
+
+  if (planning.mode === "ratings") {
+    const trp = planning.costPerTrp > 0 ? budget / planning.costPerTrp : 0;
+    const impressions = (trp / 100) * universe;
+    const grp = planning.affinity > 0 ? (trp * 100) / planning.affinity : trp;
+    const cpm = impressions > 0 ? (budget / impressions) * 1000 : 0;
+    return { impressions, trp, grp, cpm };
+  }
+
+  const impressions = planning.cpm > 0 ? (budget / planning.cpm) * 1000 : 0;
+  const trp = (impressions / universe) * 100;
+  return { impressions, trp, grp: trp, cpm: planning.cpm };
+}
+
+/**
+ * Calculate effective coverage of the target audience, %
+ * TRPs from the buying model (or the media mix), then the share reached at least N times
+ * (N = effective frequency) from the NBD distribution
+ */
+export function calculateCoverage(input: CalculationInput, frequency: number): CoverageResult {
+  const { budget, taCapacityRF } = input;
+  const planning = input.planning ?? DEFAULT_PLANNING;
+  const universe = planning.universe ?? taCapacityRF;
+  const threshold = getEffectiveThreshold(frequency);
+
+  const effectiveBudget = frequency === 0 ? 0 : budget;
+  const mediaMix = input.mediaMix?.enabled
+    ? calculateMediaMix(effectiveBudget, universe, input.mediaMix)
+    : null;
+
+  // A media mix replaces the single buying model with per-channel delivery
+  const delivery: DeliveryResult = mediaMix
+    ? { impressions: mediaMix.impressions, trp: mediaMix.trp, grp: mediaMix.trp, cpm: mediaMix.cpm }
+    : calculateDelivery(effectiveBudget, universe, planning);
+  const distribution = calculateFrequencyDistribution({
+    grp: delivery.trp,
+    shape: mediaMix ? mediaMix.nbdShape : input.nbdShape,
+  });
+  const value = getEffectiveReach(distribution, threshold);
+
+  return {
+    value,
+    planningMode: planning.mode,
+    cpm: delivery.cpm,
+    impressions: delivery.impressions,
+    trp: delivery.trp,
+    grp: delivery.grp,
+    universe,
+    threshold,
+    reach1Plus: distribution.reach1Plus,
+    reach: (value / 100) * universe,
+    distribution,
+    mediaMix,
+  };
+}
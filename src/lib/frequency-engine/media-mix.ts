@@ -0,0 +1,140 @@
+import { DEFAULT_NBD_SHAPE } from "./constants";
+import { fitNbdShape } from "./distribution";
+
+/**
+ * Per-channel media mix.
+ *
+ * Each channel gets a share of the budget, its own CPM and a reach ceiling.
+ * Channel reach 1+ saturates towards the ceiling:
+ *   Reach = MaxReach × (1 − e^(−TRP / MaxReach))
+ * Channels are then combined with one of two duplication models.
+ */
+
+export type MediaChannelId = "tv" | "olv" | "display" | "social" | "audio" | "outdoor";
+
+/**
+ * `sainsbury`: channel audiences overlap independently, 1 − Π(1 − Reach_i).
+ * `random`: all impressions land randomly on the audience, 1 − e^(−ΣTRP / 100),
+ * capped by the combined channel ceilings.
+ */
+export type DuplicationMethod = "sainsbury" | "random";
+
+export interface MediaChannelAllocation {
+  channel: MediaChannelId;
+  /** Share of the total budget, % */
+  share: number;
+  /** RUB per 1000 impressions */
+  cpm: number;
+  /** Maximum reach the channel can deliver in the target audience, % */
+  maxReach: number;
+}
+
+export interface MediaMixSettings {
+  enabled: boolean;
+  method: DuplicationMethod;
+  channels: MediaChannelAllocation[];
+}
+
+export interface MediaChannelResult extends MediaChannelAllocation {
+  budget: number;
+  impressions: number;
+  trp: number;
+  /** Channel reach 1+, % */
+  reach: number;
+}
+
+export interface MediaMixResult {
+  method: DuplicationMethod;
+  channels: MediaChannelResult[];
+  /** Sum of allocated shares before normalisation, % */
+  totalShare: number;
+  impressions: number;
+  trp: number;
+  /** Deduplicated reach 1+, % */
+  reach1Plus: number;
+  /** Blended CPM across channels */
+  cpm: number;
+  /** NBD shape fitted to the combined reach, for the N+ tail */
+  nbdShape: number;
+}
+
+export const MEDIA_CHANNEL_LABELS: Record<MediaChannelId, string> = {
+  tv: "ТВ",
+  olv: "OLV",
+  display: "Баннеры",
+  social: "Соцсети",
+  audio: "Аудио",
+  outdoor: "Наружная реклама",
+};
+
+export const DEFAULT_MEDIA_MIX: MediaMixSettings = {
+  enabled: false,
+  method: "sainsbury",
+  channels: [
+    { channel: "tv", share: 40, cpm: 300, maxReach: 90 },
+    { channel: "olv", share: 20, cpm: 450, maxReach: 70 },
+    { channel: "display", share: 10, cpm: 150, maxReach: 60 },
+    { channel: "social", share: 15, cpm: 250, maxReach: 65 },
+    { channel: "audio", share: 5, cpm: 200, maxReach: 40 },
+    { channel: "outdoor", share: 10, cpm: 120, maxReach: 55 },
+  ],
+};
+
+/**
+ * Channel reach 1+ (%) for the given TRPs with a saturation ceiling
+ */
+export function calculateChannelReach(trp: number, maxReach: number): number {
+  if (trp <= 0 || maxReach <= 0) return 0;
+  return maxReach * (1 - Math.exp(-trp / maxReach));
+}
+
+/**
+ * Combine channel reaches (%) into a deduplicated reach 1+ (%)
+ */
+export function combineReach(channels: MediaChannelResult[], method: DuplicationMethod): number {
+  const ceiling = 1 - channels.reduce((acc, c) => acc * (1 - c.maxReach / 100), 1);
+
+  if (method === "random") {
+    const totalTrp = channels.reduce((acc, c) => acc + c.trp, 0);
+    return Math.min(1 - Math.exp(-totalTrp / 100), ceiling) * 100;
+  }
+
+  return (1 - channels.reduce((acc, c) => acc * (1 - c.reach / 100), 1)) * 100;
+}
+
+/**
+ * Split the budget across channels and compute combined delivery and reach
+ */
+export function calculateMediaMix(budget: number, universe: number, settings: MediaMixSettings): MediaMixResult {
+  const totalShare = settings.channels.reduce((acc, c) => acc + Math.max(0, c.share), 0);
+
+  const channels: MediaChannelResult[] = settings.channels.map((allocation) => {
+    // Shares are normalised so the whole budget is always allocated
+    const channelBudget = totalShare > 0 && budget > 0 ? (budget * Math.max(0, allocation.share)) / totalShare : 0;
+    const impressions = allocation.cpm > 0 ? (channelBudget / allocation.cpm) * 1000 : 0;
+    const trp = universe > 0 ? (impressions / universe) * 100 : 0;
+
+    return {
+      ...allocation,
+      budget: channelBudget,
+      impressions,
+      trp,
+      reach: calculateChannelReach(trp, allocation.maxReach),
+    };
+  });
+
+  const impressions = channels.reduce((acc, c) => acc + c.impressions, 0);
+  const trp = channels.reduce((acc, c) => acc + c.trp, 0);
+  const reach1Plus = combineReach(channels, settings.method);
+
+  return {
+    method: settings.method,
+    channels,
+    totalShare,
+    impressions,
+    trp,
+    reach1Plus,
+    cpm: impressions > 0 ? (budget / impressions) * 1000 : 0,
+    nbdShape: trp > 0 ? fitNbdShape(trp, reach1Plus) : DEFAULT_NBD_SHAPE,
+  };
+}
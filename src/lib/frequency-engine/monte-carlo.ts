@@ -0,0 +1,183 @@
+import { applyPriceIndex, runCalculation, toForecastPoint } from "./calculation";
+import { clampParam } from "./frequency";
+import type {
+  CalculationInput,
+  ForecastMetric,
+  FrequencyResult,
+  KpiBenchmarks,
+  SliderParams,
+} from "./types";
+
+/**
+ * Monte Carlo uncertainty bands.
+ * The slider factors and KPI benchmarks are drawn from normal distributions
+ * around the entered values and the buying price from a uniform range;
+ * the spread of the outputs gives P10/P50/P90 for each KPI card.
+ */
+
+export interface UncertaintySettings {
+  /** σ of each slider factor, points on the −2..+2 scale */
+  paramSigma: number;
+  /** σ of each KPI benchmark, % of its value */
+  benchmarkSigma: number;
+  /** CPM (and cost per TRP) range around the plan, ±% */
+  cpmRange: number;
+  iterations: number;
+  /** Seed of the random generator, so the same inputs give the same bands */
+  seed: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface MetricDistribution {
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+  histogram: HistogramBin[];
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  metrics: Record<ForecastMetric, MetricDistribution>;
+}
+
+/** Message sent to the Monte Carlo web worker */
+export interface MonteCarloRequest {
+  id: number;
+  input: CalculationInput;
+  settings: UncertaintySettings;
+  frequencyOverride?: FrequencyResult;
+}
+
+export interface MonteCarloResponse {
+  id: number;
+  result: MonteCarloResult;
+}
+
+export const DEFAULT_UNCERTAINTY: UncertaintySettings = {
+  paramSigma: 0.5,
+  benchmarkSigma: 20,
+  cpmRange: 15,
+  iterations: 2000,
+  seed: 1,
+};
+
+const HISTOGRAM_BINS = 20;
+// Upper bound on iterations so a typo cannot freeze the worker
+const MAX_ITERATIONS = 20000;
+
+/**
+ * Seeded uniform generator in [0, 1) (mulberry32)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal draw (Box–Muller)
+function randomNormal(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Value at quantile `q` (0..1) of an ascending array, with linear interpolation
+ */
+export function getPercentile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function buildHistogram(sorted: number[]): HistogramBin[] {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (max - min < 1e-9) return [{ from: min, to: max, count: sorted.length }];
+
+  const width = (max - min) / HISTOGRAM_BINS;
+  const bins: HistogramBin[] = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0,
+  }));
+  for (const value of sorted) {
+    bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width))].count++;
+  }
+  return bins;
+}
+
+function summarize(values: number[]): MetricDistribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: getPercentile(sorted, 0.1),
+    p50: getPercentile(sorted, 0.5),
+    p90: getPercentile(sorted, 0.9),
+    mean: sorted.reduce((acc, value) => acc + value, 0) / sorted.length,
+    histogram: buildHistogram(sorted),
+  };
+}
+
+/**
+ * Draw one scenario around the entered inputs
+ */
+function sampleInput(input: CalculationInput, settings: UncertaintySettings, random: () => number): CalculationInput {
+  const params = { ...input.params };
+  for (const key of Object.keys(params) as (keyof SliderParams)[]) {
+    params[key] = clampParam(params[key] + randomNormal(random) * settings.paramSigma);
+  }
+
+  const kpiBenchmarks = { ...input.kpiBenchmarks };
+  for (const key of Object.keys(kpiBenchmarks) as (keyof KpiBenchmarks)[]) {
+    const factor = 1 + randomNormal(random) * (settings.benchmarkSigma / 100);
+    kpiBenchmarks[key] = Math.max(0, kpiBenchmarks[key] * factor);
+  }
+
+  // One market-wide price factor for every buying model
+  const priceFactor = 1 + (random() * 2 - 1) * (settings.cpmRange / 100);
+
+  return applyPriceIndex({ ...input, params, kpiBenchmarks }, priceFactor);
+}
+
+/**
+ * Run `settings.iterations` simulations and summarise frequency, coverage and the goal KPI.
+ * Pass `frequencyOverride` to keep the frequency from another method (e.g. Ostrow) fixed.
+ */
+export function runMonteCarlo(
+  input: CalculationInput,
+  settings: UncertaintySettings = DEFAULT_UNCERTAINTY,
+  frequencyOverride?: FrequencyResult
+): MonteCarloResult {
+  const random = createRandom(settings.seed);
+  const iterations = Math.min(MAX_ITERATIONS, Math.max(1, Math.round(settings.iterations)));
+  const samples: Record<ForecastMetric, number[]> = { frequency: [], coverage: [], goalKPI: [] };
+
+  for (let i = 0; i < iterations; i++) {
+    const point = toForecastPoint(runCalculation(sampleInput(input, settings, random), frequencyOverride));
+    samples.frequency.push(point.frequency);
+    samples.coverage.push(point.coverage);
+    samples.goalKPI.push(point.goalKPI);
+  }
+
+  return {
+    iterations,
+    metrics: {
+      frequency: summarize(samples.frequency),
+      coverage: summarize(samples.coverage),
+      goalKPI: summarize(samples.goalKPI),
+    },
+  };
+}
@@ -0,0 +1,10 @@
+import { runMonteCarlo, type MonteCarloRequest, type MonteCarloResponse } from "./monte-carlo";
+
+/**
+ * Web worker running the Monte Carlo simulation off the main thread
+ */
+self.addEventListener("message", (event: MessageEvent<MonteCarloRequest>) => {
+  const { id, input, settings, frequencyOverride } = event.data;
+  const response: MonteCarloResponse = { id, result: runMonteCarlo(input, settings, frequencyOverride) };
+  self.postMessage(response);
+});
@@ -0,0 +1,152 @@
+import { getEffectiveThreshold } from "./distribution";
+import { calculateCoverage } from "./kpi";
+import type { MediaChannelAllocation } from "./media-mix";
+import type { CalculationInput } from "./types";
+
+/**
+ * Deterministic inverse solvers on top of the coverage model.
+ * Effective reach grows monotonically with budget, so the minimum budget
+ * for a target reach is found by bisection.
+ */
+
+export interface BudgetSolverResult {
+  /** Requested share of the audience reached at `threshold`+, % */
+  targetReach: number;
+  threshold: number;
+  feasible: boolean;
+  /** Minimum budget reaching the target, RUB; null when the target is out of reach */
+  budget: number | null;
+  /** Effective reach delivered by `budget`, % */
+  achievedReach: number;
+  /** Reach ceiling of the current buying model, % */
+  maxReach: number;
+}
+
+export interface ReachSolverResult {
+  budget: number;
+  threshold: number;
+  /** Best effective reach for the budget, % */
+  reach: number;
+  reach1Plus: number;
+  /** Allocation that delivers `reach` when a media mix is enabled */
+  allocation: MediaChannelAllocation[] | null;
+}
+
+// Default target for the budget solver: share of the audience at N+, %
+export const DEFAULT_TARGET_REACH = 50;
+
+// Budget ceiling for the search, RUB
+const MAX_SOLVER_BUDGET = 1e12;
+// Relative precision of the bisection
+const SOLVER_PRECISION = 1e-4;
+// Media mix optimiser: budget is allocated in steps of this share, %
+const ALLOCATION_STEP = 5;
+
+function effectiveReachAt(input: CalculationInput, frequency: number, budget: number): number {
+  return calculateCoverage({ ...input, budget }, frequency).value;
+}
+
+/**
+ * Minimum budget that reaches `targetReach` % of the audience at the effective frequency
+ */
+export function solveBudgetForReach(
+  input: CalculationInput,
+  frequency: number,
+  targetReach: number
+): BudgetSolverResult {
+  const threshold = getEffectiveThreshold(frequency);
+  const maxReach = effectiveReachAt(input, frequency, MAX_SOLVER_BUDGET);
+
+  if (targetReach <= 0) {
+    return { targetReach, threshold, feasible: true, budget: 0, achievedReach: 0, maxReach };
+  }
+  if (maxReach < targetReach) {
+    return { targetReach, threshold, feasible: false, budget: null, achievedReach: maxReach, maxReach };
+  }
+
+  // Find an upper bound, then bisect
+  let low = 0;
+  let high = 1000;
+  while (high < MAX_SOLVER_BUDGET && effectiveReachAt(input, frequency, high) < targetReach) {
+    low = high;
+    high *= 2;
+  }
+  high = Math.min(high, MAX_SOLVER_BUDGET);
+
+  while (high - low > high * SOLVER_PRECISION) {
+    const mid = (low + high) / 2;
+    if (effectiveReachAt(input, frequency, mid) < targetReach) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return {
+    targetReach,
+    threshold,
+    feasible: true,
+    budget: high,
+    achievedReach: effectiveReachAt(input, frequency, high),
+    maxReach,
+  };
+}
+
+/**
+ * Best achievable effective reach for the budget in `input`.
+ * With a media mix the channel split is re-optimised greedily; otherwise
+ * the buying model has a single channel and the reach is the coverage itself.
+ */
+export function solveReachForBudget(input: CalculationInput, frequency: number): ReachSolverResult {
+  const threshold = getEffectiveThreshold(frequency);
+  const mix = input.mediaMix;
+
+  if (!mix?.enabled || mix.channels.length === 0) {
+    const coverage = calculateCoverage(input, frequency);
+    return {
+      budget: input.budget,
+      threshold,
+      reach: coverage.value,
+      reach1Plus: coverage.reach1Plus,
+      allocation: null,
+    };
+  }
+
+  let shares = mix.channels.map(() => 0);
+  const evaluate = (candidate: number[]) => calculateCoverage({
+    ...input,
+    mediaMix: {
+      ...mix,
+      channels: mix.channels.map((channel, i) => ({ ...channel, share: candidate[i] })),
+    },
+  }, frequency);
+
+  // Give each budget step to the channel that adds the most effective reach
+  for (let allocated = 0; allocated < 100; allocated += ALLOCATION_STEP) {
+    let bestShares = shares;
+    let bestScore = -Infinity;
+
+    mix.channels.forEach((_, i) => {
+      const candidate = shares.map((share, j) => (j === i ? share + ALLOCATION_STEP : share));
+      const coverage = evaluate(candidate);
+      // Ties on N+ (e.g. zero reach at low budgets) are broken by reach 1+
+      const score = coverage.value * 1000 + coverage.reach1Plus;
+      if (score > bestScore) {
+        bestScore = score;
+        bestShares = candidate;
+      }
+    });
+
+    shares = bestShares;
+  }
+
+  const coverage = evaluate(shares);
+
+  return {
+    budget: input.budget,
+    threshold,
+    reach: coverage.value,
+    reach1Plus: coverage.reach1Plus,
+    allocation: mix.channels.map((channel, i) => ({ ...channel, share: shares[i] })),
+  };
+}
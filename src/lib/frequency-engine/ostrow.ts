@@ -0,0 +1,93 @@
+import { FREQUENCY_MIN } from "./constants";
+import type { FrequencyResult } from "./types";
+
+/**
+ * Ostrow effective frequency worksheet.
+ * Each factor is scored from -0.2 (less frequency needed) to +0.2
+ * (more frequency needed); the scores are added to a base of 3.
+ */
+
+export type OstrowFactorGroup = "marketing" | "copy" | "media";
+
+export interface OstrowFactor {
+  id: string;
+  group: OstrowFactorGroup;
+  /** Condition that lowers the required frequency (-0.2) */
+  low: string;
+  /** Condition that raises the required frequency (+0.2) */
+  high: string;
+}
+
+export type OstrowScores = Record<string, number>;
+
+export interface OstrowResult extends FrequencyResult {
+  /** Sum of scores per factor group */
+  byGroup: Record<OstrowFactorGroup, number>;
+}
+
+export const OSTROW_BASE_FREQUENCY = 3.0;
+export const OSTROW_SCORE_MIN = -0.2;
+export const OSTROW_SCORE_MAX = 0.2;
+
+export const OSTROW_GROUP_LABELS: Record<OstrowFactorGroup, string> = {
+  marketing: "Маркетинговые факторы",
+  copy: "Креативные факторы",
+  media: "Медийные факторы",
+};
+
+export const OSTROW_FACTORS: OstrowFactor[] = [
+  // Marketing factors
+  { id: "brand_novelty", group: "marketing", low: "Устоявшийся бренд", high: "Новый бренд" },
+  { id: "market_share", group: "marketing", low: "Высокая доля рынка", high: "Низкая доля рынка" },
+  { id: "brand_dominance", group: "marketing", low: "Доминирующий бренд", high: "Малоизвестный бренд" },
+  { id: "brand_loyalty", group: "marketing", low: "Высокая лояльность", high: "Низкая лояльность" },
+  { id: "purchase_cycle", group: "marketing", low: "Длинный цикл покупки", high: "Короткий цикл покупки" },
+  { id: "usage_frequency", group: "marketing", low: "Продукт используется редко", high: "Продукт используется ежедневно" },
+  { id: "competitive_pressure", group: "marketing", low: "Слабое давление конкурентов", high: "Нужно опередить конкурентов" },
+  { id: "audience_type", group: "marketing", low: "Широкая взрослая аудитория", high: "Пожилые люди или дети" },
+  // Copy factors
+  { id: "copy_complexity", group: "copy", low: "Простое сообщение", high: "Сложное сообщение" },
+  { id: "copy_uniqueness", group: "copy", low: "Сообщение уникальнее конкурентов", high: "Сообщение похоже на конкурентов" },
+  { id: "campaign_continuity", group: "copy", low: "Продолжение кампании", high: "Новая кампания" },
+  { id: "copy_type", group: "copy", low: "Продающий креатив", high: "Имиджевый креатив" },
+  { id: "message_variety", group: "copy", low: "Одно сообщение", high: "Несколько разных сообщений" },
+  { id: "wearout", group: "copy", low: "Новые креативы", high: "Давно используемые креативы" },
+  { id: "ad_unit_size", group: "copy", low: "Крупные форматы", high: "Небольшие форматы" },
+  // Media factors
+  { id: "clutter", group: "media", low: "Низкий рекламный шум", high: "Высокий рекламный шум" },
+  { id: "editorial_environment", group: "media", low: "Подходящее редакционное окружение", high: "Неподходящее окружение" },
+  { id: "attentiveness", group: "media", low: "Высокое внимание аудитории", high: "Низкое внимание аудитории" },
+  { id: "scheduling", group: "media", low: "Непрерывное размещение", high: "Флайтовое / пульсирующее размещение" },
+  { id: "media_count", group: "media", low: "Мало медиаканалов", high: "Много медиаканалов" },
+  { id: "repetition", group: "media", low: "Много возможностей для повтора", high: "Мало возможностей для повтора" },
+];
+
+/**
+ * Neutral worksheet: every factor scored 0
+ */
+export function createOstrowScores(): OstrowScores {
+  return Object.fromEntries(OSTROW_FACTORS.map((factor) => [factor.id, 0]));
+}
+
+/**
+ * Calculate effective frequency from Ostrow worksheet scores
+ */
+export function calculateOstrowFrequency(scores: OstrowScores): OstrowResult {
+  const byGroup: Record<OstrowFactorGroup, number> = { marketing: 0, copy: 0, media: 0 };
+
+  for (const factor of OSTROW_FACTORS) {
+    const score = Math.max(OSTROW_SCORE_MIN, Math.min(OSTROW_SCORE_MAX, scores[factor.id] ?? 0));
+    byGroup[factor.group] += score;
+  }
+
+  const weightedSum = byGroup.marketing + byGroup.copy + byGroup.media;
+  const raw = OSTROW_BASE_FREQUENCY + weightedSum;
+
+  return {
+    modelId: "ostrow",
+    weightedSum,
+    raw,
+    frequency: Math.max(FREQUENCY_MIN, raw),
+    byGroup,
+  };
+}
@@ -0,0 +1,142 @@
+import { runCalculation } from "./calculation";
+import type { CalculationInput, CalculationResult, FrequencyResult } from "./types";
+
+/**
+ * Brand portfolios.
+ *
+ * Several brand calculations share one total budget. Each brand keeps its own
+ * sliders, goal, audience and benchmarks; the portfolio only decides how the
+ * budget is split. Brand audiences are treated as independent, so people
+ * reached add up across brands.
+ */
+
+export interface PortfolioBrand {
+  id: string;
+  name: string;
+  /** Calculation inputs of the brand; the budget comes from the allocation */
+  input: CalculationInput;
+  /** Frequency the brand was planned with, e.g. from the Ostrow worksheet; from the sliders when omitted */
+  frequency?: FrequencyResult;
+  /** Weight of the brand's goal KPI in the weighted portfolio KPI */
+  weight: number;
+}
+
+/** What the suggested allocation maximises */
+export type PortfolioObjective = "reach" | "kpi";
+
+export interface PortfolioBrandResult {
+  brand: PortfolioBrand;
+  /** Share of the total budget, % */
+  share: number;
+  budget: number;
+  calculation: CalculationResult;
+}
+
+export interface PortfolioPlan {
+  brands: PortfolioBrandResult[];
+  budget: number;
+  /** Target audiences of all brands, people */
+  audience: number;
+  /** People reached at their brand's effective frequency */
+  effectivelyReached: number;
+  /** Audience-weighted effective reach, % */
+  effectiveReach: number;
+  /** Goal KPIs averaged with the brand weights, % */
+  weightedKPI: number;
+}
+
+// Allocation is searched in steps of this share of the total budget, %
+export const PORTFOLIO_ALLOCATION_STEP = 5;
+
+/**
+ * Shares after a brand joins the portfolio: only the new brand gets a
+ * starting share, an equal split of the new brand count; the shares already
+ * set for the other brands are kept
+ */
+export function addPortfolioShare(
+  shares: Record<string, number>,
+  brandId: string,
+  brandCount: number
+): Record<string, number> {
+  return { ...shares, [brandId]: 100 / Math.max(1, brandCount) };
+}
+
+function calculateBrand(brand: PortfolioBrand, budget: number): CalculationResult {
+  return runCalculation({ ...brand.input, budget }, brand.frequency);
+}
+
+/**
+ * Run every brand on its share of the total budget and add up the portfolio.
+ * Shares are normalised, so the whole budget is always allocated.
+ */
+export function calculatePortfolio(
+  brands: PortfolioBrand[],
+  totalBudget: number,
+  shares: Record<string, number>
+): PortfolioPlan {
+  const totalShare = brands.reduce((acc, brand) => acc + Math.max(0, shares[brand.id] ?? 0), 0);
+
+  const results = brands.map((brand): PortfolioBrandResult => {
+    const share = totalShare > 0 ? (Math.max(0, shares[brand.id] ?? 0) / totalShare) * 100 : 0;
+    const budget = (Math.max(0, totalBudget) * share) / 100;
+    return { brand, share, budget, calculation: calculateBrand(brand, budget) };
+  });
+
+  const audience = results.reduce((acc, r) => acc + r.calculation.coverage.universe, 0);
+  const effectivelyReached = results.reduce((acc, r) => acc + r.calculation.coverage.reach, 0);
+  const totalWeight = results.reduce((acc, r) => acc + Math.max(0, r.brand.weight), 0);
+
+  return {
+    brands: results,
+    budget: results.reduce((acc, r) => acc + r.budget, 0),
+    audience,
+    effectivelyReached,
+    effectiveReach: audience > 0 ? (effectivelyReached / audience) * 100 : 0,
+    weightedKPI: totalWeight > 0
+      ? results.reduce((acc, r) => acc + Math.max(0, r.brand.weight) * r.calculation.goalKPI, 0) / totalWeight
+      : 0,
+  };
+}
+
+/**
+ * Suggest budget shares (%) that maximise the portfolio objective.
+ * Each budget step goes to the brand that gains the most from it: people
+ * reached at N+ for "reach", weighted goal KPI for "kpi".
+ */
+export function allocatePortfolio(
+  brands: PortfolioBrand[],
+  totalBudget: number,
+  objective: PortfolioObjective
+): Record<string, number> {
+  const shares: Record<string, number> = Object.fromEntries(brands.map((brand) => [brand.id, 0]));
+  if (brands.length === 0 || totalBudget <= 0) return shares;
+
+  const score = (brand: PortfolioBrand, share: number) => {
+    const calculation = calculateBrand(brand, (totalBudget * share) / 100);
+    return {
+      value: objective === "reach"
+        ? calculation.coverage.reach
+        : Math.max(0, brand.weight) * calculation.goalKPI,
+      reach1Plus: (calculation.coverage.universe * calculation.coverage.reach1Plus) / 100,
+    };
+  };
+
+  for (let allocated = 0; allocated < 100; allocated += PORTFOLIO_ALLOCATION_STEP) {
+    let best = brands[0];
+    let bestGain = { value: -Infinity, reach1Plus: -Infinity };
+    for (const brand of brands) {
+      const before = score(brand, shares[brand.id]);
+      const after = score(brand, shares[brand.id] + PORTFOLIO_ALLOCATION_STEP);
+      const gain = { value: after.value - before.value, reach1Plus: after.reach1Plus - before.reach1Plus };
+      // Ties (e.g. no N+ reach yet at low budgets) are broken by people reached 1+
+      const isTie = Math.abs(gain.value - bestGain.value) < 1e-9;
+      if (isTie ? gain.reach1Plus > bestGain.reach1Plus : gain.value > bestGain.value) {
+        bestGain = gain;
+        best = brand;
+      }
+    }
+    shares[best.id] += PORTFOLIO_ALLOCATION_STEP;
+  }
+
+  return shares;
+}
@@ -0,0 +1,84 @@
+import { FREQUENCY_BASE, FREQUENCY_MAX, FREQUENCY_MIN } from "./constants";
+import type { FrequencyModel } from "./types";
+
+/**
+ * Standard model: every factor moves frequency by the same amount
+ */
+export const DEFAULT_FREQUENCY_MODEL: FrequencyModel = {
+  id: "standard",
+  label: "Стандартная",
+  description: "Равные веса всех факторов",
+  baseFrequency: FREQUENCY_BASE,
+  minFrequency: FREQUENCY_MIN,
+  maxFrequency: FREQUENCY_MAX,
+  weights: {
+    brandAwareness: 1.0,
+    marketSaturation: 1.0,
+    campaignGoal: 1.0,
+    targetAudience: 1.0,
+    productComplexity: 1.0,
+    messageComplexity: 1.0,
+  },
+};
+
+/**
+ * Weight presets shipped with the app, selectable in the params step
+ */
+export const FREQUENCY_MODEL_PRESETS: FrequencyModel[] = [
+  DEFAULT_FREQUENCY_MODEL,
+  {
+    id: "fmcg",
+    label: "FMCG",
+    description: "Массовые товары: высокий рекламный шум, простое сообщение",
+    baseFrequency: 3.0,
+    minFrequency: 2.0,
+    maxFrequency: 12.0,
+    weights: {
+      brandAwareness: 1.0,
+      marketSaturation: 1.4,
+      campaignGoal: 0.8,
+      targetAudience: 0.6,
+      productComplexity: 0.5,
+      messageComplexity: 0.9,
+    },
+  },
+  {
+    id: "b2b_tech",
+    label: "B2B технологии",
+    description: "Узкая аудитория, сложный продукт и длинный цикл сделки",
+    baseFrequency: 2.0,
+    minFrequency: 1.0,
+    maxFrequency: 10.0,
+    weights: {
+      brandAwareness: 0.8,
+      marketSaturation: 0.7,
+      campaignGoal: 1.2,
+      targetAudience: 1.3,
+      productComplexity: 1.5,
+      messageComplexity: 1.3,
+    },
+  },
+  {
+    id: "pharma",
+    label: "Фарма",
+    description: "Регулируемое сообщение, высокая цена ошибки восприятия",
+    baseFrequency: 3.0,
+    minFrequency: 2.0,
+    maxFrequency: 15.0,
+    weights: {
+      brandAwareness: 0.9,
+      marketSaturation: 1.0,
+      campaignGoal: 1.0,
+      targetAudience: 0.9,
+      productComplexity: 1.2,
+      messageComplexity: 1.5,
+    },
+  },
+];
+
+/**
+ * Find a preset by id, falling back to the standard model
+ */
+export function getFrequencyModelPreset(id: string | null | undefined): FrequencyModel {
+  return FREQUENCY_MODEL_PRESETS.find((preset) => preset.id === id) ?? DEFAULT_FREQUENCY_MODEL;
+}
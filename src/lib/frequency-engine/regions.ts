@@ -0,0 +1,235 @@
+import { applyPriceIndex } from "./calculation";
+import { calculateCoverage } from "./kpi";
+import type { CalculationInput, CoverageResult } from "./types";
+
+/**
+ * Regional target audience capacity.
+ *
+ * Bundled population estimates for the federal districts and the cities
+ * with more than one million residents (Rosstat, 1 January 2023, rounded).
+ * Age and gender structure is national; income structure and media prices
+ * differ by region. Cities lie inside their district, so a city is skipped
+ * when its district is selected as well.
+ */
+
+export type RegionKind = "district" | "city";
+export type AgeBand = "18-24" | "25-34" | "35-44" | "45-54" | "55-64" | "65+";
+export type Gender = "male" | "female";
+export type IncomeBand = "low" | "middle" | "high";
+
+export interface Region {
+  id: string;
+  name: string;
+  kind: RegionKind;
+  /** District a city belongs to */
+  districtId?: string;
+  population: number;
+  /** Share of residents per income band, % */
+  income: Record<IncomeBand, number>;
+  /** Media price relative to the national average */
+  cpmIndex: number;
+}
+
+export interface AudienceFilter {
+  ageBands: AgeBand[];
+  genders: Gender[];
+  incomeBands: IncomeBand[];
+}
+
+export interface RegionalSettings {
+  /** Use the selected regions instead of the single RF capacity */
+  enabled: boolean;
+  regionIds: string[];
+  filter: AudienceFilter;
+}
+
+export interface RegionAudience {
+  region: Region;
+  /** Target audience in the region after the filters */
+  audience: number;
+  /** True when the region is already counted in a selected district */
+  isIncluded: boolean;
+}
+
+export interface RegionalCoverageRow {
+  region: Region;
+  audience: number;
+  budget: number;
+  coverage: CoverageResult;
+}
+
+export interface RegionalCoverageResult {
+  rows: RegionalCoverageRow[];
+  audience: number;
+  /** Audience-weighted effective reach, % */
+  effectiveReach: number;
+  /** Audience-weighted reach 1+, % */
+  reach1Plus: number;
+}
+
+export const AGE_BAND_LABELS: Record<AgeBand, string> = {
+  "18-24": "18–24",
+  "25-34": "25–34",
+  "35-44": "35–44",
+  "45-54": "45–54",
+  "55-64": "55–64",
+  "65+": "65+",
+};
+
+export const GENDER_LABELS: Record<Gender, string> = {
+  male: "Мужчины",
+  female: "Женщины",
+};
+
+export const INCOME_BAND_LABELS: Record<IncomeBand, string> = {
+  low: "До 30 тыс. ₽",
+  middle: "30–70 тыс. ₽",
+  high: "Выше 70 тыс. ₽",
+};
+
+// Share of the total population by age, %; the remaining 21.6% are under 18
+export const AGE_STRUCTURE: Record<AgeBand, number> = {
+  "18-24": 7.5,
+  "25-34": 12.5,
+  "35-44": 15.5,
+  "45-54": 13.3,
+  "55-64": 13.3,
+  "65+": 16.3,
+};
+
+export const GENDER_STRUCTURE: Record<Gender, number> = {
+  male: 46.4,
+  female: 53.6,
+};
+
+export const REGIONS: Region[] = [
+  { id: "cfd", name: "Центральный ФО", kind: "district", population: 40200000, income: { low: 38, middle: 42, high: 20 }, cpmIndex: 1.2 },
+  { id: "nwfd", name: "Северо-Западный ФО", kind: "district", population: 13900000, income: { low: 38, middle: 45, high: 17 }, cpmIndex: 1.1 },
+  { id: "sfd", name: "Южный ФО", kind: "district", population: 16500000, income: { low: 52, middle: 39, high: 9 }, cpmIndex: 0.9 },
+  { id: "ncfd", name: "Северо-Кавказский ФО", kind: "district", population: 10200000, income: { low: 65, middle: 30, high: 5 }, cpmIndex: 0.7 },
+  { id: "vfd", name: "Приволжский ФО", kind: "district", population: 28700000, income: { low: 52, middle: 39, high: 9 }, cpmIndex: 0.9 },
+  { id: "ufd", name: "Уральский ФО", kind: "district", population: 12300000, income: { low: 42, middle: 43, high: 15 }, cpmIndex: 1.0 },
+  { id: "sibfd", name: "Сибирский ФО", kind: "district", population: 16600000, income: { low: 53, middle: 38, high: 9 }, cpmIndex: 0.9 },
+  { id: "fefd", name: "Дальневосточный ФО", kind: "district", population: 7900000, income: { low: 40, middle: 44, high: 16 }, cpmIndex: 0.9 },
+
+  { id: "moscow", name: "Москва", kind: "city", districtId: "cfd", population: 13100000, income: { low: 20, middle: 45, high: 35 }, cpmIndex: 1.6 },
+  { id: "spb", name: "Санкт-Петербург", kind: "city", districtId: "nwfd", population: 5600000, income: { low: 25, middle: 48, high: 27 }, cpmIndex: 1.3 },
+  { id: "novosibirsk", name: "Новосибирск", kind: "city", districtId: "sibfd", population: 1630000, income: { low: 40, middle: 45, high: 15 }, cpmIndex: 1.05 },
+  { id: "yekaterinburg", name: "Екатеринбург", kind: "city", districtId: "ufd", population: 1540000, income: { low: 36, middle: 46, high: 18 }, cpmIndex: 1.1 },
+  { id: "kazan", name: "Казань", kind: "city", districtId: "vfd", population: 1310000, income: { low: 38, middle: 46, high: 16 }, cpmIndex: 1.05 },
+  { id: "nizhny_novgorod", name: "Нижний Новгород", kind: "city", districtId: "vfd", population: 1210000, income: { low: 40, middle: 45, high: 15 }, cpmIndex: 1.0 },
+  { id: "krasnoyarsk", name: "Красноярск", kind: "city", districtId: "sibfd", population: 1200000, income: { low: 38, middle: 46, high: 16 }, cpmIndex: 1.0 },
+  { id: "chelyabinsk", name: "Челябинск", kind: "city", districtId: "ufd", population: 1180000, income: { low: 44, middle: 44, high: 12 }, cpmIndex: 0.95 },
+  { id: "samara", name: "Самара", kind: "city", districtId: "vfd", population: 1160000, income: { low: 42, middle: 44, high: 14 }, cpmIndex: 1.0 },
+  { id: "ufa", name: "Уфа", kind: "city", districtId: "vfd", population: 1160000, income: { low: 42, middle: 44, high: 14 }, cpmIndex: 0.95 },
+  { id: "rostov", name: "Ростов-на-Дону", kind: "city", districtId: "sfd", population: 1140000, income: { low: 42, middle: 44, high: 14 }, cpmIndex: 1.0 },
+  { id: "krasnodar", name: "Краснодар", kind: "city", districtId: "sfd", population: 1140000, income: { low: 38, middle: 46, high: 16 }, cpmIndex: 1.05 },
+  { id: "omsk", name: "Омск", kind: "city", districtId: "sibfd", population: 1100000, income: { low: 48, middle: 42, high: 10 }, cpmIndex: 0.9 },
+  { id: "voronezh", name: "Воронеж", kind: "city", districtId: "cfd", population: 1050000, income: { low: 45, middle: 43, high: 12 }, cpmIndex: 0.95 },
+  { id: "perm", name: "Пермь", kind: "city", districtId: "vfd", population: 1030000, income: { low: 44, middle: 44, high: 12 }, cpmIndex: 0.95 },
+  { id: "volgograd", name: "Волгоград", kind: "city", districtId: "sfd", population: 1020000, income: { low: 48, middle: 42, high: 10 }, cpmIndex: 0.9 },
+];
+
+export const DEFAULT_AUDIENCE_FILTER: AudienceFilter = {
+  ageBands: ["18-24", "25-34", "35-44", "45-54", "55-64", "65+"],
+  genders: ["male", "female"],
+  incomeBands: ["low", "middle", "high"],
+};
+
+export const DEFAULT_REGIONAL_SETTINGS: RegionalSettings = {
+  enabled: false,
+  regionIds: [],
+  filter: DEFAULT_AUDIENCE_FILTER,
+};
+
+/**
+ * Look up a bundled region by id
+ */
+export function getRegion(id: string): Region | undefined {
+  return REGIONS.find((region) => region.id === id);
+}
+
+/**
+ * Target audience of one region after the age, gender and income filters
+ */
+export function getRegionAudience(region: Region, filter: AudienceFilter): number {
+  const sum = <K extends string>(shares: Record<K, number>, keys: K[]) =>
+    keys.reduce((acc, key) => acc + (shares[key] ?? 0), 0) / 100;
+
+  return region.population
+    * sum(AGE_STRUCTURE, filter.ageBands)
+    * sum(GENDER_STRUCTURE, filter.genders)
+    * sum(region.income, filter.incomeBands);
+}
+
+/**
+ * Target audience per selected region; cities inside a selected district are flagged, not double counted
+ */
+export function calculateRegionalAudience(settings: RegionalSettings): RegionAudience[] {
+  const selected = new Set(settings.regionIds);
+  return REGIONS
+    .filter((region) => selected.has(region.id))
+    .map((region) => ({
+      region,
+      audience: getRegionAudience(region, settings.filter),
+      isIncluded: region.kind === "city" && !!region.districtId && selected.has(region.districtId),
+    }));
+}
+
+/**
+ * Total target audience capacity of the selection
+ */
+export function calculateRegionalCapacity(settings: RegionalSettings): number {
+  return calculateRegionalAudience(settings)
+    .filter((row) => !row.isIncluded)
+    .reduce((acc, row) => acc + row.audience, 0);
+}
+
+/**
+ * Price index of the whole selection: the audience-weighted harmonic mean of
+ * the regional CPM indices, so a budget split by audience buys as many
+ * impressions as in the regional breakdown
+ */
+export function calculateRegionalPriceIndex(settings: RegionalSettings): number {
+  const regions = calculateRegionalAudience(settings).filter((row) => !row.isIncluded);
+  const audience = regions.reduce((acc, row) => acc + row.audience, 0);
+  if (audience <= 0) return 1;
+  return audience / regions.reduce((acc, row) => acc + row.audience / row.region.cpmIndex, 0);
+}
+
+/**
+ * Split the budget across regions by audience and compute coverage in each at regional prices.
+ * `input` is at national prices.
+ */
+export function calculateRegionalCoverage(
+  input: CalculationInput,
+  frequency: number,
+  settings: RegionalSettings
+): RegionalCoverageResult {
+  const regions = calculateRegionalAudience(settings).filter((row) => !row.isIncluded);
+  const audience = regions.reduce((acc, row) => acc + row.audience, 0);
+
+  const rows = regions.map(({ region, audience: regionAudience }): RegionalCoverageRow => {
+    const budget = audience > 0 ? (input.budget * regionAudience) / audience : 0;
+    const regionalInput = applyPriceIndex({ ...input, budget, taCapacityRF: regionAudience }, region.cpmIndex);
+    return {
+      region,
+      audience: regionAudience,
+      budget,
+      coverage: calculateCoverage(
+        { ...regionalInput, planning: regionalInput.planning && { ...regionalInput.planning, universe: null } },
+        frequency
+      ),
+    };
+  });
+
+  const weighted = (pick: (row: RegionalCoverageRow) => number) =>
+    audience > 0 ? rows.reduce((acc, row) => acc + pick(row) * row.audience, 0) / audience : 0;
+
+  return {
+    rows,
+    audience,
+    effectiveReach: weighted((row) => row.coverage.value),
+    reach1Plus: weighted((row) => row.coverage.reach1Plus),
+  };
+}
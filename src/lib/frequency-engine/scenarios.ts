@@ -0,0 +1,66 @@
+import { runCalculation } from "./calculation";
+import type { CalculationInput, CalculationResult, CampaignGoal, FrequencyResult, SliderParams } from "./types";
+
+/**
+ * What-if scenarios.
+ *
+ * A scenario is a named copy of the current plan with its own budget, goal
+ * and slider values; everything else (audience, planning, media mix,
+ * benchmarks) is shared with the current calculation so the scenarios stay
+ * comparable.
+ */
+
+export interface Scenario {
+  id: string;
+  name: string;
+  budget: number;
+  goal: CampaignGoal | "";
+  params: SliderParams;
+}
+
+export interface ScenarioResult {
+  scenario: Scenario;
+  calculation: CalculationResult;
+}
+
+/** Scenarios a workspace holds at once */
+export const MAX_SCENARIOS = 5;
+
+/**
+ * Clone the budget, goal and sliders of a calculation into a new scenario
+ */
+export function createScenario(id: string, name: string, input: CalculationInput): Scenario {
+  return {
+    id,
+    name,
+    budget: input.budget,
+    goal: input.goal,
+    params: { ...input.params },
+  };
+}
+
+/**
+ * Calculation input of a scenario: the shared input with the scenario's budget, goal and sliders
+ */
+export function applyScenario(input: CalculationInput, scenario: Scenario): CalculationInput {
+  return {
+    ...input,
+    budget: Math.max(0, scenario.budget),
+    goal: scenario.goal,
+    params: scenario.params,
+  };
+}
+
+/**
+ * Run the calculation for every scenario
+ */
+export function compareScenarios(
+  input: CalculationInput,
+  scenarios: Scenario[],
+  frequencyOverride?: FrequencyResult
+): ScenarioResult[] {
+  return scenarios.map((scenario) => ({
+    scenario,
+    calculation: runCalculation(applyScenario(input, scenario), frequencyOverride),
+  }));
+}
@@ -0,0 +1,199 @@
+import { DEFAULT_PLANNING } from "./constants";
+import type { MediaChannelId } from "./media-mix";
+import type { CalculationInput } from "./types";
+
+/**
+ * Seasonality.
+ *
+ * Monthly indices relative to the yearly average (1.0). Channel indices move
+ * media prices: the flat CPM and cost per TRP follow the `market` row, media
+ * mix channels follow their own row. Category indices move the KPI bases,
+ * since demand and response to advertising are seasonal too. A campaign
+ * spanning several months gets the day-weighted average of its months.
+ */
+
+export type SeasonalityChannel = MediaChannelId | "market";
+export type SeasonalityCategory = "general" | "fmcg" | "retail" | "auto" | "finance" | "pharma" | "tech";
+
+/** Index per month, January first */
+export type MonthlyIndex = number[];
+
+export interface SeasonalityTables {
+  channels: Record<SeasonalityChannel, MonthlyIndex>;
+  categories: Record<SeasonalityCategory, MonthlyIndex>;
+}
+
+export interface SeasonalitySettings {
+  enabled: boolean;
+  category: SeasonalityCategory;
+}
+
+export interface SeasonalityAdjustment {
+  /** Share of campaign days per month, January first; sums to 1 */
+  monthWeights: number[];
+  /** Index applied to the flat CPM and cost per TRP */
+  cpmIndex: number;
+  channelIndices: Record<MediaChannelId, number>;
+  /** Index applied to the KPI bases */
+  kpiIndex: number;
+}
+
+export const MONTH_LABELS = ["Янв", "Фев", "Мар", "Апр", "Май", "Июн", "Июл", "Авг", "Сен", "Окт", "Ноя", "Дек"];
+
+export const SEASONALITY_CHANNEL_LABELS: Record<SeasonalityChannel, string> = {
+  market: "Рынок (единый CPM)",
+  tv: "ТВ",
+  olv: "OLV",
+  display: "Баннеры",
+  social: "Соцсети",
+  audio: "Аудио",
+  outdoor: "Наружная реклама",
+};
+
+export const SEASONALITY_CATEGORY_LABELS: Record<SeasonalityCategory, string> = {
+  general: "Без учёта категории",
+  fmcg: "FMCG",
+  retail: "Ритейл и e-commerce",
+  auto: "Авто",
+  finance: "Финансы",
+  pharma: "Фарма",
+  tech: "Электроника и техника",
+};
+
+// Russian media inflation pattern: summer trough, steep Q4 peak
+export const DEFAULT_SEASONALITY_TABLES: SeasonalityTables = {
+  channels: {
+    market: [0.7, 0.85, 1.0, 1.05, 0.95, 0.85, 0.75, 0.8, 1.05, 1.2, 1.3, 1.45],
+    tv: [0.65, 0.85, 1.0, 1.05, 0.95, 0.8, 0.7, 0.8, 1.05, 1.25, 1.35, 1.5],
+    olv: [0.75, 0.85, 0.95, 1.0, 0.95, 0.85, 0.8, 0.85, 1.05, 1.2, 1.3, 1.45],
+    display: [0.8, 0.9, 1.0, 1.0, 0.95, 0.9, 0.85, 0.9, 1.0, 1.1, 1.25, 1.35],
+    social: [0.8, 0.9, 1.0, 1.0, 0.95, 0.9, 0.85, 0.9, 1.05, 1.1, 1.25, 1.3],
+    audio: [0.8, 0.9, 1.0, 1.05, 1.0, 0.9, 0.85, 0.9, 1.05, 1.1, 1.15, 1.25],
+    outdoor: [0.85, 0.9, 0.95, 1.05, 1.1, 1.05, 1.0, 1.0, 1.05, 1.05, 1.0, 1.0],
+  },
+  categories: {
+    general: [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
+    fmcg: [0.9, 0.95, 1.0, 1.0, 1.0, 0.95, 0.95, 0.95, 1.0, 1.05, 1.05, 1.2],
+    retail: [0.8, 0.9, 1.0, 0.95, 0.95, 0.9, 0.9, 1.0, 1.05, 1.05, 1.25, 1.25],
+    auto: [0.75, 0.85, 1.1, 1.15, 1.1, 1.0, 0.95, 0.95, 1.05, 1.05, 1.0, 1.05],
+    finance: [0.95, 1.0, 1.05, 1.0, 0.95, 0.9, 0.9, 0.95, 1.05, 1.05, 1.05, 1.15],
+    pharma: [1.2, 1.15, 1.05, 0.95, 0.85, 0.8, 0.8, 0.85, 1.0, 1.1, 1.15, 1.1],
+    tech: [0.85, 0.9, 0.95, 0.95, 0.9, 0.85, 0.85, 0.95, 1.05, 1.05, 1.3, 1.4],
+  },
+};
+
+/**
+ * Whether a value can serve as a seasonality index: a finite number above 0
+ */
+export function isValidSeasonalityIndex(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Stored tables with every missing or invalid index replaced by the default,
+ * so a bad row can never zero out media prices or KPI bases
+ */
+export function normalizeSeasonalityTables(tables: {
+  channels?: Record<string, unknown> | null;
+  categories?: Record<string, unknown> | null;
+}): SeasonalityTables {
+  const normalize = <K extends string>(rows: Record<string, unknown> | null | undefined, defaults: Record<K, MonthlyIndex>) =>
+    Object.fromEntries(
+      (Object.keys(defaults) as K[]).map((key) => {
+        const row = rows?.[key];
+        return [key, defaults[key].map((fallback, month) => {
+          const value = Array.isArray(row) ? row[month] : undefined;
+          return isValidSeasonalityIndex(value) ? value : fallback;
+        })];
+      })
+    ) as Record<K, MonthlyIndex>;
+
+  return {
+    channels: normalize(tables.channels, DEFAULT_SEASONALITY_TABLES.channels),
+    categories: normalize(tables.categories, DEFAULT_SEASONALITY_TABLES.categories),
+  };
+}
+
+export const DEFAULT_SEASONALITY: SeasonalitySettings = {
+  enabled: false,
+  category: "general",
+};
+
+/**
+ * Share of the campaign days falling in each calendar month (dates as YYYY-MM-DD, inclusive)
+ */
+export function getMonthWeights(startDate: string, endDate: string): number[] {
+  const weights = new Array<number>(12).fill(0);
+  const start = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end < start) return weights;
+
+  let days = 0;
+  for (const day = new Date(start); day <= end; day.setUTCDate(day.getUTCDate() + 1)) {
+    weights[day.getUTCMonth()] += 1;
+    days += 1;
+  }
+  return weights.map((count) => count / days);
+}
+
+/**
+ * Day-weighted index of the campaign period; 1 when the period is empty
+ */
+export function getPeriodIndex(index: MonthlyIndex, monthWeights: number[]): number {
+  const total = monthWeights.reduce((acc, weight) => acc + weight, 0);
+  if (total === 0) return 1;
+  return monthWeights.reduce((acc, weight, month) => acc + weight * (index[month] ?? 1), 0) / total;
+}
+
+/**
+ * Indices that apply to a campaign running from `startDate` to `endDate`
+ */
+export function calculateSeasonality(
+  tables: SeasonalityTables,
+  category: SeasonalityCategory,
+  startDate: string,
+  endDate: string
+): SeasonalityAdjustment {
+  const monthWeights = getMonthWeights(startDate, endDate);
+  const channelIndices = Object.fromEntries(
+    (Object.keys(tables.channels) as SeasonalityChannel[])
+      .filter((channel) => channel !== "market")
+      .map((channel) => [channel, getPeriodIndex(tables.channels[channel], monthWeights)])
+  ) as Record<MediaChannelId, number>;
+
+  return {
+    monthWeights,
+    cpmIndex: getPeriodIndex(tables.channels.market, monthWeights),
+    channelIndices,
+    kpiIndex: getPeriodIndex(tables.categories[category], monthWeights),
+  };
+}
+
+/**
+ * Scale media prices and KPI bases of the input by the seasonal indices
+ */
+export function applySeasonality(input: CalculationInput, adjustment: SeasonalityAdjustment): CalculationInput {
+  const planning = input.planning ?? DEFAULT_PLANNING;
+  const { kpiBenchmarks } = input;
+  return {
+    ...input,
+    planning: {
+      ...planning,
+      cpm: planning.cpm * adjustment.cpmIndex,
+      costPerTrp: planning.costPerTrp * adjustment.cpmIndex,
+    },
+    mediaMix: input.mediaMix && {
+      ...input.mediaMix,
+      channels: input.mediaMix.channels.map((channel) => ({
+        ...channel,
+        cpm: channel.cpm * (adjustment.channelIndices[channel.channel] ?? 1),
+      })),
+    },
+    kpiBenchmarks: {
+      awareness_tom_base: kpiBenchmarks.awareness_tom_base * adjustment.kpiIndex,
+      consideration_search_base: kpiBenchmarks.consideration_search_base * adjustment.kpiIndex,
+      conversion_uplift_base: kpiBenchmarks.conversion_uplift_base * adjustment.kpiIndex,
+      retention_ltv_base: kpiBenchmarks.retention_ltv_base * adjustment.kpiIndex,
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import { runCalculation } from "./calculation";
+import { calculateRegionalCapacity, DEFAULT_AUDIENCE_FILTER, REGIONS, type AudienceFilter } from "./regions";
+import type { CalculationInput, CalculationResult, FrequencyResult, SliderParams } from "./types";
+
+/**
+ * Audience segments.
+ *
+ * Each segment is a slice of the audience with its own size, budget share
+ * and slider overrides, so it gets its own effective frequency and reach.
+ * The combined plan weights the segments by audience size.
+ */
+
+export interface AudienceSegment {
+  id: string;
+  name: string;
+  filter: AudienceFilter;
+  /** Manual size in people; null to derive it from the filter and geography */
+  size: number | null;
+  /** Share of the campaign budget, % */
+  budgetShare: number;
+  /** Slider values that differ from the campaign-level ones */
+  paramOverrides: Partial<SliderParams>;
+}
+
+export interface SegmentResult {
+  segment: AudienceSegment;
+  size: number;
+  budget: number;
+  params: SliderParams;
+  calculation: CalculationResult;
+}
+
+export interface SegmentPlan {
+  segments: SegmentResult[];
+  audience: number;
+  budget: number;
+  /** Audience-weighted effective frequency */
+  frequency: number;
+  /** Audience-weighted reach at each segment's own threshold, % */
+  effectiveReach: number;
+  /** Audience-weighted reach 1+, % */
+  reach1Plus: number;
+  /** People reached at their segment's effective frequency */
+  effectivelyReached: number;
+  /** Audience-weighted goal KPI, % */
+  goalKPI: number;
+}
+
+/**
+ * New segment covering the whole adult audience
+ */
+export function createSegment(id: string, name: string): AudienceSegment {
+  return {
+    id,
+    name,
+    filter: DEFAULT_AUDIENCE_FILTER,
+    size: null,
+    budgetShare: 100,
+    paramOverrides: {},
+  };
+}
+
+/**
+ * Segment size in people: the manual size, or the filter applied to the regions (all of Russia if none)
+ */
+export function getSegmentSize(segment: AudienceSegment, regionIds: string[] = []): number {
+  if (segment.size !== null) return Math.max(0, segment.size);
+
+  const geography = regionIds.length > 0
+    ? regionIds
+    : REGIONS.filter((region) => region.kind === "district").map((region) => region.id);
+  return calculateRegionalCapacity({ enabled: true, regionIds: geography, filter: segment.filter });
+}
+
+/**
+ * Run the calculation for every segment and combine them into one plan
+ */
+export function calculateSegmentPlan(
+  input: CalculationInput,
+  segments: AudienceSegment[],
+  regionIds: string[] = [],
+  frequencyOverride?: FrequencyResult
+): SegmentPlan {
+  const totalShare = segments.reduce((acc, s) => acc + Math.max(0, s.budgetShare), 0);
+
+  const results = segments.map((segment): SegmentResult => {
+    const size = getSegmentSize(segment, regionIds);
+    // Shares are normalised so the whole budget is always allocated
+    const budget = totalShare > 0 ? (input.budget * Math.max(0, segment.budgetShare)) / totalShare : 0;
+    const params = { ...input.params, ...segment.paramOverrides };
+    const calculation = runCalculation(
+      {
+        ...input,
+        params,
+        budget,
+        taCapacityRF: size,
+        planning: input.planning && { ...input.planning, universe: null },
+      },
+      frequencyOverride
+    );
+    return { segment, size, budget, params, calculation };
+  });
+
+  const audience = results.reduce((acc, r) => acc + r.size, 0);
+  const weighted = (pick: (result: SegmentResult) => number) =>
+    audience > 0 ? results.reduce((acc, r) => acc + pick(r) * r.size, 0) / audience : 0;
+
+  return {
+    segments: results,
+    audience,
+    budget: results.reduce((acc, r) => acc + r.budget, 0),
+    frequency: weighted((r) => r.calculation.frequency.frequency),
+    effectiveReach: weighted((r) => r.calculation.coverage.value),
+    reach1Plus: weighted((r) => r.calculation.coverage.reach1Plus),
+    effectivelyReached: results.reduce((acc, r) => acc + (r.size * r.calculation.coverage.value) / 100, 0),
+    goalKPI: weighted((r) => r.calculation.goalKPI),
+  };
+}
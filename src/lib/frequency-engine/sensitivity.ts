@@ -0,0 +1,115 @@
+import { runCalculation, toForecastPoint } from "./calculation";
+import { clampParam } from "./frequency";
+import type {
+  CalculationInput,
+  ForecastMetric,
+  ForecastPoint,
+  FrequencyResult,
+  KpiBenchmarks,
+  SliderParams,
+} from "./types";
+
+/**
+ * One-at-a-time sensitivity analysis.
+ * Each input is moved one step down and one step up while everything else
+ * stays fixed; the spread of the outputs shows which factor drives the plan.
+ */
+
+export type SensitivityFactorKind = "param" | "budget" | "benchmark";
+
+export interface SensitivitySteps {
+  /** Slider factors, points on the −2..+2 scale */
+  param: number;
+  /** Budget, % of the current value */
+  budget: number;
+  /** KPI benchmarks, % of the current value */
+  benchmark: number;
+}
+
+export interface SensitivityFactor {
+  kind: SensitivityFactorKind;
+  key: keyof SliderParams | keyof KpiBenchmarks | "budget";
+  /** Input values used for the low and high runs */
+  lowInput: number;
+  highInput: number;
+  low: ForecastPoint;
+  high: ForecastPoint;
+}
+
+export interface SensitivityResult {
+  base: ForecastPoint;
+  factors: SensitivityFactor[];
+}
+
+export const DEFAULT_SENSITIVITY_STEPS: SensitivitySteps = {
+  param: 1,
+  budget: 10,
+  benchmark: 10,
+};
+
+/**
+ * Vary each slider factor, the budget and each KPI benchmark by ±1 step.
+ * Pass `frequencyOverride` when the frequency comes from another method (e.g. Ostrow),
+ * in which case the sliders only move the KPIs that read them directly.
+ */
+export function calculateSensitivity(
+  input: CalculationInput,
+  frequencyOverride?: FrequencyResult,
+  steps: SensitivitySteps = DEFAULT_SENSITIVITY_STEPS
+): SensitivityResult {
+  const run = (variant: CalculationInput) => toForecastPoint(runCalculation(variant, frequencyOverride));
+  const factors: SensitivityFactor[] = [];
+
+  for (const key of Object.keys(input.params) as (keyof SliderParams)[]) {
+    const lowInput = clampParam(input.params[key] - steps.param);
+    const highInput = clampParam(input.params[key] + steps.param);
+    factors.push({
+      kind: "param",
+      key,
+      lowInput,
+      highInput,
+      low: run({ ...input, params: { ...input.params, [key]: lowInput } }),
+      high: run({ ...input, params: { ...input.params, [key]: highInput } }),
+    });
+  }
+
+  const budgetLow = input.budget * (1 - steps.budget / 100);
+  const budgetHigh = input.budget * (1 + steps.budget / 100);
+  factors.push({
+    kind: "budget",
+    key: "budget",
+    lowInput: budgetLow,
+    highInput: budgetHigh,
+    low: run({ ...input, budget: budgetLow }),
+    high: run({ ...input, budget: budgetHigh }),
+  });
+
+  for (const key of Object.keys(input.kpiBenchmarks) as (keyof KpiBenchmarks)[]) {
+    const lowInput = input.kpiBenchmarks[key] * (1 - steps.benchmark / 100);
+    const highInput = input.kpiBenchmarks[key] * (1 + steps.benchmark / 100);
+    factors.push({
+      kind: "benchmark",
+      key,
+      lowInput,
+      highInput,
+      low: run({ ...input, kpiBenchmarks: { ...input.kpiBenchmarks, [key]: lowInput } }),
+      high: run({ ...input, kpiBenchmarks: { ...input.kpiBenchmarks, [key]: highInput } }),
+    });
+  }
+
+  return { base: run(input), factors };
+}
+
+/**
+ * Spread of a metric between the low and high runs of a factor
+ */
+export function getSensitivitySwing(factor: SensitivityFactor, metric: ForecastMetric): number {
+  return Math.abs(factor.high[metric] - factor.low[metric]);
+}
+
+/**
+ * Factors ordered for a tornado chart: largest swing first
+ */
+export function sortByImpact(factors: SensitivityFactor[], metric: ForecastMetric): SensitivityFactor[] {
+  return [...factors].sort((a, b) => getSensitivitySwing(b, metric) - getSensitivitySwing(a, metric));
+}
@@ -0,0 +1,96 @@
+import { PARAM_MAX, PARAM_MIN } from "./constants";
+import { clampParam } from "./frequency";
+
+/**
+ * Share of voice (SOV) against share of market (SOM).
+ *
+ * SOV is the brand's part of all category advertising weight (spend or GRP).
+ * Excess SOV = SOV − SOM; by the Binet & Field rule every 10 points of
+ * excess SOV grow the market share by about 0.5 points a year.
+ * A small voice in a loud category means a saturated market, so the
+ * market saturation factor is derived from SOV instead of a guess.
+ */
+
+export type ShareOfVoiceUnit = "spend" | "grp";
+
+export interface Competitor {
+  id: string;
+  name: string;
+  /** Spend in RUB or GRP, depending on the unit */
+  value: number;
+}
+
+export interface ShareOfVoiceSettings {
+  /** Derive `marketSaturation` from SOV instead of the slider */
+  enabled: boolean;
+  unit: ShareOfVoiceUnit;
+  /** Brand share of market, % */
+  shareOfMarket: number;
+  competitors: Competitor[];
+}
+
+export interface CompetitorShare extends Competitor {
+  /** Share of voice, % */
+  share: number;
+}
+
+export interface ShareOfVoiceResult {
+  ownValue: number;
+  marketTotal: number;
+  /** Brand share of voice, % */
+  shareOfVoice: number;
+  shareOfMarket: number;
+  /** SOV − SOM, points */
+  excessShareOfVoice: number;
+  /** Expected change of market share per year, points */
+  expectedSomGrowth: number;
+  /** Market saturation factor on the −2..+2 slider scale */
+  marketSaturation: number;
+  competitors: CompetitorShare[];
+}
+
+export const DEFAULT_SHARE_OF_VOICE: ShareOfVoiceSettings = {
+  enabled: false,
+  unit: "spend",
+  shareOfMarket: 10,
+  competitors: [],
+};
+
+// Binet & Field: +0.5 points of SOM per year for every 10 points of excess SOV
+export const ESOV_GROWTH_RATE = 0.05;
+
+// SOV at which the market counts as fully saturated (+2) and as open (−2), %
+const SATURATED_SOV = 5;
+const OPEN_SOV = 50;
+
+/**
+ * Market saturation factor for a share of voice: 5% SOV → +2, 50% and above → −2
+ */
+export function getSaturationFromShareOfVoice(shareOfVoice: number): number {
+  const position = (shareOfVoice - SATURATED_SOV) / (OPEN_SOV - SATURATED_SOV);
+  return clampParam(PARAM_MAX - position * (PARAM_MAX - PARAM_MIN));
+}
+
+/**
+ * Compare the brand's voice (`ownValue`, same unit as the competitors) with the market
+ */
+export function calculateShareOfVoice(settings: ShareOfVoiceSettings, ownValue: number): ShareOfVoiceResult {
+  const own = Math.max(0, ownValue);
+  const marketTotal = settings.competitors.reduce((acc, c) => acc + Math.max(0, c.value), own);
+  const shareOfVoice = marketTotal > 0 ? (own / marketTotal) * 100 : 0;
+  const excessShareOfVoice = shareOfVoice - settings.shareOfMarket;
+
+  return {
+    ownValue: own,
+    marketTotal,
+    shareOfVoice,
+    shareOfMarket: settings.shareOfMarket,
+    excessShareOfVoice,
+    expectedSomGrowth: excessShareOfVoice * ESOV_GROWTH_RATE,
+    marketSaturation: getSaturationFromShareOfVoice(shareOfVoice),
+    competitors: settings.competitors.map((competitor) => ({
+      ...competitor,
+      share: marketTotal > 0 ? (Math.max(0, competitor.value) / marketTotal) * 100 : 0,
+    })),
+  };
+}
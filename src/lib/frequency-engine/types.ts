@@ -0,0 +1,221 @@
+/**
+ * Shared types for the frequency calculation engine.
+ * Everything here is plain data so the engine can run outside React.
+ */
+
+import type { FrequencyDistribution } from "./distribution";
+import type { MediaMixResult, MediaMixSettings } from "./media-mix";
+
+export interface SliderParams {
+  brandAwareness: number;
+  marketSaturation: number;
+  campaignGoal: number;
+  targetAudience: number;
+  productComplexity: number;
+  messageComplexity: number;
+}
+
+export type CampaignGoal = "awareness" | "consideration" | "conversion" | "retention";
+
+/**
+ * Weighted frequency model.
+ * Frequency = baseFrequency + Σ(weight × param), clamped to [minFrequency, maxFrequency].
+ */
+export interface FrequencyModel {
+  id: string;
+  label: string;
+  description: string;
+  baseFrequency: number;
+  minFrequency: number;
+  maxFrequency: number;
+  weights: Record<keyof SliderParams, number>;
+}
+
+export interface KpiBenchmarks {
+  awareness_tom_base: number;
+  consideration_search_base: number;
+  conversion_uplift_base: number;
+  retention_ltv_base: number;
+}
+
+/**
+ * Scale factors of the KPI formulas, versioned in the data store so analysts
+ * can calibrate them against post-campaign studies.
+ */
+export interface KpiCoefficients {
+  /** Overall scale of the TOM forecast */
+  tomScale: number;
+  /** TOM frequency multiplier gain per contact above the first */
+  tomFrequencySlope: number;
+  /** Overall scale of the LTV growth forecast */
+  ltvScale: number;
+  /** LTV frequency multiplier gain per contact above the first */
+  ltvFrequencySlope: number;
+  /** Overall scale of the branded search uplift forecast */
+  searchScale: number;
+  /** Overall scale of the conversion uplift forecast */
+  conversionScale: number;
+  /** Budget at which the TOM budget correction is 1, RUB */
+  tomBudgetReference: number;
+  /** LTV loss per point of market saturation */
+  ltvSaturationPenalty: number;
+  /** Budget at which the LTV budget quality multiplier is 1, RUB */
+  ltvBudgetReference: number;
+}
+
+/**
+ * Pre-campaign funnel figures the search and conversion models start from
+ */
+export interface KpiBaselines {
+  /** Branded search queries per month */
+  searchVolume: number;
+  /** Site conversion rate, % */
+  conversionRate: number;
+  /** Site sessions per month */
+  sessions: number;
+}
+
+export type PlanningMode = "cpm" | "ratings";
+
+/**
+ * How impressions are derived from the budget.
+ * `cpm`: flat cost per thousand impressions against the target audience.
+ * `ratings`: TV/OLV buying in TRPs with cost per point and affinity.
+ */
+export interface PlanningSettings {
+  mode: PlanningMode;
+  /** RUB per 1000 impressions (cpm mode) */
+  cpm: number;
+  /** RUB per target rating point (ratings mode) */
+  costPerTrp: number;
+  /** Affinity index of the target audience vs. the buying audience, 100 = neutral */
+  affinity: number;
+  /** Target audience universe, people; taCapacityRF when null */
+  universe: number | null;
+}
+
+/**
+ * Full set of inputs for a single calculation.
+ * `budget` is in RUB; an empty goal means the user has not picked one yet.
+ */
+export interface CalculationInput {
+  params: SliderParams;
+  budget: number;
+  goal: CampaignGoal | "";
+  taCapacityRF: number;
+  kpiBenchmarks: KpiBenchmarks;
+  /** Frequency model to apply; the standard equal-weight model when omitted */
+  frequencyModel?: FrequencyModel;
+  /** NBD shape parameter for the reach distribution; DEFAULT_NBD_SHAPE when omitted */
+  nbdShape?: number;
+  /** Buying model; flat DEFAULT_CPM when omitted */
+  planning?: PlanningSettings;
+  /** Per-channel split; replaces `planning` when enabled */
+  mediaMix?: MediaMixSettings;
+  /** KPI formula coefficients; DEFAULT_KPI_COEFFICIENTS when omitted */
+  coefficients?: KpiCoefficients;
+  /** Funnel baselines for the search and conversion models; DEFAULT_KPI_BASELINES when omitted */
+  baselines?: KpiBaselines;
+}
+
+export interface FrequencyResult {
+  modelId: string;
+  /** Weighted sum of all slider values before the base is added */
+  weightedSum: number;
+  /** Unclamped value: base + weighted sum */
+  raw: number;
+  /** Effective frequency clamped to the allowed range */
+  frequency: number;
+}
+
+export interface TOMResult {
+  value: number;
+  baseTOM: number;
+  frequencyMultiplier: number;
+  budgetCorrection: number;
+  goalMultiplier: number;
+}
+
+export interface LTVGrowthResult {
+  value: number;
+  baseLTV: number;
+  goalMultiplier: number;
+  frequencyMultiplier: number;
+  competitionCorrection: number;
+  budgetQualityMultiplier: number;
+}
+
+export interface SearchUpliftResult {
+  /** Growth of branded search volume, % */
+  value: number;
+  baseUplift: number;
+  /** Effective reach as a share of the audience, 0–1 */
+  reachShare: number;
+  /** Share of the full response reached at this frequency, 0–1 */
+  frequencyResponse: number;
+  goalMultiplier: number;
+  /** Extra branded queries per month */
+  additionalSearches: number;
+}
+
+export interface ConversionUpliftResult {
+  /** Relative growth of the conversion rate, % */
+  value: number;
+  baseUplift: number;
+  /** Effective reach as a share of the audience, 0–1 */
+  reachShare: number;
+  /** Share of the full response reached at this frequency, 0–1 */
+  frequencyResponse: number;
+  goalMultiplier: number;
+  /** Conversion rate during the campaign, % */
+  conversionRate: number;
+  /** Extra conversions per month */
+  additionalConversions: number;
+}
+
+export interface DeliveryResult {
+  impressions: number;
+  trp: number;
+  grp: number;
+  cpm: number;
+}
+
+export interface CoverageResult {
+  /** Effective reach: share of the target audience reached at `threshold`+, % */
+  value: number;
+  planningMode: PlanningMode;
+  /** Flat CPM, or the effective CPM implied by cost per TRP */
+  cpm: number;
+  impressions: number;
+  /** Target rating points: impressions against the target audience universe × 100 */
+  trp: number;
+  /** Gross rating points against the buying audience (TRP × 100 / affinity) */
+  grp: number;
+  /** Target audience universe used for the calculation, people */
+  universe: number;
+  /** Effective frequency threshold N */
+  threshold: number;
+  /** Reach 1+, % */
+  reach1Plus: number;
+  /** People reached at `threshold`+ */
+  reach: number;
+  distribution: FrequencyDistribution;
+  /** Per-channel breakdown when a media mix is enabled */
+  mediaMix: MediaMixResult | null;
+}
+
+export interface CalculationResult {
+  frequency: FrequencyResult;
+  tom: TOMResult;
+  ltvGrowth: LTVGrowthResult;
+  searchUplift: SearchUpliftResult;
+  conversionUplift: ConversionUpliftResult;
+  coverage: CoverageResult;
+  /** KPI of the selected goal: TOM, search uplift, conversion uplift or LTV growth */
+  goalKPI: number;
+}
+
+/** Headline figures of a calculation, as shown on the KPI cards */
+export type ForecastMetric = "frequency" | "coverage" | "goalKPI";
+
+export type ForecastPoint = Record<ForecastMetric, number>;
@@ -0,0 +1,121 @@
+/**
+ * Canned brand analyses the mock provider answers with, one per response
+ * shape the parser has to handle.
+ */
+
+export interface MockFixture {
+  id: string;
+  label: string;
+  /** Response as a provider would return it */
+  response: unknown;
+}
+
+const analysis = {
+  parameters: {
+    brand_awareness: {
+      id: "brand_awareness",
+      value: 0.5,
+      insight: "Бренд известен в своей категории, но уступает лидерам по спонтанному знанию",
+      source: "Тестовые данные [1]",
+    },
+    market_saturation: {
+      id: "market_saturation",
+      value: 1,
+      insight: "В категории работают 4-5 крупных рекламодателей с регулярными флайтами",
+      source: "Тестовые данные [2][3]",
+    },
+    campaign_goal: {
+      id: "campaign_goal",
+      value: 0,
+      insight: "Цель требует умеренного числа контактов",
+      source: "Тестовые данные",
+    },
+    target_audience: {
+      id: "target_audience",
+      value: -0.5,
+      insight: "Широкая аудитория 25-54 в городах-миллионниках",
+      source: "Тестовые данные, https://example.com/audience",
+    },
+    product_complexity: {
+      id: "product_complexity",
+      value: 0.5,
+      insight: "Продукт требует пояснения ключевых преимуществ",
+      source: "Тестовые данные",
+      citations: [3],
+    },
+    message_complexity: {
+      id: "message_complexity",
+      value: 0,
+      insight: "Сообщение укладывается в один тезис",
+      source: "Тестовые данные",
+    },
+  },
+  ta_capacity_rf: 1800000,
+  kpi_benchmarks: {
+    awareness_tom_base: 0.18,
+    consideration_search_base: 0.28,
+    conversion_uplift_base: 0.1,
+    retention_ltv_base: 0.04,
+  },
+  recommended_budget: 3000000,
+  budget_reasoning: "Тестовое обоснование: бюджет покрывает 80% охвата при эффективной частоте",
+  competitors: [
+    { name: "Конкурент А", estimated_spend: 6000000 },
+    { name: "Конкурент Б", estimated_spend: 4000000 },
+  ],
+  share_of_market: 12,
+};
+
+// Sources a search-backed provider returns next to the completion
+const citations = ["https://example.com/brand-study", "https://example.com/adspend", "https://example.com/category-report"];
+const searchResults = [
+  { title: "Исследование знания брендов", url: "https://example.com/brand-study" },
+  { title: "Рекламные затраты по категориям", url: "https://example.com/adspend" },
+];
+
+const { brand_awareness: _brandAwareness, ...partialParameters } = analysis.parameters;
+
+export const MOCK_FIXTURES: MockFixture[] = [
+  {
+    id: "complete",
+    label: "Полный ответ",
+    response: {
+      choices: [{ message: { role: "assistant", content: JSON.stringify(analysis) } }],
+      citations,
+      search_results: searchResults,
+    },
+  },
+  {
+    id: "fenced",
+    label: "JSON в тексте с ошибками форматирования",
+    response: {
+      choices: [
+        {
+          message: {
+            role: "assistant",
+            content: `Вот анализ бренда:\n\`\`\`json\n${JSON.stringify(analysis, null, 2).replace(/\n}$/, ",\n}")}\n\`\`\``,
+          },
+        },
+      ],
+    },
+  },
+  {
+    id: "missing-parameter",
+    label: "Ответ без одного параметра",
+    response: { choices: [{ message: { role: "assistant", content: JSON.stringify({ parameters: partialParameters }) } }] },
+  },
+  {
+    id: "no-json",
+    label: "Ответ без JSON",
+    response: { choices: [{ message: { role: "assistant", content: "Недостаточно данных для анализа этого бренда." } }] },
+  },
+];
+
+export const DEFAULT_MOCK_FIXTURE = MOCK_FIXTURES[0].id;
+
+/**
+ * Fixture by id, the complete analysis when the id is unknown
+ */
+export function getMockFixture(id: string): MockFixture {
+  return MOCK_FIXTURES.find((fixture) => fixture.id === id) ?? MOCK_FIXTURES[0];
+}
@@ -0,0 +1,38 @@
+/**
+ * LLM providers for the AI brand analysis
+ *
+ * Every provider turns the same completion request into a raw response that
+ * `parseAIResponse` reads, so the analysis does not depend on where it came from.
+ */
+
+import { DEFAULT_MOCK_FIXTURE } from "./fixtures";
+import { mockProvider } from "./mock";
+import { DEFAULT_OPENAI_BASE_URL, openAICompatibleProvider } from "./openai-compatible";
+import { perplexityMcpProvider } from "./perplexity-mcp";
+import type { LLMProvider, LLMProviderId, LLMProviderSettings } from "./types";
+
+export * from "./types";
+export * from "./fixtures";
+export { DEFAULT_OPENAI_BASE_URL, openAICompatibleProvider } from "./openai-compatible";
+export { PERPLEXITY_MODELS, perplexityMcpProvider, runPerplexitySearch } from "./perplexity-mcp";
+export { mockProvider } from "./mock";
+
+export const LLM_PROVIDERS: LLMProvider[] = [perplexityMcpProvider, openAICompatibleProvider, mockProvider];
+
+export const DEFAULT_LLM_SETTINGS: LLMProviderSettings = {
+  providerId: "perplexity-mcp",
+  models: {
+    "perplexity-mcp": perplexityMcpProvider.models[0],
+    "openai-compatible": openAICompatibleProvider.models[0],
+    mock: mockProvider.models[0],
+  },
+  openAICompatible: { baseUrl: DEFAULT_OPENAI_BASE_URL, apiKey: "" },
+  mockFixture: DEFAULT_MOCK_FIXTURE,
+};
+
+/**
+ * Provider by id; an unknown id (e.g. from old saved settings) falls back to the default
+ */
+export function getLLMProvider(id: LLMProviderId): LLMProvider {
+  return LLM_PROVIDERS.find((provider) => provider.id === id) ?? perplexityMcpProvider;
+}
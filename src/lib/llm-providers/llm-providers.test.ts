@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { parseAIResponse } from "@/lib/ai-response";
+import { DEFAULT_LLM_SETTINGS, getLLMProvider, mockProvider, openAICompatibleProvider } from "@/lib/llm-providers";
+
+const request = { systemContent: "Верни JSON", userContent: "Бренд: Тест", model: "fixture", temperature: 0.7, maxTokens: 3000 };
+
+describe("LLM providers", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("runs the brand analysis offline on the mock provider fixtures", async () => {
+    const complete = await mockProvider.complete(request, DEFAULT_LLM_SETTINGS);
+    const parsed = parseAIResponse(complete.response);
+    expect(parsed.success).toBe(true);
+    if (!parsed.success) return;
+    expect(parsed.data.parameters.market_saturation.value).toBe(1);
+    expect(parsed.data.competitors).toHaveLength(2);
+
+    const fenced = await mockProvider.complete(request, { ...DEFAULT_LLM_SETTINGS, mockFixture: "fenced" });
+    expect(parseAIResponse(fenced.response).success).toBe(true);
+
+    const missing = await mockProvider.complete(request, { ...DEFAULT_LLM_SETTINGS, mockFixture: "missing-parameter" });
+    const rejected = parseAIResponse(missing.response);
+    expect(!rejected.success && rejected.missingParameters).toEqual(["brand_awareness"]);
+
+    // Settings saved by a newer version fall back to the default provider
+    expect(getLLMProvider("unknown" as never).id).toBe("perplexity-mcp");
+  });
+
+  it("posts a chat completion to the configured OpenAI-compatible endpoint", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ choices: [] }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const settings = { ...DEFAULT_LLM_SETTINGS, openAICompatible: { baseUrl: "http://localhost:8080/v1/", apiKey: "key" } };
+    const result = await openAICompatibleProvider.complete({ ...request, model: "local-model" }, settings);
+    expect(result).toEqual({ providerId: "openai-compatible", model: "local-model", response: { choices: [] } });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("http://localhost:8080/v1/chat/completions");
+    expect((init.headers as Record<string, string>).Authorization).toBe("Bearer key");
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      model: "local-model",
+      max_tokens: 3000,
+      messages: [{ role: "system", content: "Верни JSON" }, { role: "user", content: "Бренд: Тест" }],
+    });
+
+    fetchMock.mockResolvedValueOnce(new Response("rate limited", { status: 429 }));
+    await expect(openAICompatibleProvider.complete(request, settings)).rejects.toThrow("Ошибка API 429: rate limited");
+  });
+});
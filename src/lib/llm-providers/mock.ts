@@ -0,0 +1,21 @@
+import { getMockFixture } from "./fixtures";
+import type { LLMProvider } from "./types";
+
+// Short pause so the loading state is visible, as with a real provider
+const MOCK_LATENCY_MS = 300;
+
+/**
+ * Offline provider answering with a fixture chosen in settings
+ */
+export const mockProvider: LLMProvider = {
+  id: "mock",
+  label: "Тестовый (без сети)",
+  description: "Возвращает заготовленные ответы без обращения к сети, для проверки и демонстрации",
+  models: ["fixture"],
+  allowsCustomModel: false,
+  async complete(request, settings) {
+    const fixture = getMockFixture(settings.mockFixture);
+    await new Promise((resolve) => setTimeout(resolve, MOCK_LATENCY_MS));
+    return { providerId: "mock", model: request.model, response: structuredClone(fixture.response) };
+  },
+};
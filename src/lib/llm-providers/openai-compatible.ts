@@ -0,0 +1,41 @@
+import type { LLMProvider } from "./types";
+
+export const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+/**
+ * Any endpoint speaking the OpenAI chat completions API: OpenAI itself,
+ * a self-hosted gateway or a local model server
+ */
+export const openAICompatibleProvider: LLMProvider = {
+  id: "openai-compatible",
+  label: "OpenAI-совместимый API",
+  description: "Любой сервер с API /chat/completions: OpenAI, шлюз или локальная модель",
+  models: ["gpt-4o-mini", "gpt-4o", "gpt-4.1"],
+  allowsCustomModel: true,
+  async complete(request, settings) {
+    const { baseUrl, apiKey } = settings.openAICompatible;
+    const url = `${(baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, "")}/chat/completions`;
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: request.model,
+        messages: [
+          { role: "system", content: request.systemContent },
+          { role: "user", content: request.userContent },
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`Ошибка API ${response.status}${detail ? `: ${detail.slice(0, 300)}` : ""}`);
+    }
+    return { providerId: "openai-compatible", model: request.model, response: await response.json() };
+  },
+};
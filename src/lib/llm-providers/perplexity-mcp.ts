@@ -0,0 +1,116 @@
+import { callMCPTool } from "@/sdk/core/mcp-client";
+import type { LLMProvider } from "./types";
+
+export const PERPLEXITY_MCP_SERVER_ID = "6875e6198345ff1a8579cd8a";
+export const PERPLEXITY_SEARCH_TOOL = "PERPLEXITYAI_PERPLEXITY_AI_SEARCH";
+
+export const PERPLEXITY_MODELS = ["sonar-pro", "sonar", "sonar-reasoning-pro", "sonar-reasoning"] as const;
+
+export type PerplexityModel = (typeof PERPLEXITY_MODELS)[number];
+
+// MCP Response wrapper interface - MANDATORY
+export interface MCPToolResponse {
+  content: Array<{
+    type: "text";
+    text: string; // JSON string containing actual tool data
+  }>;
+}
+
+/**
+ * Input parameters for Perplexity AI search tool
+ * Based on PERPLEXITYAI_PERPLEXITY_AI_SEARCH schema
+ */
+export interface PerplexitySearchInput {
+  /** The system's content for specifying instructions */
+  systemContent: string;
+  /** The user's content for asking questions or providing input */
+  userContent: string;
+  /** Multiplicative penalty for new tokens based on their frequency (mutually exclusive with presence_penalty) */
+  frequency_penalty?: number;
+  /** Maximum number of tokens to generate */
+  max_tokens?: number;
+  /** Model name: sonar, sonar-reasoning-pro, sonar-reasoning, or sonar-pro */
+  model?: PerplexityModel;
+  /** Penalty for new tokens based on current presence (-2.0 to 2.0, mutually exclusive with frequency_penalty) */
+  presence_penalty?: number;
+  /** Whether to include citations in the response (closed beta feature) */
+  return_citations?: boolean;
+  /** Whether to include images in the response (closed beta feature) */
+  return_images?: boolean;
+  /** Whether to stream the response incrementally using server-sent events */
+  stream?: boolean;
+  /** Controls generation randomness (0 = deterministic, approaching 2 = more random) */
+  temperature?: number;
+  /** Limits number of high-probability tokens to consider (0 to disable, max 2048) */
+  top_k?: number;
+  /** Nucleus sampling threshold (0.0 to 1.0) */
+  top_p?: number;
+}
+
+/**
+ * Output data structure from Perplexity AI search tool
+ */
+export interface PerplexitySearchOutput {
+  data: {
+    /** Response object containing completions from the API */
+    response: Record<string, unknown>;
+  };
+  /** Error message if any occurred during execution */
+  error: string | null;
+  /** Whether the action execution was successful */
+  successful: boolean;
+}
+
+/**
+ * Call the Perplexity search tool on the MCP server and unwrap its JSON payload
+ */
+export async function runPerplexitySearch(params: PerplexitySearchInput): Promise<PerplexitySearchOutput> {
+  // CRITICAL: Use MCPToolResponse and parse JSON response
+  const mcpResponse = await callMCPTool<MCPToolResponse, PerplexitySearchInput>(
+    PERPLEXITY_MCP_SERVER_ID,
+    PERPLEXITY_SEARCH_TOOL,
+    params
+  );
+
+  if (!mcpResponse.content?.[0]?.text) {
+    throw new Error("Invalid MCP response format: missing content[0].text");
+  }
+
+  try {
+    return JSON.parse(mcpResponse.content[0].text) as PerplexitySearchOutput;
+  } catch (parseError) {
+    throw new Error(`Failed to parse MCP response JSON: ${parseError instanceof Error ? parseError.message : "Unknown error"}`);
+  }
+}
+
+/**
+ * Perplexity sonar models through the MCP search tool
+ */
+export const perplexityMcpProvider: LLMProvider = {
+  id: "perplexity-mcp",
+  label: "Perplexity (MCP)",
+  description: "Модели sonar с поиском в интернете через MCP-сервер Perplexity",
+  models: [...PERPLEXITY_MODELS],
+  allowsCustomModel: false,
+  async complete(request) {
+    const model = (PERPLEXITY_MODELS as readonly string[]).includes(request.model)
+      ? (request.model as PerplexityModel)
+      : PERPLEXITY_MODELS[0];
+    const output = await runPerplexitySearch({
+      systemContent: request.systemContent,
+      userContent: request.userContent,
+      model,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      return_citations: request.returnCitations,
+    });
+
+    if (!output.successful) {
+      throw new Error(output.error || "Ошибка ИИ-анализа");
+    }
+    if (!output.data?.response) {
+      throw new Error("Нет данных ответа от ИИ");
+    }
+    return { providerId: "perplexity-mcp", model, response: output.data.response };
+  },
+};
@@ -0,0 +1,50 @@
+/**
+ * Provider-agnostic contract for the AI brand analysis completion.
+ */
+
+export type LLMProviderId = "perplexity-mcp" | "openai-compatible" | "mock";
+
+export interface LLMCompletionRequest {
+  systemContent: string;
+  userContent: string;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask for the list of retrieved sources; providers without search ignore it */
+  returnCitations?: boolean;
+}
+
+export interface LLMCompletionResult {
+  providerId: LLMProviderId;
+  model: string;
+  /** Provider response as received; `parseAIResponse` finds the analysis in it */
+  response: unknown;
+}
+
+/** Connection settings of an OpenAI-compatible endpoint */
+export interface OpenAICompatibleSettings {
+  /** Base URL up to and including the API version, e.g. https://api.openai.com/v1 */
+  baseUrl: string;
+  apiKey: string;
+}
+
+/** Provider options chosen by the user in settings */
+export interface LLMProviderSettings {
+  providerId: LLMProviderId;
+  /** Model per provider, so switching back and forth keeps each choice */
+  models: Record<LLMProviderId, string>;
+  openAICompatible: OpenAICompatibleSettings;
+  /** Fixture the mock provider answers with */
+  mockFixture: string;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  label: string;
+  description: string;
+  /** Suggested models; the first one is the default */
+  models: string[];
+  /** Whether a model outside the list may be typed in */
+  allowsCustomModel: boolean;
+  complete(request: LLMCompletionRequest, settings: LLMProviderSettings): Promise<LLMCompletionResult>;
+}
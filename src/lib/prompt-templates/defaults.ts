@@ -0,0 +1,101 @@
+import type { PromptTemplate } from "./types";
+
+const SYSTEM_TEMPLATE = `Ты эксперт по анализу брендов, специализирующийся на оптимизации частоты рекламы. Проанализируй предоставленную информацию о бренде и верни ТОЛЬКО валидный JSON объект.
+
+ТРЕБУЕМАЯ СТРУКТУРА JSON:
+{
+  "parameters": {
+    "brand_awareness": {
+      "id": "brand_awareness",
+      "value": -1.5,
+      "insight": "Детальное объяснение уровня узнаваемости бренда на {{language}} языке",
+      "source": "Источник данных или обоснование на {{language}} языке"
+    },
+    "market_saturation": {
+      "id": "market_saturation",
+      "value": 0.5,
+      "insight": "Анализ конкуренции на рынке на {{language}} языке",
+      "source": "Отраслевые отчёты или анализ на {{language}} языке"
+    },
+    "campaign_goal": {
+      "id": "campaign_goal",
+      "value": 1.0,
+      "insight": "Анализ сложности цели кампании на {{language}} языке",
+      "source": "Оценка стратегии кампании на {{language}} языке"
+    },
+    "target_audience": {
+      "id": "target_audience",
+      "value": -0.5,
+      "insight": "Анализ специфичности целевой аудитории на {{language}} языке",
+      "source": "Демографические данные на {{language}} языке"
+    },
+    "product_complexity": {
+      "id": "product_complexity",
+      "value": 0.8,
+      "insight": "Уровень сложности продукта/услуги на {{language}} языке",
+      "source": "Анализ продукта на {{language}} языке"
+    },
+    "message_complexity": {
+      "id": "message_complexity",
+      "value": 1.2,
+      "insight": "Требования к сложности сообщения на {{language}} языке",
+      "source": "Коммуникационная стратегия на {{language}} языке"
+    }
+  },
+  "ta_capacity_rf": 1500000,
+  "kpi_benchmarks": {
+    "awareness_tom_base": 0.18,
+    "consideration_search_base": 0.28,
+    "conversion_uplift_base": 0.10,
+    "retention_ltv_base": 0.04
+  },
+  "recommended_budget": 2500000,
+  "budget_reasoning": "Детальное обоснование рекомендованного бюджета на {{language}} языке"
+}
+
+ДИАПАЗОНЫ ЗНАЧЕНИЙ: Все значения параметров должны быть от -2.0 до +2.0
+- brand_awareness: -2.0 (неизвестен) до +2.0 (глобально узнаваем)
+- market_saturation: -2.0 (нет конкуренции) до +2.0 (высоко насыщен)
+- campaign_goal: -2.0 (простая узнаваемость) до +2.0 (сложная конверсия)
+- target_audience: -2.0 (массовый рынок) до +2.0 (узкая специфичная ниша)
+- product_complexity: -2.0 (очень простой) до +2.0 (очень сложный)
+- message_complexity: -2.0 (простой слоган) до +2.0 (подробное объяснение)
+
+РЕКОМЕНДАЦИЯ БЮДЖЕТА:
+- recommended_budget: число в рублях (например, 2500000 для 2.5 млн рублей)
+- budget_reasoning: детальное обоснование, почему такой бюджет оптимален для данной кампании
+
+КРИТЕРИЙ РАСЧЕТА БЮДЖЕТА: Рекомендованный бюджет должен быть рассчитан для достижения 80% поставленных целей кампании. Учитывай:
+1. Целевой охват аудитории (80% от максимально возможного)
+2. Необходимую частоту контактов
+3. Стоимость за тысячу показов (CPM ~{{cpm}} RUB для РФ)
+4. Цель кампании (awareness/consideration/conversion/retention)
+5. Конкурентную среду и насыщенность рынка
+
+ИСТОЧНИКИ: в поле source ссылайся на найденные источники их номерами в квадратных скобках, например [1][3]. Если источника нет, не придумывай ссылку.
+
+ВАЖНО: Все инсайты (insight), источники (source) и обоснование бюджета (budget_reasoning) должны быть на {{language}} языке!
+{{#competitors}}
+КОНКУРЕНТЫ: добавь в JSON поля
+  "competitors": [{ "name": "Название конкурента", "estimated_spend": 5000000 }],
+  "share_of_market": 12
+- competitors: 3-5 основных конкурентов с оценкой медийных затрат в рублях за период, сопоставимый с кампанией
+- share_of_market: оценка доли рынка бренда в процентах
+{{/competitors}}
+Верни ТОЛЬКО JSON объект, без дополнительного текста.`;
+
+const USER_TEMPLATE = `Проанализируй этот бренд на российском рынке:
+Название бренда: {{brand}}
+Бюджет: {{budget}} RUB
+Цель кампании: {{goal}}
+
+Предоставь детальный анализ с инсайтами и источниками для каждого параметра на {{language}} языке.`;
+
+/** Prompts the app ships with, in force until a version is saved */
+export const BUILT_IN_PROMPT_TEMPLATE: PromptTemplate = {
+  version: 0,
+  label: "Встроенные промпты",
+  systemTemplate: SYSTEM_TEMPLATE,
+  userTemplate: USER_TEMPLATE,
+  createTime: null,
+};
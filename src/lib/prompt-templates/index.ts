@@ -0,0 +1,10 @@
+/**
+ * Prompt templates of the AI brand analysis
+ *
+ * Prompts are versioned templates with `{{variable}}` placeholders filled
+ * from the campaign, so strategists can tune them without a release.
+ */
+
+export * from "./types";
+export * from "./template";
+export * from "./defaults";
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { BUILT_IN_PROMPT_TEMPLATE, findUnknownVariables, renderPrompts, renderTemplate } from "@/lib/prompt-templates";
+
+describe("Prompt templates", () => {
+  it("fills the variables and the competitors section of the built-in prompts", () => {
+    const variables = { brand: "Тест", budget: 2500000, goal: "conversion" as const, cpm: 450, language: "ru" as const, competitors: false };
+    const prompts = renderPrompts(BUILT_IN_PROMPT_TEMPLATE, variables);
+    expect(prompts.userContent).toContain("Название бренда: Тест\nБюджет: 2500000 RUB\nЦель кампании: Конверсия");
+    expect(prompts.systemContent).toContain("CPM ~450 RUB");
+    expect(prompts.systemContent).toContain("должны быть на русском языке!\n\nВерни ТОЛЬКО JSON");
+    expect(prompts.systemContent).not.toContain("{{");
+
+    const withCompetitors = renderPrompts(BUILT_IN_PROMPT_TEMPLATE, { ...variables, competitors: true, language: "en" });
+    expect(withCompetitors.systemContent).toContain('"share_of_market": 12');
+    expect(withCompetitors.userContent).toContain("на английском языке");
+
+    expect(renderTemplate("{{brand}} {{unknown}}", { brand: "A" })).toBe("A {{unknown}}");
+    expect(findUnknownVariables("{{brand}} {{ cmp }} {{#rivals}}x{{/rivals}} {{#competitors}}{{/competitors}}")).toEqual(["cmp", "rivals"]);
+  });
+});
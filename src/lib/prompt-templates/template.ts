@@ -0,0 +1,64 @@
+import { CAMPAIGN_GOAL_LABELS } from "@/lib/frequency-engine";
+import type { PromptLanguage, PromptTemplate, PromptVariables, RenderedPrompts } from "./types";
+
+/** Languages the insights can be requested in; `name` is what `{{language}}` renders to */
+export const PROMPT_LANGUAGES: Record<PromptLanguage, { label: string; name: string }> = {
+  ru: { label: "Русский", name: "русском" },
+  en: { label: "Английский", name: "английском" },
+};
+
+/** Placeholders a template may use, for the editor's reference list */
+export const PROMPT_VARIABLES: Array<{ name: string; description: string }> = [
+  { name: "brand", description: "Название бренда" },
+  { name: "budget", description: "Бюджет кампании, RUB" },
+  { name: "goal", description: "Цель кампании: Узнаваемость, Рассмотрение, Конверсия или Удержание" },
+  { name: "cpm", description: "CPM планирования, RUB" },
+  { name: "language", description: "Язык инсайтов в предложном падеже: «на {{language}} языке»" },
+  { name: "#competitors", description: "Блок {{#competitors}}…{{/competitors}} выводится, только если включена оценка конкурентов" },
+];
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+
+/**
+ * Fill a template: `{{name}}` is replaced by its value and a
+ * `{{#name}}...{{/name}}` section is kept only when the value is truthy.
+ * Unknown placeholders are left as they are so the preview shows them.
+ */
+export function renderTemplate(template: string, values: Record<string, string | number | boolean>): string {
+  return template
+    .replace(SECTION_PATTERN, (_match, name: string, body: string) => (values[name] ? body : ""))
+    .replace(VARIABLE_PATTERN, (match, name: string) =>
+      name in values && typeof values[name] !== "boolean" ? String(values[name]) : match
+    );
+}
+
+/**
+ * Placeholders of the template that no variable fills
+ */
+export function findUnknownVariables(template: string): string[] {
+  const known = new Set(PROMPT_VARIABLES.map(({ name }) => name.replace(/^#/, "")));
+  const names = [
+    ...[...template.matchAll(VARIABLE_PATTERN)].map((match) => match[1]),
+    ...[...template.matchAll(/\{\{[#/](\w+)\}\}/g)].map((match) => match[1]),
+  ];
+  return [...new Set(names.filter((name) => !known.has(name)))];
+}
+
+/**
+ * System and user prompts of the brand analysis for the given campaign
+ */
+export function renderPrompts(template: PromptTemplate, variables: PromptVariables): RenderedPrompts {
+  const values = {
+    brand: variables.brand,
+    budget: Math.round(variables.budget),
+    goal: variables.goal ? CAMPAIGN_GOAL_LABELS[variables.goal] : "",
+    cpm: Math.round(variables.cpm),
+    language: PROMPT_LANGUAGES[variables.language].name,
+    competitors: variables.competitors,
+  };
+  return {
+    systemContent: renderTemplate(template.systemTemplate, values),
+    userContent: renderTemplate(template.userTemplate, values),
+  };
+}
@@ -0,0 +1,34 @@
+import type { CampaignGoal } from "@/lib/frequency-engine";
+
+/**
+ * One saved version of the brand analysis prompts
+ */
+export interface PromptTemplate {
+  version: number;
+  label: string | null;
+  systemTemplate: string;
+  userTemplate: string;
+  /** 10-digit unix timestamp; null for the built-in prompts */
+  createTime: string | null;
+}
+
+export type PromptLanguage = "ru" | "en";
+
+/** Values the placeholders of a template are filled with */
+export interface PromptVariables {
+  brand: string;
+  /** Campaign budget, RUB */
+  budget: number;
+  goal: CampaignGoal | "";
+  /** CPM the budget is planned at, RUB */
+  cpm: number;
+  /** Language of the insights, sources and budget reasoning */
+  language: PromptLanguage;
+  /** Whether to ask for competitor spend estimates */
+  competitors: boolean;
+}
+
+export interface RenderedPrompts {
+  systemContent: string;
+  userContent: string;
+}
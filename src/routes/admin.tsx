@@ -0,0 +1,97 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { ArrowLeftIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { SeasonalityEditor } from "@/components/admin/SeasonalityEditor";
+import { KpiCoefficientsEditor } from "@/components/admin/KpiCoefficientsEditor";
+import { CalibrationPanel } from "@/components/admin/CalibrationPanel";
+import { AIProviderSettings } from "@/components/admin/AIProviderSettings";
+import { PromptTemplateEditor } from "@/components/admin/PromptTemplateEditor";
+
+export const Route = createFileRoute("/admin")({
+  component: Admin,
+});
+
+/**
+ * Admin screen: reference tables the calculator reads and the AI provider and prompts
+ */
+function Admin() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-zinc-50 to-zinc-100 dark:from-zinc-950 dark:to-zinc-900 p-4 sm:p-6 lg:p-8" style={{ fontFamily: "Montserrat, sans-serif" }}>
+      <div className="max-w-[1800px] mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold" style={{ color: "#d32f2f" }}>
+            Администрирование
+          </h1>
+          <Button variant="outline" asChild>
+            <Link to="/">
+              <ArrowLeftIcon className="h-4 w-4 mr-2" />
+              К калькулятору
+            </Link>
+          </Button>
+        </div>
+
+        <Tabs defaultValue="seasonality">
+          <TabsList>
+            <TabsTrigger value="seasonality">Сезонность</TabsTrigger>
+            <TabsTrigger value="coefficients">Коэффициенты КПИ</TabsTrigger>
+            <TabsTrigger value="calibration">Калибровка</TabsTrigger>
+            <TabsTrigger value="ai-provider">ИИ-провайдер</TabsTrigger>
+            <TabsTrigger value="prompts">Промпты</TabsTrigger>
+          </TabsList>
+          <TabsContent value="seasonality">
+            <Card>
+              <CardHeader className="border-b">
+                <CardTitle>Сезонные индексы</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6 overflow-x-auto">
+                <SeasonalityEditor />
+              </CardContent>
+            </Card>
+          </TabsContent>
+          <TabsContent value="coefficients">
+            <Card>
+              <CardHeader className="border-b">
+                <CardTitle>Коэффициенты формул КПИ</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6 overflow-x-auto">
+                <KpiCoefficientsEditor />
+              </CardContent>
+            </Card>
+          </TabsContent>
+          <TabsContent value="calibration">
+            <Card>
+              <CardHeader className="border-b">
+                <CardTitle>Калибровка по фактическим результатам</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6 overflow-x-auto">
+                <CalibrationPanel />
+              </CardContent>
+            </Card>
+          </TabsContent>
+          <TabsContent value="ai-provider">
+            <Card>
+              <CardHeader className="border-b">
+                <CardTitle>Провайдер ИИ-анализа</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6">
+                <AIProviderSettings />
+              </CardContent>
+            </Card>
+          </TabsContent>
+          <TabsContent value="prompts">
+            <Card>
+              <CardHeader className="border-b">
+                <CardTitle>Промпты ИИ-анализа бренда</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6">
+                <PromptTemplateEditor />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
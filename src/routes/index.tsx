@@ -1,5 +1,5 @@
-import { createFileRoute } from "@tanstack/react-router";
-import { useState, useEffect, useMemo } from "react";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
@@ -14,10 +14,109 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { usePerplexitySearch, type PerplexitySearchInput } from "@/hooks/use-perplexity-search";
+import { useBrandAnalysis, type BrandAnalysisRequest } from "@/hooks/use-brand-analysis";
+import { useLLMSettings } from "@/hooks/use-llm-settings";
+import { usePromptTemplates } from "@/hooks/use-prompt-templates";
+import { useMonteCarlo } from "@/hooks/use-monte-carlo";
+import { useSeasonalityTables } from "@/hooks/use-seasonality-tables";
+import { useKpiCoefficients } from "@/hooks/use-kpi-coefficients";
+import { usePortfolio, type PortfolioEntry } from "@/hooks/use-portfolio";
+import {
+  AI_PARAMETER_KEYS,
+  AI_PARAMETER_SLIDERS,
+  linkParameterCitations,
+  parseAIResponse,
+  type AICitation,
+  type AIParameterKey,
+} from "@/lib/ai-response";
+import { getLLMProvider } from "@/lib/llm-providers";
+import { PROMPT_LANGUAGES, renderPrompts, type PromptLanguage } from "@/lib/prompt-templates";
 import { CalculationHistoryORM, CalculationHistoryMode } from "@/components/data/orm/orm_calculation_history";
+import { OstrowWorksheet } from "@/components/calculator/OstrowWorksheet";
+import { FrequencyDistributionChart } from "@/components/calculator/FrequencyDistributionChart";
+import { PlanningSettingsForm } from "@/components/calculator/PlanningSettingsForm";
+import { MediaMixEditor } from "@/components/calculator/MediaMixEditor";
+import { BudgetSolverCard } from "@/components/calculator/BudgetSolverCard";
+import { SensitivityTornadoChart } from "@/components/calculator/SensitivityTornadoChart";
+import { ForecastBand } from "@/components/calculator/ForecastBand";
+import { UncertaintySettingsForm } from "@/components/calculator/UncertaintySettingsForm";
+import { FlightingCalendar } from "@/components/calculator/FlightingCalendar";
+import { FrequencyCapTable } from "@/components/calculator/FrequencyCapTable";
+import { ShareOfVoicePanel } from "@/components/calculator/ShareOfVoicePanel";
+import { RegionSelector } from "@/components/calculator/RegionSelector";
+import { RegionalBreakdownTable } from "@/components/calculator/RegionalBreakdownTable";
+import { SegmentBuilder } from "@/components/calculator/SegmentBuilder";
+import { SegmentPlanTable } from "@/components/calculator/SegmentPlanTable";
+import { SeasonalitySettingsForm } from "@/components/calculator/SeasonalitySettingsForm";
+import { KpiBaselinesForm } from "@/components/calculator/KpiBaselinesForm";
+import { KpiForecastPanel } from "@/components/calculator/KpiForecastPanel";
+import { AIInsightSources } from "@/components/calculator/AIInsightSources";
+import { ScenarioBuilder } from "@/components/calculator/ScenarioBuilder";
+import { ScenarioComparisonTable } from "@/components/calculator/ScenarioComparisonTable";
+import { ScenarioOverlayChart } from "@/components/calculator/ScenarioOverlayChart";
+import { PortfolioPanel } from "@/components/calculator/PortfolioPanel";
+import {
+  runCalculation,
+  clampParam,
+  DEFAULT_SLIDER_PARAMS,
+  DEFAULT_KPI_BENCHMARKS,
+  DEFAULT_KPI_BASELINES,
+  DEFAULT_TA_CAPACITY_RF,
+  DEFAULT_FREQUENCY_MODEL,
+  DEFAULT_PLANNING,
+  DEFAULT_MEDIA_MIX,
+  MEDIA_CHANNEL_LABELS,
+  FREQUENCY_MODEL_PRESETS,
+  getFrequencyBoundsError,
+  getFrequencyModelPreset,
+  calculateOstrowFrequency,
+  calculateMediaMix,
+  createOstrowScores,
+  solveBudgetForReach,
+  solveReachForBudget,
+  calculateSensitivity,
+  calculateFlighting,
+  createDefaultFlighting,
+  calculateFrequencyCaps,
+  calculateShareOfVoice,
+  calculateDelivery,
+  DEFAULT_SHARE_OF_VOICE,
+  DEFAULT_REGIONAL_SETTINGS,
+  calculateRegionalCapacity,
+  calculateRegionalCoverage,
+  calculateRegionalPriceIndex,
+  applyPriceIndex,
+  calculateSegmentPlan,
+  compareScenarios,
+  calculateSeasonality,
+  applySeasonality,
+  DEFAULT_SEASONALITY,
+  MONTH_LABELS,
+  SEASONALITY_CATEGORY_LABELS,
+  DEFAULT_TARGET_REACH,
+  DEFAULT_UNCERTAINTY,
+  FREQUENCY_MIN,
+  FREQUENCY_MAX,
+  type CalculationInput,
+  type FrequencyModel,
+  type OstrowScores,
+  type PlanningSettings,
+  type MediaMixSettings,
+  type UncertaintySettings,
+  type FlightingSettings,
+  type ShareOfVoiceSettings,
+  type RegionalSettings,
+  type AudienceSegment,
+  type Scenario,
+  type SeasonalitySettings,
+  type SliderParams,
+  type CampaignGoal,
+  type KpiBenchmarks,
+  type KpiBaselines,
+} from "@/lib/frequency-engine";
 import {
   RotateCcwIcon,
+  BriefcaseIcon,
   SparklesIcon,
   TrendingUpIcon,
   TargetIcon,
@@ -28,25 +127,17 @@ import {
   PercentIcon,
   AlertCircleIcon,
   ChevronRightIcon,
+  SettingsIcon,
 } from "lucide-react";
 
 export const Route = createFileRoute("/")({
   component: App,
 });
 
-interface SliderParams {
-  brandAwareness: number;
-  marketSaturation: number;
-  campaignGoal: number;
-  targetAudience: number;
-  productComplexity: number;
-  messageComplexity: number;
-}
-
 interface AIFormData {
   brandName: string;
   budget: string;
-  campaignGoal: string;
+  campaignGoal: CampaignGoal | "";
 }
 
 interface AIInsight {
@@ -54,44 +145,47 @@ interface AIInsight {
   value: number;
   insight: string;
   source: string;
+  /** Retrieved sources the estimate refers to; empty when nothing backs it */
+  citations: AICitation[];
 }
 
-interface AIResponse {
-  parameters: {
-    brand_awareness: { id: string; value: number; insight: string; source: string };
-    market_saturation: { id: string; value: number; insight: string; source: string };
-    campaign_goal: { id: string; value: number; insight: string; source: string };
-    target_audience: { id: string; value: number; insight: string; source: string };
-    product_complexity: { id: string; value: number; insight: string; source: string };
-    message_complexity: { id: string; value: number; insight: string; source: string };
-  };
-  ta_capacity_rf: number;
-  kpi_benchmarks: {
-    awareness_tom_base: number;
-    consideration_search_base: number;
-    conversion_uplift_base: number;
-    retention_ltv_base: number;
-  };
-  recommended_budget?: number;
-  budget_reasoning?: string;
-}
-
-type WizardStep = "brand" | "params" | "results";
+type WizardStep = "brand" | "params" | "mix" | "results";
 type ParamView = "manual" | "ai";
+type CalculationMethod = "sliders" | "ostrow";
 
 function App() {
   const [isAIMode, setIsAIMode] = useState(false);
   const [wizardStep, setWizardStep] = useState<WizardStep>("brand");
   const [paramView, setParamView] = useState<ParamView>("manual");
 
-  const [params, setParams] = useState<SliderParams>({
-    brandAwareness: 0,
-    marketSaturation: 0,
-    campaignGoal: 0,
-    targetAudience: 0,
-    productComplexity: 0,
-    messageComplexity: 0,
+  const [params, setParams] = useState<SliderParams>(DEFAULT_SLIDER_PARAMS);
+  const [frequencyModel, setFrequencyModel] = useState<FrequencyModel>(DEFAULT_FREQUENCY_MODEL);
+  // Text of the frequency bound inputs, which may be empty or invalid while typing
+  const [frequencyClampDraft, setFrequencyClampDraft] = useState({
+    minFrequency: String(DEFAULT_FREQUENCY_MODEL.minFrequency),
+    maxFrequency: String(DEFAULT_FREQUENCY_MODEL.maxFrequency),
   });
+  const [frequencyClampError, setFrequencyClampError] = useState<string | null>(null);
+  const [calculationMethod, setCalculationMethod] = useState<CalculationMethod>("sliders");
+  const [ostrowScores, setOstrowScores] = useState<OstrowScores>(createOstrowScores);
+  const [planning, setPlanning] = useState<PlanningSettings>(DEFAULT_PLANNING);
+  const [mediaMix, setMediaMix] = useState<MediaMixSettings>(DEFAULT_MEDIA_MIX);
+  const [targetReach, setTargetReach] = useState<number>(DEFAULT_TARGET_REACH);
+  const [uncertainty, setUncertainty] = useState<UncertaintySettings>(DEFAULT_UNCERTAINTY);
+  const [flighting, setFlighting] = useState<FlightingSettings>(() => createDefaultFlighting());
+  const [shareOfVoice, setShareOfVoice] = useState<ShareOfVoiceSettings>(DEFAULT_SHARE_OF_VOICE);
+  const [aiEstimateCompetitors, setAIEstimateCompetitors] = useState(false);
+  const [aiLanguage, setAILanguage] = useState<PromptLanguage>("ru");
+  const [regional, setRegional] = useState<RegionalSettings>(DEFAULT_REGIONAL_SETTINGS);
+  const [segments, setSegments] = useState<AudienceSegment[]>([]);
+  const [seasonality, setSeasonality] = useState<SeasonalitySettings>(DEFAULT_SEASONALITY);
+  const [kpiBaselines, setKpiBaselines] = useState<KpiBaselines>(DEFAULT_KPI_BASELINES);
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  // Latest calculation_history record, so saved scenarios can point at it
+  const [savedCalculationId, setSavedCalculationId] = useState<string | null>(null);
+  const { current: { tables: seasonalityTables } } = useSeasonalityTables();
+  const { current: kpiCoefficientSet } = useKpiCoefficients();
+  const saveToPortfolio = usePortfolio((state) => state.saveBrand);
 
   const [aiForm, setAIForm] = useState<AIFormData>({
     brandName: "",
@@ -99,115 +193,153 @@ function App() {
     campaignGoal: "",
   });
 
-  const [aiSearchParams, setAISearchParams] = useState<PerplexitySearchInput | null>(null);
+  const [aiSearchParams, setAISearchParams] = useState<BrandAnalysisRequest | null>(null);
   const [analysisComplete, setAnalysisComplete] = useState(false);
   const [insights, setInsights] = useState<Record<string, AIInsight>>({});
-  const [taCapacityRF, setTaCapacityRF] = useState<number>(1000000);
-  const [kpiBenchmarks, setKpiBenchmarks] = useState({
-    awareness_tom_base: 0.15,
-    consideration_search_base: 0.25,
-    conversion_uplift_base: 0.08,
-    retention_ltv_base: 0.04,
-  });
+  const [taCapacityRF, setTaCapacityRF] = useState<number>(DEFAULT_TA_CAPACITY_RF);
+  const [kpiBenchmarks, setKpiBenchmarks] = useState<KpiBenchmarks>(DEFAULT_KPI_BENCHMARKS);
   const [aiErrorMessage, setAIErrorMessage] = useState<string>("");
+  // Parameters the last AI response was rejected for
+  const [aiParseIssues, setAIParseIssues] = useState<{ missing: AIParameterKey[]; invalid: AIParameterKey[] } | null>(null);
   const [recommendedBudget, setRecommendedBudget] = useState<number | null>(null);
   const [budgetReasoning, setBudgetReasoning] = useState<string>("");
-
-  const { data: aiData, isLoading: isAILoading, error: aiError } = usePerplexitySearch(
-    aiSearchParams ?? undefined,
-    aiSearchParams !== null
+  // Prompt version of the request in flight and of the AI parameters applied
+  const requestedPromptVersion = useRef<number | null>(null);
+  const [aiPromptVersion, setAIPromptVersion] = useState<number | null>(null);
+  // Provider response the applied AI parameters came from, stored with the calculation for audit
+  const [aiRawResponse, setAIRawResponse] = useState<string | null>(null);
+  const { current: promptTemplate } = usePromptTemplates();
+
+  const { data: aiData, isLoading: isAILoading, error: aiError } = useBrandAnalysis(aiSearchParams);
+  const llmSettings = useLLMSettings();
+  const llmProvider = getLLMProvider(llmSettings.providerId);
+
+  const budget = aiForm.budget ? parseFloat(aiForm.budget) : 0;
+
+  // Regional campaigns replace the single RF capacity with the selected geography
+  const regionalCapacity = useMemo(() => calculateRegionalCapacity(regional), [regional]);
+  const isRegional = regional.enabled && regionalCapacity > 0;
+  const audienceCapacity = isRegional ? regionalCapacity : taCapacityRF;
+
+  // Brand voice in the unit competitors are entered in
+  const ownVoice = shareOfVoice.unit === "spend"
+    ? budget
+    : calculateDelivery(budget, planning.universe ?? audienceCapacity, planning).grp;
+  const shareOfVoiceResult = useMemo(
+    () => calculateShareOfVoice(shareOfVoice, ownVoice),
+    [shareOfVoice, ownVoice]
+  );
+  const isSaturationFromSov = shareOfVoice.enabled && shareOfVoice.competitors.length > 0;
+  const effectiveParams = useMemo<SliderParams>(
+    () => (isSaturationFromSov ? { ...params, marketSaturation: shareOfVoiceResult.marketSaturation } : params),
+    [params, isSaturationFromSov, shareOfVoiceResult.marketSaturation]
   );
 
-  // Calculate effective frequency
-  const frequency = useMemo(() => {
-    const sum = Object.values(params).reduce((acc, val) => acc + val, 0);
-    const calculated = 1.0 + sum;
-    return Math.max(1.0, Math.min(15.0, calculated));
-  }, [params]);
-
-  // Get base TOM by campaign goal
-  const getBaseTOM = (goal: string) => {
-    switch (goal) {
-      case "awareness": return kpiBenchmarks.awareness_tom_base;
-      case "consideration": return kpiBenchmarks.consideration_search_base;
-      case "conversion": return kpiBenchmarks.conversion_uplift_base;
-      case "retention": return kpiBenchmarks.retention_ltv_base;
-      default: return 0.15;
-    }
-  };
-
-  // Get goal multiplier (0.2x - 1.0x)
-  const getGoalMultiplier = (goal: string) => {
-    switch (goal) {
-      case "awareness": return 1.0;
-      case "consideration": return 0.7;
-      case "conversion": return 0.4;
-      case "retention": return 0.2;
-      default: return 1.0;
-    }
-  };
-
-  // Calculate TOM with improved formula
-  const calculateTOM = useMemo(() => {
-    if (!aiForm.budget || !aiForm.campaignGoal) return 0;
-
-    const budget = parseFloat(aiForm.budget);
-    const baseTOM = getBaseTOM(aiForm.campaignGoal);
-
-    // Мультипликатор частоты: 1 + (Frequency - 1.0) × 0.08
-    const frequencyMultiplier = 1 + (frequency - 1.0) * 0.08;
-
-    // Корректировка бюджета: √(Budget / 500,000)
-    const budgetCorrection = Math.sqrt(budget / 500000);
-
-    // Множитель цели: 0.2x - 1.0x
-    const goalMultiplier = getGoalMultiplier(aiForm.campaignGoal);
-
-    return baseTOM * frequencyMultiplier * budgetCorrection * goalMultiplier * 100 * 3.5; // Умножено на 3.5
-  }, [aiForm.budget, aiForm.campaignGoal, frequency, kpiBenchmarks]);
-
-  // Calculate LTV Growth with improved formula
-  const calculateLTVGrowth = useMemo(() => {
-    if (!aiForm.budget || !aiForm.campaignGoal) return 0;
-
-    const baseLTV = kpiBenchmarks.retention_ltv_base;
-
-    // Мультипликатор цели (0.3x - 1.0x)
-    const goalMultipliers: Record<string, number> = {
-      awareness: 0.3,
-      consideration: 0.5,
-      conversion: 0.8,
-      retention: 1.0,
+  // The campaign period is shared with the flighting calendar
+  const seasonalityAdjustment = useMemo(
+    () => calculateSeasonality(seasonalityTables, seasonality.category, flighting.startDate, flighting.endDate),
+    [seasonalityTables, seasonality.category, flighting.startDate, flighting.endDate]
+  );
+  const seasonalityPeriod = MONTH_LABELS.filter((_, month) => seasonalityAdjustment.monthWeights[month] > 0);
+  const seasonalityPeriodLabel = seasonalityPeriod.length > 1
+    ? `${seasonalityPeriod[0]}–${seasonalityPeriod[seasonalityPeriod.length - 1]}`
+    : seasonalityPeriod[0] ?? "";
+
+  // Plan at national prices; the regional breakdown applies each region's own index to it
+  const nationalInput = useMemo<CalculationInput>(() => {
+    const input: CalculationInput = {
+      params: effectiveParams,
+      budget,
+      goal: aiForm.campaignGoal,
+      taCapacityRF: audienceCapacity,
+      kpiBenchmarks,
+      frequencyModel,
+      planning,
+      mediaMix,
+      coefficients: kpiCoefficientSet.coefficients,
+      baselines: kpiBaselines,
     };
-    const goalMultiplier = goalMultipliers[aiForm.campaignGoal] || 0.5;
-
-    // Мультипликатор частоты: 1 + (Freq - 1.0) × 0.05
-    const frequencyMultiplier = 1 + (frequency - 1.0) * 0.05;
-
-    // Корректировка конкуренции (на основе market_saturation)
-    const competitionCorrection = 1 - (params.marketSaturation * 0.1);
-
-    // Мультипликатор качества бюджета
-    const budget = parseFloat(aiForm.budget);
-    const budgetQualityMultiplier = Math.min(1.0 + Math.log10(budget / 1000000), 2.0);
-
-    return baseLTV * goalMultiplier * frequencyMultiplier * competitionCorrection * budgetQualityMultiplier * 100 * 7; // Умножено на 7
-  }, [aiForm.budget, aiForm.campaignGoal, frequency, params.marketSaturation, kpiBenchmarks]);
+    return seasonality.enabled ? applySeasonality(input, seasonalityAdjustment) : input;
+  }, [effectiveParams, budget, aiForm.campaignGoal, audienceCapacity, kpiBenchmarks, frequencyModel, planning, mediaMix, kpiCoefficientSet, kpiBaselines, seasonality.enabled, seasonalityAdjustment]);
+  const regionalPriceIndex = useMemo(() => (isRegional ? calculateRegionalPriceIndex(regional) : 1), [isRegional, regional]);
+  const calculationInput = useMemo(
+    () => (regionalPriceIndex !== 1 ? applyPriceIndex(nationalInput, regionalPriceIndex) : nationalInput),
+    [nationalInput, regionalPriceIndex]
+  );
 
-  // Calculate Coverage with improved formula
-  const calculateCoverage = useMemo(() => {
-    if (!aiForm.budget || frequency === 0 || taCapacityRF === 0) return 0;
+  // Run the calculation engine for both methods so they can be compared side by side
+  const ostrowResult = useMemo(() => calculateOstrowFrequency(ostrowScores), [ostrowScores]);
+  const sliderCalculation = useMemo(() => runCalculation(calculationInput), [calculationInput]);
+  const ostrowCalculation = useMemo(
+    () => runCalculation(calculationInput, ostrowResult),
+    [calculationInput, ostrowResult]
+  );
 
-    const budget = parseFloat(aiForm.budget);
-    const cpm = 400; // Фиксированный CPM (средний российский)
+  const calculation = calculationMethod === "ostrow" ? ostrowCalculation : sliderCalculation;
 
-    // Coverage % = (Budget / 400 CPM × 1000) / Frequency / TA_Capacity_RF × 100 × 0.08
-    const impressions = (budget / cpm) * 1000;
-    const reach = impressions / frequency;
-    const coverage = (reach / taCapacityRF) * 100 * 0.08; // Понижающий коэффициент 0.08 (уменьшено в 5 раз)
+  // Media mix preview for the mix step, shown even before the mix is enabled
+  const mediaMixPreview = useMemo(
+    () => calculateMediaMix(calculationInput.budget, planning.universe ?? audienceCapacity, mediaMix),
+    [calculationInput.budget, planning.universe, audienceCapacity, mediaMix]
+  );
+  const frequency = calculation.frequency.frequency;
 
-    return coverage;
-  }, [aiForm.budget, frequency, taCapacityRF]);
+  // Inverse solvers, only needed on the results step
+  const budgetSolution = useMemo(
+    () => (wizardStep === "results" ? solveBudgetForReach(calculationInput, frequency, targetReach) : null),
+    [wizardStep, calculationInput, frequency, targetReach]
+  );
+  const reachSolution = useMemo(
+    () => (wizardStep === "results" ? solveReachForBudget(calculationInput, frequency) : null),
+    [wizardStep, calculationInput, frequency]
+  );
+  const sensitivity = useMemo(
+    () => (wizardStep === "results"
+      ? calculateSensitivity(calculationInput, calculationMethod === "ostrow" ? ostrowResult : undefined)
+      : null),
+    [wizardStep, calculationInput, calculationMethod, ostrowResult]
+  );
+  // Plan contacts per reached person spread over the campaign calendar
+  const flightingResult = useMemo(
+    () => calculateFlighting(flighting, calculation.coverage.distribution.averageFrequency, frequency),
+    [flighting, calculation.coverage.distribution.averageFrequency, frequency]
+  );
+  // Caps follow the mix the plan was calculated with, at its seasonal and regional CPMs
+  const campaignMix = calculation.coverage.mediaMix;
+  const frequencyCaps = useMemo(
+    () => (campaignMix ? calculateFrequencyCaps(frequency, campaignMix, flightingResult) : null),
+    [frequency, campaignMix, flightingResult]
+  );
+  const regionalCoverage = useMemo(
+    () => (wizardStep === "results" && isRegional ? calculateRegionalCoverage(nationalInput, frequency, regional) : null),
+    [wizardStep, isRegional, nationalInput, frequency, regional]
+  );
+  const segmentPlan = useMemo(
+    () => (wizardStep === "results" && segments.length > 0
+      ? calculateSegmentPlan(
+        calculationInput,
+        segments,
+        isRegional ? regional.regionIds : [],
+        calculationMethod === "ostrow" ? ostrowResult : undefined
+      )
+      : null),
+    [wizardStep, segments, calculationInput, isRegional, regional.regionIds, calculationMethod, ostrowResult]
+  );
+  const scenarioResults = useMemo(
+    () => (wizardStep === "results"
+      ? compareScenarios(calculationInput, scenarios, calculationMethod === "ostrow" ? ostrowResult : undefined)
+      : []),
+    [wizardStep, scenarios, calculationInput, calculationMethod, ostrowResult]
+  );
+  const { result: monteCarlo, isRunning: isMonteCarloRunning } = useMonteCarlo(
+    calculationInput,
+    uncertainty,
+    calculationMethod === "ostrow" ? ostrowResult : undefined,
+    wizardStep === "results"
+  );
+  const frequencyRange = calculationMethod === "ostrow"
+    ? { min: FREQUENCY_MIN, max: FREQUENCY_MAX }
+    : { min: frequencyModel.minFrequency, max: frequencyModel.maxFrequency };
 
   const getKPILabel = () => {
     switch (aiForm.campaignGoal) {
@@ -219,9 +351,16 @@ function App() {
     }
   };
 
+  // Position of a frequency value within the active clamp range (0..1)
+  const getFrequencyPosition = (freq: number) => {
+    const range = frequencyRange.max - frequencyRange.min;
+    if (range <= 0) return 0;
+    return Math.max(0, Math.min(1, (freq - frequencyRange.min) / range));
+  };
+
   // Get frequency color based on value (green to red gradient)
   const getFrequencyColor = (freq: number) => {
-    const normalized = (freq - 1.0) / 14.0;
+    const normalized = getFrequencyPosition(freq);
     const hue = (1 - normalized) * 120;
     return `hsl(${hue}, 70%, 50%)`;
   };
@@ -245,15 +384,53 @@ function App() {
     setParams((prev) => ({ ...prev, [key]: value[0] }));
   };
 
+  // Follow bounds set elsewhere (preset, reset, reopened brand) unless the draft already reads as them
+  useEffect(() => {
+    setFrequencyClampDraft((prev) => ({
+      minFrequency: parseFloat(prev.minFrequency) === frequencyModel.minFrequency ? prev.minFrequency : String(frequencyModel.minFrequency),
+      maxFrequency: parseFloat(prev.maxFrequency) === frequencyModel.maxFrequency ? prev.maxFrequency : String(frequencyModel.maxFrequency),
+    }));
+    setFrequencyClampError(null);
+  }, [frequencyModel]);
+
+  const handleFrequencyModelChange = (id: string) => {
+    setFrequencyModel(getFrequencyModelPreset(id));
+  };
+
+  // Typed bounds are applied only once they form a valid range
+  const handleFrequencyClampChange = (key: "minFrequency" | "maxFrequency") => (value: string) => {
+    const draft = { ...frequencyClampDraft, [key]: value };
+    setFrequencyClampDraft(draft);
+    const min = parseFloat(draft.minFrequency);
+    const max = parseFloat(draft.maxFrequency);
+    const boundsError = getFrequencyBoundsError(min, max);
+    setFrequencyClampError(boundsError);
+    if (!boundsError) {
+      setFrequencyModel((prev) => ({ ...prev, minFrequency: min, maxFrequency: max }));
+    }
+  };
+
+  const handleOstrowScoreChange = (factorId: string, value: number) => {
+    setOstrowScores((prev) => ({ ...prev, [factorId]: value }));
+  };
+
   const handleReset = () => {
-    setParams({
-      brandAwareness: 0,
-      marketSaturation: 0,
-      campaignGoal: 0,
-      targetAudience: 0,
-      productComplexity: 0,
-      messageComplexity: 0,
-    });
+    setParams(DEFAULT_SLIDER_PARAMS);
+    setFrequencyModel(DEFAULT_FREQUENCY_MODEL);
+    setCalculationMethod("sliders");
+    setOstrowScores(createOstrowScores());
+    setPlanning(DEFAULT_PLANNING);
+    setMediaMix(DEFAULT_MEDIA_MIX);
+    setTargetReach(DEFAULT_TARGET_REACH);
+    setUncertainty(DEFAULT_UNCERTAINTY);
+    setFlighting(createDefaultFlighting());
+    setShareOfVoice(DEFAULT_SHARE_OF_VOICE);
+    setRegional(DEFAULT_REGIONAL_SETTINGS);
+    setSegments([]);
+    setSeasonality(DEFAULT_SEASONALITY);
+    setKpiBaselines(DEFAULT_KPI_BASELINES);
+    setScenarios([]);
+    setSavedCalculationId(null);
     setAIForm({
       brandName: "",
       budget: "",
@@ -263,16 +440,91 @@ function App() {
     setInsights({});
     setRecommendedBudget(null);
     setBudgetReasoning("");
+    setAIPromptVersion(null);
+    setAIRawResponse(null);
     setWizardStep("brand");
     setParamView("manual");
   };
 
+  const handleAddToPortfolio = () => {
+    saveToPortfolio({
+      id: crypto.randomUUID(),
+      name: aiForm.brandName || "Без названия",
+      input: calculationInput,
+      frequency: calculationMethod === "ostrow" ? ostrowResult : undefined,
+      weight: 1,
+      insights,
+      settings: {
+        params,
+        taCapacityRF,
+        kpiBenchmarks,
+        frequencyModel,
+        planning,
+        mediaMix,
+        baselines: kpiBaselines,
+        seasonality,
+        flighting,
+        regional,
+        shareOfVoice,
+        calculationMethod,
+        ostrowScores,
+      },
+    });
+  };
+
+  // Continue planning a portfolio brand in the wizard
+  const handleOpenPortfolioBrand = (brand: PortfolioEntry) => {
+    const { input, settings } = brand;
+    setAIForm({
+      brandName: brand.name,
+      budget: String(Math.round(input.budget)),
+      campaignGoal: input.goal,
+    });
+    if (settings) {
+      setParams(settings.params);
+      setTaCapacityRF(settings.taCapacityRF);
+      setKpiBenchmarks(settings.kpiBenchmarks);
+      setFrequencyModel(settings.frequencyModel);
+      setPlanning(settings.planning);
+      setMediaMix(settings.mediaMix);
+      setKpiBaselines(settings.baselines);
+      setSeasonality(settings.seasonality);
+      setFlighting(settings.flighting);
+      setRegional(settings.regional);
+      setShareOfVoice(settings.shareOfVoice);
+      setCalculationMethod(settings.calculationMethod);
+      setOstrowScores(settings.ostrowScores);
+    } else {
+      // Older brands only kept the calculation input, so open them without seasonality on top of it
+      setParams(input.params);
+      setTaCapacityRF(input.taCapacityRF);
+      setKpiBenchmarks(input.kpiBenchmarks);
+      if (input.frequencyModel) setFrequencyModel(input.frequencyModel);
+      if (input.planning) setPlanning(input.planning);
+      if (input.mediaMix) setMediaMix(input.mediaMix);
+      if (input.baselines) setKpiBaselines(input.baselines);
+      setSeasonality(DEFAULT_SEASONALITY);
+      setRegional(DEFAULT_REGIONAL_SETTINGS);
+      setCalculationMethod("sliders");
+    }
+    setInsights(Object.fromEntries(
+      Object.entries(brand.insights).map(([key, insight]) => [key, { ...insight, citations: insight.citations ?? [] }])
+    ));
+    setAnalysisComplete(Object.keys(brand.insights).length > 0);
+    setScenarios([]);
+    setWizardStep("params");
+  };
+
   const handleContinueToBrand = () => {
     if (aiForm.brandName && aiForm.budget) {
       setWizardStep("params");
     }
   };
 
+  const handleContinueToMix = () => {
+    setWizardStep("mix");
+  };
+
   const handleContinueToResults = () => {
     setWizardStep("results");
   };
@@ -284,101 +536,27 @@ function App() {
 
     // Reset states before new analysis
     setAIErrorMessage("");
+    setAIParseIssues(null);
     setAnalysisComplete(false);
 
     console.log("🚀 Запуск ИИ-анализа для:", aiForm);
 
-    const systemContent = `Ты эксперт по анализу брендов, специализирующийся на оптимизации частоты рекламы. Проанализируй предоставленную информацию о бренде и верни ТОЛЬКО валидный JSON объект.
-
-ТРЕБУЕМАЯ СТРУКТУРА JSON:
-{
-  "parameters": {
-    "brand_awareness": {
-      "id": "brand_awareness",
-      "value": -1.5,
-      "insight": "Детальное объяснение уровня узнаваемости бренда на русском языке",
-      "source": "Источник данных или обоснование на русском"
-    },
-    "market_saturation": {
-      "id": "market_saturation",
-      "value": 0.5,
-      "insight": "Анализ конкуренции на рынке на русском языке",
-      "source": "Отраслевые отчёты или анализ на русском"
-    },
-    "campaign_goal": {
-      "id": "campaign_goal",
-      "value": 1.0,
-      "insight": "Анализ сложности цели кампании на русском языке",
-      "source": "Оценка стратегии кампании на русском"
-    },
-    "target_audience": {
-      "id": "target_audience",
-      "value": -0.5,
-      "insight": "Анализ специфичности целевой аудитории на русском языке",
-      "source": "Демографические данные на русском"
-    },
-    "product_complexity": {
-      "id": "product_complexity",
-      "value": 0.8,
-      "insight": "Уровень сложности продукта/услуги на русском языке",
-      "source": "Анализ продукта на русском"
-    },
-    "message_complexity": {
-      "id": "message_complexity",
-      "value": 1.2,
-      "insight": "Требования к сложности сообщения на русском языке",
-      "source": "Коммуникационная стратегия на русском"
-    }
-  },
-  "ta_capacity_rf": 1500000,
-  "kpi_benchmarks": {
-    "awareness_tom_base": 0.18,
-    "consideration_search_base": 0.28,
-    "conversion_uplift_base": 0.10,
-    "retention_ltv_base": 0.04
-  },
-  "recommended_budget": 2500000,
-  "budget_reasoning": "Детальное обоснование рекомендованного бюджета на русском языке"
-}
-
-ДИАПАЗОНЫ ЗНАЧЕНИЙ: Все значения параметров должны быть от -2.0 до +2.0
-- brand_awareness: -2.0 (неизвестен) до +2.0 (глобально узнаваем)
-- market_saturation: -2.0 (нет конкуренции) до +2.0 (высоко насыщен)
-- campaign_goal: -2.0 (простая узнаваемость) до +2.0 (сложная конверсия)
-- target_audience: -2.0 (массовый рынок) до +2.0 (узкая специфичная ниша)
-- product_complexity: -2.0 (очень простой) до +2.0 (очень сложный)
-- message_complexity: -2.0 (простой слоган) до +2.0 (подробное объяснение)
-
-РЕКОМЕНДАЦИЯ БЮДЖЕТА:
-- recommended_budget: число в рублях (например, 2500000 для 2.5 млн рублей)
-- budget_reasoning: детальное обоснование, почему такой бюджет оптимален для данной кампании
-
-КРИТЕРИЙ РАСЧЕТА БЮДЖЕТА: Рекомендованный бюджет должен быть рассчитан для достижения 80% поставленных целей кампании. Учитывай:
-1. Целевой охват аудитории (80% от максимально возможного)
-2. Необходимую частоту контактов
-3. Стоимость за тысячу показов (CPM ~400 RUB для РФ)
-4. Цель кампании (awareness/consideration/conversion/retention)
-5. Конкурентную среду и насыщенность рынка
-
-ВАЖНО: Все инсайты (insight), источники (source) и обоснование бюджета (budget_reasoning) должны быть НА РУССКОМ ЯЗЫКЕ!
-
-Верни ТОЛЬКО JSON объект, без дополнительного текста.`;
-
-    const userContent = `Проанализируй этот бренд на российском рынке:
-Название бренда: ${aiForm.brandName}
-Бюджет: ${aiForm.budget} RUB
-Цель кампании: ${aiForm.campaignGoal === "awareness" ? "Узнаваемость" :
-                    aiForm.campaignGoal === "consideration" ? "Рассмотрение" :
-                    aiForm.campaignGoal === "conversion" ? "Конверсия" : "Удержание"}
-
-Предоставь детальный анализ с инсайтами и источниками для каждого параметра НА РУССКОМ ЯЗЫКЕ.`;
+    const { systemContent, userContent } = renderPrompts(promptTemplate, {
+      brand: aiForm.brandName,
+      budget: parseFloat(aiForm.budget),
+      goal: aiForm.campaignGoal,
+      cpm: planning.cpm,
+      language: aiLanguage,
+      competitors: aiEstimateCompetitors,
+    });
+    requestedPromptVersion.current = promptTemplate.version;
 
-    const searchParams: PerplexitySearchInput = {
+    const searchParams: BrandAnalysisRequest = {
       systemContent,
       userContent,
-      model: "sonar-pro",
       temperature: 0.7,
-      max_tokens: 3000,
+      maxTokens: 3000,
+      returnCitations: true,
     };
 
     console.log("📤 Установка параметров ИИ-поиска:", searchParams);
@@ -392,238 +570,76 @@ function App() {
 
     console.log("🔍 Получен ответ ИИ:", aiData);
 
-    if (!aiData.successful) {
-      const errorMsg = aiData.error || "Ошибка ИИ-анализа";
-      console.error("❌ Ошибка ИИ:", errorMsg);
-      setAIErrorMessage(errorMsg);
+    const result = parseAIResponse(aiData.response);
+    if (!result.success) {
+      console.error("❌ Ответ ИИ не прошёл проверку:", result.issues);
+      setAIErrorMessage(result.error);
+      setAIParseIssues({ missing: result.missingParameters, invalid: result.invalidParameters });
       return;
     }
-
-    if (!aiData.data?.response) {
-      console.error("❌ Нет данных ответа от ИИ");
-      setAIErrorMessage("Нет данных ответа от ИИ");
-      return;
+    if (result.warnings.length > 0) {
+      console.warn("⚠️ Необязательные поля ответа ИИ пропущены:", result.warnings);
     }
 
-    try {
-      console.log("📦 Сырой ответ:", aiData.data.response);
-      console.log("📦 Тип ответа:", typeof aiData.data.response);
-      console.log("📦 Ключи ответа:", Object.keys(aiData.data.response));
-
-      let parsed: AIResponse | undefined;
-      const response = aiData.data.response;
-
-      // Strategy 1: Check for OpenAI-style response (choices[0].message.content)
-      if ('choices' in response && Array.isArray(response.choices) && response.choices.length > 0) {
-        const choice = response.choices[0] as Record<string, unknown>;
-        if ('message' in choice && typeof choice.message === 'object' && choice.message !== null) {
-          const message = choice.message as Record<string, unknown>;
-          if ('content' in message) {
-            const content = message.content;
-            console.log("🔄 Найден ответ в стиле OpenAI, содержимое:", content);
-
-            if (typeof content === 'string') {
-              try {
-                parsed = JSON.parse(content) as AIResponse;
-                console.log("✅ Распарсено из choices[0].message.content string:", parsed);
-              } catch {
-                const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/) ||
-                                 content.match(/\{[\s\S]*?"parameters"[\s\S]*?\}/);
-                if (jsonMatch) {
-                  const jsonText = jsonMatch[1] || jsonMatch[0];
-                  parsed = JSON.parse(jsonText) as AIResponse;
-                  console.log("✅ Извлечено из markdown в content:", parsed);
-                } else {
-                  throw new Error("JSON не найден в строке content");
-                }
-              }
-            } else if (typeof content === 'object' && content !== null) {
-              parsed = content as AIResponse;
-              console.log("✅ Использован объект content напрямую:", parsed);
-            } else {
-              throw new Error("Неверный тип content в ответе OpenAI");
-            }
-          } else {
-            throw new Error("Нет поля content в message");
-          }
-        } else {
-          throw new Error("Нет поля message в choice");
-        }
-      }
-      // Strategy 2: Direct object with parameters
-      else if ('parameters' in response) {
-        parsed = response as unknown as AIResponse;
-        console.log("✅ Прямой объект с параметрами:", parsed);
-      }
-      // Strategy 3: String response
-      else if (typeof response === 'string') {
-        const responseText = response as string;
-        console.log("📝 Ответ является строкой, попытка парсинга...");
-
-        try {
-          parsed = JSON.parse(responseText) as AIResponse;
-          console.log("✅ Прямой парсинг успешен:", parsed);
-        } catch {
-          const jsonMatch = responseText.match(/```json\s*([\s\S]*?)\s*```/) ||
-                           responseText.match(/\{[\s\S]*?"parameters"[\s\S]*?\}/);
-
-          if (!jsonMatch) {
-            console.error("❌ JSON не найден в строковом ответе");
-            setAIErrorMessage("Валидный JSON не найден в ответе ИИ");
-            return;
-          }
-
-          const jsonText = jsonMatch[1] || jsonMatch[0];
-          parsed = JSON.parse(jsonText) as AIResponse;
-          console.log("✅ Извлеченный парсинг успешен:", parsed);
-        }
-      }
-      // Strategy 4: Object that might contain JSON string in various fields
-      else if (typeof response === 'object' && response !== null) {
-        const possibleFields = ['content', 'text', 'output', 'result', 'data'];
-        let found = false;
-
-        for (const field of possibleFields) {
-          if (field in response) {
-            const fieldValue = (response as Record<string, unknown>)[field];
-            console.log(`🔍 Проверка поля '${field}':`, fieldValue);
-
-            if (typeof fieldValue === 'string') {
-              try {
-                parsed = JSON.parse(fieldValue) as AIResponse;
-                console.log(`✅ Распарсено из поля '${field}':`, parsed);
-                found = true;
-                break;
-              } catch {
-                const jsonMatch = fieldValue.match(/```json\s*([\s\S]*?)\s*```/) ||
-                                 fieldValue.match(/\{[\s\S]*?"parameters"[\s\S]*?\}/);
-                if (jsonMatch) {
-                  const jsonText = jsonMatch[1] || jsonMatch[0];
-                  try {
-                    parsed = JSON.parse(jsonText) as AIResponse;
-                    console.log(`✅ Извлечено из markdown в '${field}':`, parsed);
-                    found = true;
-                    break;
-                  } catch {
-                    continue;
-                  }
-                }
-              }
-            } else if (typeof fieldValue === 'object' && fieldValue !== null && 'parameters' in fieldValue) {
-              parsed = fieldValue as AIResponse;
-              console.log(`✅ Использован объект из поля '${field}':`, parsed);
-              found = true;
-              break;
-            }
-          }
-        }
-
-        if (!found) {
-          console.error("❌ Не удалось извлечь данные из объекта ответа");
-          console.error("Доступные поля:", Object.keys(response));
-          setAIErrorMessage("Не удалось извлечь данные ИИ-анализа из ответа");
-          return;
-        }
-      } else {
-        console.error("❌ Неизвестный тип ответа:", typeof response);
-        setAIErrorMessage("Неверный формат ответа от ИИ");
-        return;
-      }
-
-      // Validate structure
-      if (!parsed || !parsed.parameters) {
-        console.error("❌ Отсутствуют параметры в ответе");
-        console.error("Распарсенный объект:", parsed);
-        setAIErrorMessage("Отсутствуют параметры в ответе ИИ");
-        return;
-      }
-
-      const validatedParsed: AIResponse = parsed;
-
-      console.log("🎯 Параметры найдены:", validatedParsed.parameters);
-
-      const clamp = (val: number) => Math.max(-2.0, Math.min(2.0, val));
-
-      // Extract and validate parameters
-      const newParams: SliderParams = {
-        brandAwareness: clamp(validatedParsed.parameters.brand_awareness?.value ?? 0),
-        marketSaturation: clamp(validatedParsed.parameters.market_saturation?.value ?? 0),
-        campaignGoal: clamp(validatedParsed.parameters.campaign_goal?.value ?? 0),
-        targetAudience: clamp(validatedParsed.parameters.target_audience?.value ?? 0),
-        productComplexity: clamp(validatedParsed.parameters.product_complexity?.value ?? 0),
-        messageComplexity: clamp(validatedParsed.parameters.message_complexity?.value ?? 0),
-      };
-
-      console.log("📊 Распарсенные параметры:", newParams);
-
-      // Extract insights
-      const newInsights: Record<string, AIInsight> = {
-        brand_awareness: {
-          id: "brand_awareness",
-          value: newParams.brandAwareness,
-          insight: validatedParsed.parameters.brand_awareness?.insight || "Инсайт недоступен",
-          source: validatedParsed.parameters.brand_awareness?.source || "ИИ-Анализ",
-        },
-        market_saturation: {
-          id: "market_saturation",
-          value: newParams.marketSaturation,
-          insight: validatedParsed.parameters.market_saturation?.insight || "Инсайт недоступен",
-          source: validatedParsed.parameters.market_saturation?.source || "ИИ-Анализ",
-        },
-        campaign_goal: {
-          id: "campaign_goal",
-          value: newParams.campaignGoal,
-          insight: validatedParsed.parameters.campaign_goal?.insight || "Инсайт недоступен",
-          source: validatedParsed.parameters.campaign_goal?.source || "ИИ-Анализ",
-        },
-        target_audience: {
-          id: "target_audience",
-          value: newParams.targetAudience,
-          insight: validatedParsed.parameters.target_audience?.insight || "Инсайт недоступен",
-          source: validatedParsed.parameters.target_audience?.source || "ИИ-Анализ",
-        },
-        product_complexity: {
-          id: "product_complexity",
-          value: newParams.productComplexity,
-          insight: validatedParsed.parameters.product_complexity?.insight || "Инсайт недоступен",
-          source: validatedParsed.parameters.product_complexity?.source || "ИИ-Анализ",
-        },
-        message_complexity: {
-          id: "message_complexity",
-          value: newParams.messageComplexity,
-          insight: validatedParsed.parameters.message_complexity?.insight || "Инсайт недоступен",
-          source: validatedParsed.parameters.message_complexity?.source || "ИИ-Анализ",
-        },
+    const { data } = result;
+    const newParams = { ...DEFAULT_SLIDER_PARAMS };
+    const newInsights: Record<string, AIInsight> = {};
+    for (const key of AI_PARAMETER_KEYS) {
+      const parameter = data.parameters[key];
+      const value = clampParam(parameter.value);
+      newParams[AI_PARAMETER_SLIDERS[key]] = value;
+      newInsights[key] = {
+        id: key,
+        value,
+        insight: parameter.insight || "Инсайт недоступен",
+        source: parameter.source || "ИИ-Анализ",
+        citations: linkParameterCitations(parameter, result.citations),
       };
+    }
 
-      console.log("💡 Инсайты извлечены:", newInsights);
-
-      setParams(newParams);
-      setInsights(newInsights);
-      setTaCapacityRF(validatedParsed.ta_capacity_rf || 1000000);
-      setKpiBenchmarks(validatedParsed.kpi_benchmarks || {
-        awareness_tom_base: 0.15,
-        consideration_search_base: 0.25,
-        conversion_uplift_base: 0.08,
-        retention_ltv_base: 0.04,
-      });
-      setRecommendedBudget(validatedParsed.recommended_budget || null);
-      setBudgetReasoning(validatedParsed.budget_reasoning || "");
-      setAnalysisComplete(true);
-      setAIErrorMessage("");
-      setParamView("ai");
-      console.log("✅ ИИ-Анализ успешно завершен!");
-    } catch (e) {
-      const errorMsg = `Не удалось распарсить ответ ИИ: ${e instanceof Error ? e.message : 'Неизвестная ошибка'}`;
-      console.error("❌ Ошибка парсинга:", e);
-      setAIErrorMessage(errorMsg);
+    console.log("📊 Распарсенные параметры:", newParams);
+
+    setParams(newParams);
+    setInsights(newInsights);
+    setTaCapacityRF(data.ta_capacity_rf || DEFAULT_TA_CAPACITY_RF);
+    setKpiBenchmarks(data.kpi_benchmarks || DEFAULT_KPI_BENCHMARKS);
+    setRecommendedBudget(data.recommended_budget || null);
+    setBudgetReasoning(data.budget_reasoning || "");
+    if (data.competitors && data.competitors.length > 0) {
+      const competitors = data.competitors;
+      setShareOfVoice((prev) => ({
+        ...prev,
+        unit: "spend",
+        shareOfMarket: data.share_of_market ?? prev.shareOfMarket,
+        competitors: competitors.map((c) => ({
+          id: crypto.randomUUID(),
+          name: c.name || "Конкурент",
+          value: c.estimated_spend,
+        })),
+      }));
     }
+    setAIPromptVersion(requestedPromptVersion.current);
+    setAIRawResponse(typeof aiData.response === "string" ? aiData.response : JSON.stringify(aiData.response));
+    setAnalysisComplete(true);
+    setAIErrorMessage("");
+    setAIParseIssues(null);
+    setParamView("ai");
+    console.log("✅ ИИ-Анализ успешно завершен!");
   }, [aiData]);
 
-  // Save calculation to database (optional - only if authenticated)
+  // Save calculation to database (optional - only if authenticated).
+  // One record per arrival on the results step: inputs edited there (flight
+  // dates, media mix) recalculate the plan but do not add history rows.
+  const savedOnResultsStep = useRef(false);
   useEffect(() => {
+    if (wizardStep !== "results") {
+      savedOnResultsStep.current = false;
+      return;
+    }
+    if (savedOnResultsStep.current) return;
+    savedOnResultsStep.current = true;
+
     const saveCalculation = async () => {
-      if (wizardStep !== "results") return;
 
       try {
         // Import auth check function
@@ -637,25 +653,70 @@ function App() {
         }
 
         const orm = CalculationHistoryORM.getInstance();
-        await orm.insertCalculationHistory([{
+        const [saved] = await orm.insertCalculationHistory([{
           id: "",
           data_creator: "",
           data_updater: "",
           create_time: "",
           update_time: "",
           calculation_time: new Date().toISOString(),
-          mode: isAIMode ? CalculationHistoryMode.AI : CalculationHistoryMode.Manual,
+          mode: calculationMethod === "ostrow"
+            ? CalculationHistoryMode.Ostrow
+            : isAIMode ? CalculationHistoryMode.AI : CalculationHistoryMode.Manual,
           brand_name: isAIMode ? aiForm.brandName : null,
           budget: isAIMode && aiForm.budget ? parseFloat(aiForm.budget) : null,
           campaign_goal: isAIMode ? aiForm.campaignGoal : null,
-          brand_awareness: params.brandAwareness,
-          market_saturation: params.marketSaturation,
-          campaign_goal_param: params.campaignGoal,
-          target_audience: params.targetAudience,
-          product_complexity: params.productComplexity,
-          message_complexity: params.messageComplexity,
+          brand_awareness: effectiveParams.brandAwareness,
+          market_saturation: effectiveParams.marketSaturation,
+          campaign_goal_param: effectiveParams.campaignGoal,
+          target_audience: effectiveParams.targetAudience,
+          product_complexity: effectiveParams.productComplexity,
+          message_complexity: effectiveParams.messageComplexity,
           calculated_frequency: frequency,
+          frequency_model: frequencyModel.id,
+          frequency_min: frequencyModel.minFrequency,
+          frequency_max: frequencyModel.maxFrequency,
+          ostrow_scores: calculationMethod === "ostrow" ? ostrowScores : null,
+          media_mix: calculation.coverage.mediaMix
+            ? calculation.coverage.mediaMix.channels.map((channel) => ({
+              channel: channel.channel,
+              share: channel.share,
+              cpm: channel.cpm,
+              max_reach: channel.maxReach,
+              budget: channel.budget,
+            }))
+            : null,
+          duplication_method: calculation.coverage.mediaMix ? calculation.coverage.mediaMix.method : null,
+          coefficient_version: kpiCoefficientSet.version,
+          prompt_version: isAIMode && analysisComplete ? aiPromptVersion : null,
+          ai_insights: isAIMode && analysisComplete
+            ? Object.fromEntries(Object.entries(insights).map(([key, { value, insight, source, citations }]) => [
+              key,
+              { value, insight, source, citations: citations.map((citation) => citation.url) },
+            ]))
+            : null,
+          // As used by the forecast: regional capacity and seasonal benchmarks, for calibration
+          ta_capacity_rf: calculationInput.taCapacityRF,
+          kpi_benchmarks: calculationInput.kpiBenchmarks,
+          planning: calculationInput.planning
+            ? {
+              mode: calculationInput.planning.mode,
+              cpm: calculationInput.planning.cpm,
+              cost_per_trp: calculationInput.planning.costPerTrp,
+              affinity: calculationInput.planning.affinity,
+              universe: calculationInput.planning.universe,
+            }
+            : null,
+          kpi_baselines: {
+            search_volume: kpiBaselines.searchVolume,
+            conversion_rate: kpiBaselines.conversionRate,
+            sessions: kpiBaselines.sessions,
+          },
+          recommended_budget: isAIMode ? recommendedBudget : null,
+          budget_reasoning: isAIMode && budgetReasoning ? budgetReasoning : null,
+          ai_raw_response: isAIMode && analysisComplete ? aiRawResponse : null,
         }]);
+        setSavedCalculationId(saved?.id ?? null);
         console.log("✅ Расчет успешно сохранен");
       } catch (error) {
         // Silently fail - saving is optional
@@ -664,7 +725,8 @@ function App() {
     };
 
     saveCalculation();
-  }, [wizardStep, frequency, isAIMode, params, aiForm]);
+    // Runs on step changes only; the values are read as they are on arrival
+  }, [wizardStep]);
 
   const sliderConfig: Array<{
     key: keyof SliderParams;
@@ -709,6 +771,9 @@ function App() {
       icon: MessageSquareIcon,
     },
   ];
+  const sliderLabels = Object.fromEntries(
+    sliderConfig.map((config) => [config.key, config.label])
+  ) as Record<keyof SliderParams, string>;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-zinc-50 to-zinc-100 dark:from-zinc-950 dark:to-zinc-900 p-4 sm:p-6 lg:p-8" style={{ fontFamily: "Montserrat, sans-serif" }}>
@@ -720,6 +785,12 @@ function App() {
           <p className="text-muted-foreground">
             Рассчитайте оптимальную частоту контактов для вашей рекламной кампании
           </p>
+          <Button variant="link" size="sm" asChild className="text-muted-foreground">
+            <Link to="/admin">
+              <SettingsIcon className="w-4 h-4 mr-1" />
+              Администрирование
+            </Link>
+          </Button>
         </div>
 
         {/* WIZARD NAVIGATION */}
@@ -742,13 +813,22 @@ function App() {
               2. Параметры
             </Button>
             <ChevronRightIcon className="w-5 h-5 text-muted-foreground" />
+            <Button
+              variant={wizardStep === "mix" ? "default" : "outline"}
+              onClick={() => setWizardStep("mix")}
+              disabled={!aiForm.brandName || !aiForm.budget}
+              style={wizardStep === "mix" ? { backgroundColor: "#d32f2f" } : {}}
+            >
+              3. Медиамикс
+            </Button>
+            <ChevronRightIcon className="w-5 h-5 text-muted-foreground" />
             <Button
               variant={wizardStep === "results" ? "default" : "outline"}
               onClick={() => setWizardStep("results")}
               disabled={!aiForm.brandName || !aiForm.budget}
               style={wizardStep === "results" ? { backgroundColor: "#d32f2f" } : {}}
             >
-              3. Результаты
+              4. Результаты
             </Button>
           </div>
         </div>
@@ -789,7 +869,7 @@ function App() {
                   <Select
                     value={aiForm.campaignGoal}
                     onValueChange={(value) =>
-                      setAIForm((prev) => ({ ...prev, campaignGoal: value }))
+                      setAIForm((prev) => ({ ...prev, campaignGoal: value as CampaignGoal }))
                     }
                   >
                     <SelectTrigger id="campaign-goal">
@@ -804,6 +884,33 @@ function App() {
                   </Select>
                 </div>
 
+                <div className="pt-4 border-t">
+                  <PlanningSettingsForm
+                    planning={planning}
+                    defaultUniverse={audienceCapacity}
+                    onChange={setPlanning}
+                  />
+                </div>
+
+                <div className="pt-4 border-t">
+                  <RegionSelector settings={regional} capacity={regionalCapacity} onChange={setRegional} />
+                </div>
+
+                <div className="pt-4 border-t">
+                  <SeasonalitySettingsForm
+                    settings={seasonality}
+                    startDate={flighting.startDate}
+                    endDate={flighting.endDate}
+                    adjustment={seasonalityAdjustment}
+                    onChange={setSeasonality}
+                    onPeriodChange={(startDate, endDate) => setFlighting({ ...flighting, startDate, endDate })}
+                  />
+                </div>
+
+                <div className="pt-4 border-t">
+                  <KpiBaselinesForm baselines={kpiBaselines} onChange={setKpiBaselines} />
+                </div>
+
                 <div className="flex items-center gap-3 pt-4 border-t">
                   <Switch
                     id="ai-mode"
@@ -816,6 +923,35 @@ function App() {
                   </Label>
                 </div>
 
+                {isAIMode && (
+                  <div className="flex items-center gap-3">
+                    <Switch
+                      id="ai-competitors"
+                      checked={aiEstimateCompetitors}
+                      onCheckedChange={setAIEstimateCompetitors}
+                    />
+                    <Label htmlFor="ai-competitors" className="cursor-pointer">
+                      Оценить бюджеты конкурентов для расчёта доли голоса
+                    </Label>
+                  </div>
+                )}
+
+                {isAIMode && (
+                  <div className="space-y-2 max-w-xs">
+                    <Label htmlFor="ai-language">Язык инсайтов</Label>
+                    <Select value={aiLanguage} onValueChange={(value) => setAILanguage(value as PromptLanguage)}>
+                      <SelectTrigger id="ai-language">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(PROMPT_LANGUAGES) as PromptLanguage[]).map((language) => (
+                          <SelectItem key={language} value={language}>{PROMPT_LANGUAGES[language].label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 <div className="flex justify-end gap-3 pt-4">
                   <Button onClick={handleReset} variant="outline">
                     <RotateCcwIcon className="w-4 h-4 mr-2" />
@@ -844,151 +980,301 @@ function App() {
                 <div className="flex items-center justify-between">
                   <CardTitle>Шаг 2: Настройка параметров</CardTitle>
                   {isAIMode && (
-                    <Button
-                      onClick={handleAIAnalyze}
-                      disabled={!aiForm.brandName || !aiForm.budget || !aiForm.campaignGoal || isAILoading}
-                      style={{ backgroundColor: "#d32f2f" }}
-                      className="hover:opacity-90"
-                      size="sm"
-                    >
-                      {isAILoading ? (
-                        <>
-                          <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
-                          Анализ...
-                        </>
-                      ) : (
-                        <>
-                          <SparklesIcon className="w-4 h-4 mr-2" />
-                          Запустить ИИ-Анализ
-                        </>
-                      )}
-                    </Button>
+                    <div className="flex items-center gap-3">
+                      <Link to="/admin" className="text-xs text-muted-foreground hover:underline">
+                        {llmProvider.label} · {llmSettings.models[llmProvider.id] || llmProvider.models[0]}
+                      </Link>
+                      <Button
+                        onClick={handleAIAnalyze}
+                        disabled={!aiForm.brandName || !aiForm.budget || !aiForm.campaignGoal || isAILoading}
+                        style={{ backgroundColor: "#d32f2f" }}
+                        className="hover:opacity-90"
+                        size="sm"
+                      >
+                        {isAILoading ? (
+                          <>
+                            <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+                            Анализ...
+                          </>
+                        ) : (
+                          <>
+                            <SparklesIcon className="w-4 h-4 mr-2" />
+                            Запустить ИИ-Анализ
+                          </>
+                        )}
+                      </Button>
+                    </div>
                   )}
                 </div>
               </CardHeader>
               <CardContent className="pt-6">
-                <Tabs value={paramView} onValueChange={(v) => setParamView(v as ParamView)}>
-                  <TabsList className="grid w-full grid-cols-2 mb-6">
-                    <TabsTrigger value="manual">Ручная настройка</TabsTrigger>
-                    <TabsTrigger value="ai" disabled={!isAIMode || !analysisComplete}>
-                      ИИ-Рекомендации
-                    </TabsTrigger>
-                  </TabsList>
-
-                  {/* Manual Parameter View */}
-                  <TabsContent value="manual" className="space-y-6">
-                    {sliderConfig.map((config) => (
-                      <div key={config.key} className="space-y-3">
-                        <div>
-                          <Label className="font-semibold text-sm flex items-center gap-2">
-                            <config.icon className="w-4 h-4" />
-                            {config.label}
-                          </Label>
-                          <p className="text-xs text-muted-foreground mt-1">
-                            {config.description}
-                          </p>
-                        </div>
-                        <div className="flex items-center gap-3">
-                          <Slider
-                            value={[params[config.key]]}
-                            onValueChange={handleSliderChange(config.key)}
-                            min={-2.0}
-                            max={2.0}
-                            step={0.1}
-                            className="flex-1"
-                          />
-                          <span className="text-sm font-mono w-12 text-right">
-                            {params[config.key].toFixed(1)}
-                          </span>
-                        </div>
-                      </div>
-                    ))}
-                  </TabsContent>
-
-                  {/* AI Parameter View */}
-                  <TabsContent value="ai" className="space-y-4">
-                    {(aiError || aiErrorMessage) && (
-                      <div className="p-4 bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-800 rounded-md">
-                        <p className="text-sm text-red-800 dark:text-red-200 flex items-start gap-2">
-                          <AlertCircleIcon className="w-5 h-5 flex-shrink-0 mt-0.5" />
-                          <span className="break-words">
-                            {aiErrorMessage || "Ошибка анализа"}
-                          </span>
+                {/* Calculation Method */}
+                <div className="space-y-2 mb-6">
+                  <Label htmlFor="calculation-method">Метод расчёта</Label>
+                  <Select
+                    value={calculationMethod}
+                    onValueChange={(value) => setCalculationMethod(value as CalculationMethod)}
+                  >
+                    <SelectTrigger id="calculation-method">
+                      <SelectValue placeholder="Выберите метод" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="sliders">Шесть факторов</SelectItem>
+                      <SelectItem value="ostrow">Рабочий лист Ostrow</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {calculationMethod === "ostrow" ? (
+                  <OstrowWorksheet
+                    scores={ostrowScores}
+                    result={ostrowResult}
+                    onScoreChange={handleOstrowScoreChange}
+                  />
+                ) : (
+                  <>
+                    {/* Frequency Model */}
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6 pb-6 border-b">
+                      <div className="space-y-2">
+                        <Label htmlFor="frequency-model">Модель частоты</Label>
+                        <Select value={frequencyModel.id} onValueChange={handleFrequencyModelChange}>
+                          <SelectTrigger id="frequency-model">
+                            <SelectValue placeholder="Выберите модель" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {FREQUENCY_MODEL_PRESETS.map((preset) => (
+                              <SelectItem key={preset.id} value={preset.id}>
+                                {preset.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                          {frequencyModel.description}. Базовая частота: {frequencyModel.baseFrequency.toFixed(1)}
                         </p>
                       </div>
-                    )}
+                      <div className="space-y-2">
+                        <Label htmlFor="frequency-min">Минимальная частота</Label>
+                        <Input
+                          id="frequency-min"
+                          type="number"
+                          step={0.5}
+                          min={1}
+                          value={frequencyClampDraft.minFrequency}
+                          aria-invalid={!!frequencyClampError}
+                          onChange={(e) => handleFrequencyClampChange("minFrequency")(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="frequency-max">Максимальная частота</Label>
+                        <Input
+                          id="frequency-max"
+                          type="number"
+                          step={0.5}
+                          min={frequencyModel.minFrequency}
+                          value={frequencyClampDraft.maxFrequency}
+                          aria-invalid={!!frequencyClampError}
+                          onChange={(e) => handleFrequencyClampChange("maxFrequency")(e.target.value)}
+                        />
+                      </div>
+                      {frequencyClampError && (
+                        <p className="md:col-start-2 md:col-span-2 text-sm text-destructive flex items-center gap-1">
+                          <AlertCircleIcon className="w-4 h-4 flex-shrink-0" />
+                          {frequencyClampError}
+                        </p>
+                      )}
+                    </div>
 
-                    {analysisComplete && !aiErrorMessage && Object.keys(insights).length > 0 ? (
-                      <div className="space-y-3">
-                        {sliderConfig.map((config) => {
-                          const insight = insights[config.key === 'brandAwareness' ? 'brand_awareness' :
-                                                  config.key === 'marketSaturation' ? 'market_saturation' :
-                                                  config.key === 'campaignGoal' ? 'campaign_goal' :
-                                                  config.key === 'targetAudience' ? 'target_audience' :
-                                                  config.key === 'productComplexity' ? 'product_complexity' :
-                                                  'message_complexity'];
-
-                          if (!insight) return null;
-
-                          return (
-                            <div
-                              key={config.key}
-                              className="p-4 rounded-lg border transition-all duration-300"
-                              style={{
-                                backgroundColor: `${getInsightColor(insight.value)}15`,
-                                borderColor: getInsightColor(insight.value),
-                              }}
-                            >
-                              <div className="flex items-start gap-3">
+                    <Tabs value={paramView} onValueChange={(v) => setParamView(v as ParamView)}>
+                      <TabsList className="grid w-full grid-cols-2 mb-6">
+                        <TabsTrigger value="manual">Ручная настройка</TabsTrigger>
+                        <TabsTrigger value="ai" disabled={!isAIMode || !analysisComplete}>
+                          ИИ-Рекомендации
+                        </TabsTrigger>
+                      </TabsList>
+
+                      {/* Manual Parameter View */}
+                      <TabsContent value="manual" className="space-y-6">
+                        {sliderConfig.map((config) => (
+                          <div key={config.key} className="space-y-3">
+                            <div>
+                              <Label className="font-semibold text-sm flex items-center gap-2">
+                                <config.icon className="w-4 h-4" />
+                                {config.label}
+                                <span className="text-xs font-mono font-normal text-muted-foreground">
+                                  ×{frequencyModel.weights[config.key].toFixed(1)}
+                                </span>
+                              </Label>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {config.description}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-3">
+                              <Slider
+                                value={[effectiveParams[config.key]]}
+                                onValueChange={handleSliderChange(config.key)}
+                                disabled={isSaturationFromSov && config.key === "marketSaturation"}
+                                min={-2.0}
+                                max={2.0}
+                                step={0.1}
+                                className="flex-1"
+                              />
+                              <span className="text-sm font-mono w-12 text-right">
+                                {effectiveParams[config.key].toFixed(1)}
+                              </span>
+                            </div>
+                          </div>
+                        ))}
+                      </TabsContent>
+
+                      {/* AI Parameter View */}
+                      <TabsContent value="ai" className="space-y-4">
+                        {(aiError || aiErrorMessage) && (
+                          <div className="p-4 bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-800 rounded-md">
+                            <p className="text-sm text-red-800 dark:text-red-200 flex items-start gap-2">
+                              <AlertCircleIcon className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                              <span className="break-words">
+                                {aiErrorMessage || aiError?.message || "Ошибка анализа"}
+                              </span>
+                            </p>
+                            {aiParseIssues && (aiParseIssues.missing.length > 0 || aiParseIssues.invalid.length > 0) && (
+                              <ul className="mt-2 ml-7 list-disc text-sm text-red-800 dark:text-red-200 space-y-1">
+                                {aiParseIssues.missing.length > 0 && (
+                                  <li>
+                                    Нет в ответе: {aiParseIssues.missing.map((key) => sliderLabels[AI_PARAMETER_SLIDERS[key]]).join(", ")}
+                                  </li>
+                                )}
+                                {aiParseIssues.invalid.length > 0 && (
+                                  <li>
+                                    Значение не распознано: {aiParseIssues.invalid.map((key) => sliderLabels[AI_PARAMETER_SLIDERS[key]]).join(", ")}
+                                  </li>
+                                )}
+                              </ul>
+                            )}
+                          </div>
+                        )}
+
+                        {analysisComplete && !aiErrorMessage && Object.keys(insights).length > 0 ? (
+                          <div className="space-y-3">
+                            {sliderConfig.map((config) => {
+                              const insightKey = AI_PARAMETER_KEYS.find((key) => AI_PARAMETER_SLIDERS[key] === config.key);
+                              const insight = insightKey && insights[insightKey];
+
+                              if (!insight) return null;
+
+                              return (
                                 <div
-                                  className="p-2 rounded-lg"
-                                  style={{ backgroundColor: getInsightColor(insight.value) }}
+                                  key={config.key}
+                                  className="p-4 rounded-lg border transition-all duration-300"
+                                  style={{
+                                    backgroundColor: `${getInsightColor(insight.value)}15`,
+                                    borderColor: getInsightColor(insight.value),
+                                  }}
                                 >
-                                  <config.icon className="w-4 h-4 text-white" />
-                                </div>
-                                <div className="flex-1 min-w-0">
-                                  <div className="flex items-center justify-between mb-2">
-                                    <Label className="text-sm font-semibold">
-                                      {config.label}
-                                    </Label>
-                                    <span
-                                      className="text-xs font-bold px-2 py-1 rounded"
-                                      style={{
-                                        backgroundColor: getInsightColor(insight.value),
-                                        color: 'white',
-                                      }}
+                                  <div className="flex items-start gap-3">
+                                    <div
+                                      className="p-2 rounded-lg"
+                                      style={{ backgroundColor: getInsightColor(insight.value) }}
                                     >
-                                      {insight.value.toFixed(1)}
-                                    </span>
-                                  </div>
-                                  <p className="text-sm text-foreground leading-relaxed mb-2">
-                                    {insight.insight}
-                                  </p>
-                                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                                    <span className="font-medium">Источник:</span>
-                                    <span className="truncate">{insight.source}</span>
+                                      <config.icon className="w-4 h-4 text-white" />
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                      <div className="flex items-center justify-between mb-2">
+                                        <Label className="text-sm font-semibold">
+                                          {config.label}
+                                        </Label>
+                                        <span
+                                          className="text-xs font-bold px-2 py-1 rounded"
+                                          style={{
+                                            backgroundColor: getInsightColor(insight.value),
+                                            color: 'white',
+                                          }}
+                                        >
+                                          {insight.value.toFixed(1)}
+                                        </span>
+                                      </div>
+                                      <p className="text-sm text-foreground leading-relaxed mb-2">
+                                        {insight.insight}
+                                      </p>
+                                      <AIInsightSources source={insight.source} citations={insight.citations} />
+                                    </div>
                                   </div>
                                 </div>
-                              </div>
-                            </div>
-                          );
-                        })}
-                      </div>
-                    ) : (
-                      <div className="flex flex-col items-center justify-center h-64 text-center">
-                        <SparklesIcon className="w-12 h-12 text-muted-foreground/30 mb-4" />
-                        <p className="text-sm text-muted-foreground">
-                          Нажмите "Запустить ИИ-Анализ" для получения персонализированных рекомендаций
-                        </p>
-                      </div>
-                    )}
-                  </TabsContent>
-                </Tabs>
+                              );
+                            })}
+                          </div>
+                        ) : (
+                          <div className="flex flex-col items-center justify-center h-64 text-center">
+                            <SparklesIcon className="w-12 h-12 text-muted-foreground/30 mb-4" />
+                            <p className="text-sm text-muted-foreground">
+                              Нажмите "Запустить ИИ-Анализ" для получения персонализированных рекомендаций
+                            </p>
+                          </div>
+                        )}
+                      </TabsContent>
+                    </Tabs>
+                  </>
+                )}
+
+                {/* Share of Voice */}
+                <div className="pt-6 mt-6 border-t space-y-4">
+                  <Label className="text-base font-semibold">Доля голоса (SOV)</Label>
+                  <ShareOfVoicePanel
+                    settings={shareOfVoice}
+                    result={shareOfVoiceResult}
+                    brandName={aiForm.brandName}
+                    onChange={setShareOfVoice}
+                  />
+                </div>
+
+                {/* Audience Segments */}
+                <div className="pt-6 mt-6 border-t space-y-4">
+                  <Label className="text-base font-semibold">Сегменты аудитории</Label>
+                  <SegmentBuilder
+                    segments={segments}
+                    params={effectiveParams}
+                    paramLabels={sliderLabels}
+                    regionIds={isRegional ? regional.regionIds : []}
+                    onChange={setSegments}
+                  />
+                </div>
 
                 <div className="flex justify-end gap-3 pt-6 border-t mt-6">
                   <Button onClick={() => setWizardStep("brand")} variant="outline">
                     Назад
                   </Button>
+                  <Button
+                    onClick={handleContinueToMix}
+                    style={{ backgroundColor: "#d32f2f" }}
+                    className="hover:opacity-90"
+                  >
+                    Продолжить
+                    <ChevronRightIcon className="w-4 h-4 ml-2" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* STEP 3: MEDIA MIX */}
+        {wizardStep === "mix" && (
+          <div className="max-w-6xl mx-auto">
+            <Card>
+              <CardHeader className="border-b">
+                <CardTitle>Шаг 3: Медиамикс</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6">
+                <MediaMixEditor
+                  settings={mediaMix}
+                  result={mediaMixPreview}
+                  onChange={setMediaMix}
+                />
+
+                <div className="flex justify-end gap-3 pt-6 border-t mt-6">
+                  <Button onClick={() => setWizardStep("params")} variant="outline">
+                    Назад
+                  </Button>
                   <Button
                     onClick={handleContinueToResults}
                     style={{ backgroundColor: "#d32f2f" }}
@@ -1003,7 +1289,7 @@ function App() {
           </div>
         )}
 
-        {/* STEP 3: RESULTS */}
+        {/* STEP 4: RESULTS */}
         {wizardStep === "results" && (
           <div className="max-w-6xl mx-auto">
             {/* AI Recommended Budget Banner */}
@@ -1026,7 +1312,7 @@ function App() {
                 </CardHeader>
                 <CardContent className="pt-6 space-y-6">
                   {/* Budget Comparison */}
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                     <div className="p-4 rounded-lg border-2" style={{ borderColor: "#d32f2f", backgroundColor: "#d32f2f05" }}>
                       <div className="text-xs text-muted-foreground mb-1">Рекомендуемый бюджет</div>
                       <div className="text-3xl font-bold" style={{ color: "#d32f2f" }}>
@@ -1058,6 +1344,18 @@ function App() {
                         </div>
                       </div>
                     )}
+                    {budgetSolution && (
+                      <div className="p-4 rounded-lg border bg-muted/50">
+                        <div className="text-xs text-muted-foreground mb-1">
+                          Расчёт модели: {budgetSolution.targetReach}% ЦА с частотой {budgetSolution.threshold}+
+                        </div>
+                        <div className="text-3xl font-bold text-foreground">
+                          {budgetSolution.budget !== null
+                            ? `${Math.round(budgetSolution.budget).toLocaleString('ru-RU')} ₽`
+                            : "Недостижимо"}
+                        </div>
+                      </div>
+                    )}
                   </div>
 
                   {/* Budget Reasoning */}
@@ -1074,6 +1372,16 @@ function App() {
               </Card>
             )}
 
+            {budgetSolution && reachSolution && (
+              <BudgetSolverCard
+                targetReach={targetReach}
+                onTargetReachChange={setTargetReach}
+                budgetSolution={budgetSolution}
+                reachSolution={reachSolution}
+                recommendedBudget={recommendedBudget}
+              />
+            )}
+
             <div className="grid lg:grid-cols-2 gap-6">
               {/* LEFT: Frequency Display */}
               <Card>
@@ -1099,7 +1407,7 @@ function App() {
                     <div className="relative h-8 rounded-full overflow-hidden bg-gradient-to-r from-green-500 via-yellow-500 to-red-500">
                       <div
                         className="absolute top-0 h-full w-1 bg-white shadow-lg transition-all duration-300"
-                        style={{ left: `${((frequency - 1.0) / 14.0) * 100}%` }}
+                        style={{ left: `${getFrequencyPosition(frequency) * 100}%` }}
                       >
                         <div className="absolute -top-8 left-1/2 -translate-x-1/2 bg-white px-2 py-1 rounded shadow text-xs font-bold">
                           {frequency.toFixed(1)}
@@ -1107,8 +1415,8 @@ function App() {
                       </div>
                     </div>
                     <div className="flex justify-between text-xs text-muted-foreground">
-                      <span>1.0</span>
-                      <span>15.0</span>
+                      <span>{frequencyRange.min.toFixed(1)}</span>
+                      <span>{frequencyRange.max.toFixed(1)}</span>
                     </div>
                   </div>
 
@@ -1132,35 +1440,40 @@ function App() {
                       <div className="flex items-center gap-2">
                         <PercentIcon className="w-5 h-5 text-blue-600 dark:text-blue-400" />
                         <Label className="text-sm font-semibold text-blue-900 dark:text-blue-100">
-                          Охват ЦА в РФ
+                          Охват ЦА {isRegional ? "в регионах" : "в РФ"} ({calculation.coverage.threshold}+)
                         </Label>
                       </div>
                       <div className="text-3xl font-bold text-blue-700 dark:text-blue-300">
-                        {calculateCoverage.toFixed(1)}%
+                        {calculation.coverage.value.toFixed(1)}%
                       </div>
                     </div>
                     <p className="text-xs text-blue-600 dark:text-blue-400">
-                      от целевой аудитории в России (CPM: 400 RUB)
+                      эффективный охват целевой аудитории {isRegional ? "в выбранных регионах" : "в России"}: охват 1+ {calculation.coverage.reach1Plus.toFixed(1)}%,
+                      TRP {calculation.coverage.trp.toFixed(0)}
+                      {calculation.coverage.mediaMix
+                        ? ` (медиамикс: ${calculation.coverage.mediaMix.channels.filter((c) => c.budget > 0).map((c) => MEDIA_CHANNEL_LABELS[c.channel]).join(", ")}, средний CPM ${calculation.coverage.cpm.toFixed(0)} RUB)`
+                        : calculation.coverage.planningMode === "ratings"
+                        ? ` / GRP ${calculation.coverage.grp.toFixed(0)} (стоимость TRP: ${planning.costPerTrp.toLocaleString('ru-RU')} RUB, affinity ${planning.affinity})`
+                        : ` (CPM: ${calculation.coverage.cpm.toFixed(0)} RUB)`}
+                      {seasonality.enabled && ` · сезонный индекс CPM ×${seasonalityAdjustment.cpmIndex.toFixed(2)} (${seasonalityPeriodLabel})`}
                     </p>
+                    {monteCarlo && (
+                      <ForecastBand distribution={monteCarlo.metrics.coverage} color="#2563eb" unit="%" />
+                    )}
                   </div>
 
-                  {/* Variable KPI (TOM or LTV) */}
-                  <div className="p-6 bg-green-50 dark:bg-green-950/20 rounded-lg border border-green-200 dark:border-green-800">
-                    <div className="flex items-center justify-between mb-3">
-                      <div className="flex items-center gap-2">
-                        <ZapIcon className="w-5 h-5 text-green-600 dark:text-green-400" />
-                        <Label className="text-sm font-semibold text-green-900 dark:text-green-100">
-                          {getKPILabel()}
-                        </Label>
-                      </div>
-                      <div className="text-3xl font-bold text-green-700 dark:text-green-300">
-                        +{(aiForm.campaignGoal === "retention" ? calculateLTVGrowth : calculateTOM).toFixed(1)}%
-                      </div>
-                    </div>
-                    <p className="text-xs text-green-600 dark:text-green-400">
-                      прогнозируемый рост для категории
-                    </p>
-                  </div>
+                  {/* KPI forecasts, goal KPI highlighted */}
+                  <KpiForecastPanel
+                    calculation={calculation}
+                    goal={aiForm.campaignGoal}
+                    note={seasonality.enabled
+                      ? `сезонный индекс базы ×${seasonalityAdjustment.kpiIndex.toFixed(2)} (${SEASONALITY_CATEGORY_LABELS[seasonality.category]}, ${seasonalityPeriodLabel})`
+                      : undefined}
+                  >
+                    {monteCarlo && (
+                      <ForecastBand distribution={monteCarlo.metrics.goalKPI} color="#16a34a" unit="%" />
+                    )}
+                  </KpiForecastPanel>
 
                   {/* Contact Frequency */}
                   <div className="p-6 bg-purple-50 dark:bg-purple-950/20 rounded-lg border border-purple-200 dark:border-purple-800">
@@ -1178,16 +1491,225 @@ function App() {
                     <p className="text-xs text-purple-600 dark:text-purple-400">
                       среднее количество показов на пользователя
                     </p>
+                    {monteCarlo && (
+                      <ForecastBand distribution={monteCarlo.metrics.frequency} color="#9333ea" />
+                    )}
+                  </div>
+
+                  {/* Monte Carlo Settings */}
+                  <div className="p-4 rounded-lg border bg-muted/30 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-sm font-semibold">Неопределённость вводных</Label>
+                      <span className="text-xs text-muted-foreground">
+                        {isMonteCarloRunning
+                          ? "Идёт симуляция…"
+                          : monteCarlo && `${monteCarlo.iterations.toLocaleString('ru-RU')} сценариев, диапазон P10–P90`}
+                      </span>
+                    </div>
+                    <UncertaintySettingsForm settings={uncertainty} onChange={setUncertainty} />
                   </div>
                 </CardContent>
               </Card>
             </div>
 
+            {/* Frequency Distribution */}
+            <Card className="mt-6">
+              <CardHeader className="border-b">
+                <CardTitle>Распределение частоты контактов</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="p-4 rounded-lg bg-muted/50">
+                    <div className="text-xs text-muted-foreground mb-1">Охват 1+</div>
+                    <div className="text-2xl font-bold">{calculation.coverage.reach1Plus.toFixed(1)}%</div>
+                  </div>
+                  <div className="p-4 rounded-lg bg-blue-50 dark:bg-blue-950/20 border border-blue-200 dark:border-blue-800">
+                    <div className="text-xs text-muted-foreground mb-1">
+                      Эффективный охват {calculation.coverage.threshold}+
+                    </div>
+                    <div className="text-2xl font-bold text-blue-700 dark:text-blue-300">
+                      {calculation.coverage.value.toFixed(1)}%
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {Math.round(calculation.coverage.reach).toLocaleString('ru-RU')} человек
+                    </div>
+                  </div>
+                  <div className="p-4 rounded-lg bg-muted/50">
+                    <div className="text-xs text-muted-foreground mb-1">Средняя частота среди охваченных</div>
+                    <div className="text-2xl font-bold">{calculation.coverage.distribution.averageFrequency.toFixed(1)}</div>
+                  </div>
+                </div>
+                <FrequencyDistributionChart
+                  distribution={calculation.coverage.distribution}
+                  threshold={calculation.coverage.threshold}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Доля ЦА, получившая ровно N контактов (модель отрицательного биномиального распределения,
+                  k = {calculation.coverage.distribution.shape.toFixed(1)}). Выделены столбцы с эффективной частотой.
+                </p>
+              </CardContent>
+            </Card>
+
+            {/* Regional Breakdown */}
+            {regionalCoverage && (
+              <Card className="mt-6">
+                <CardHeader className="border-b">
+                  <CardTitle>Охват по регионам</CardTitle>
+                </CardHeader>
+                <CardContent className="pt-6">
+                  <RegionalBreakdownTable result={regionalCoverage} threshold={calculation.coverage.threshold} />
+                  <p className="text-xs text-muted-foreground mt-3">
+                    Бюджет распределён пропорционально ёмкости ЦА; CPM скорректирован на региональный индекс цен.
+                    Итоговый план рассчитан по средневзвешенному индексу ×{regionalPriceIndex.toFixed(2)}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Segment Plan */}
+            {segmentPlan && (
+              <Card className="mt-6">
+                <CardHeader className="border-b">
+                  <CardTitle>План по сегментам</CardTitle>
+                </CardHeader>
+                <CardContent className="pt-6">
+                  <SegmentPlanTable plan={segmentPlan} goalKPILabel={getKPILabel()} />
+                  <p className="text-xs text-muted-foreground mt-3">
+                    Итог взвешен по размеру сегментов; эффективно охвачено{" "}
+                    {Math.round(segmentPlan.effectivelyReached).toLocaleString('ru-RU')} чел.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Scenarios */}
+            <Card className="mt-6">
+              <CardHeader className="border-b">
+                <CardTitle>Сценарии</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6 space-y-6">
+                <ScenarioBuilder
+                  scenarios={scenarios}
+                  results={scenarioResults}
+                  input={calculationInput}
+                  paramLabels={sliderLabels}
+                  calculationId={savedCalculationId}
+                  brandName={aiForm.brandName || null}
+                  onChange={setScenarios}
+                />
+                {scenarioResults.length > 0 && (
+                  <>
+                    <ScenarioComparisonTable
+                      current={calculation}
+                      currentBudget={calculationInput.budget}
+                      results={scenarioResults}
+                    />
+                    <div className="space-y-2">
+                      <Label className="text-sm font-semibold">Охват по порогу частоты</Label>
+                      <ScenarioOverlayChart current={calculation} results={scenarioResults} />
+                    </div>
+                    {calculationMethod === "ostrow" && (
+                      <p className="text-xs text-muted-foreground">
+                        Частота задана рабочим листом Ostrow, поэтому параметры сценариев влияют только на КПИ.
+                      </p>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Brand Portfolio */}
+            <Card className="mt-6">
+              <CardHeader className="border-b">
+                <CardTitle>Портфель брендов</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6">
+                <PortfolioPanel paramLabels={sliderLabels} onOpenBrand={handleOpenPortfolioBrand} />
+              </CardContent>
+            </Card>
+
+            {/* Flighting Calendar */}
+            <Card className="mt-6">
+              <CardHeader className="border-b">
+                <CardTitle>Календарь флайтов</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6">
+                <FlightingCalendar settings={flighting} result={flightingResult} onChange={setFlighting} />
+              </CardContent>
+            </Card>
+
+            {/* Frequency Caps */}
+            <Card className="mt-6">
+              <CardHeader className="border-b">
+                <CardTitle>Частотные ограничения (frequency cap)</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6">
+                <FrequencyCapTable plan={frequencyCaps} />
+              </CardContent>
+            </Card>
+
+            {/* Sensitivity Analysis */}
+            {sensitivity && (
+              <Card className="mt-6">
+                <CardHeader className="border-b">
+                  <CardTitle>Чувствительность к вводным</CardTitle>
+                </CardHeader>
+                <CardContent className="pt-6">
+                  <SensitivityTornadoChart
+                    sensitivity={sensitivity}
+                    paramLabels={sliderLabels}
+                    goalKPILabel={getKPILabel()}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Method Comparison */}
+            <Card className="mt-6">
+              <CardHeader className="border-b">
+                <CardTitle>Сравнение методов</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {([
+                    { method: "sliders", label: `Шесть факторов (${frequencyModel.label})`, result: sliderCalculation },
+                    { method: "ostrow", label: "Рабочий лист Ostrow", result: ostrowCalculation },
+                  ] as const).map(({ method, label, result }) => (
+                    <div
+                      key={method}
+                      className={`p-4 rounded-lg border ${calculationMethod === method ? "border-2" : "bg-muted/30"}`}
+                      style={calculationMethod === method ? { borderColor: "#d32f2f" } : {}}
+                    >
+                      <div className="text-sm font-semibold mb-3">{label}</div>
+                      <div className="grid grid-cols-3 gap-2 text-center">
+                        <div>
+                          <div className="text-xs text-muted-foreground">Частота</div>
+                          <div className="text-xl font-bold">{result.frequency.frequency.toFixed(1)}</div>
+                        </div>
+                        <div>
+                          <div className="text-xs text-muted-foreground">Охват</div>
+                          <div className="text-xl font-bold">{result.coverage.value.toFixed(1)}%</div>
+                        </div>
+                        <div>
+                          <div className="text-xs text-muted-foreground">{getKPILabel()}</div>
+                          <div className="text-xl font-bold">+{result.goalKPI.toFixed(1)}%</div>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
             {/* Action Buttons */}
             <div className="flex justify-center gap-3 mt-6">
               <Button onClick={() => setWizardStep("params")} variant="outline">
                 Изменить параметры
               </Button>
+              <Button onClick={handleAddToPortfolio} variant="outline">
+                <BriefcaseIcon className="w-4 h-4 mr-2" />
+                Добавить в портфель
+              </Button>
               <Button onClick={handleReset} variant="outline">
                 <RotateCcwIcon className="w-4 h-4 mr-2" />
                 Новый расчет